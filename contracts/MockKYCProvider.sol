@@ -0,0 +1,58 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+
+/**
+ * @title MockKYCProvider
+ * @dev Stand-in for Coinbase Verifications on local and test networks
+ * The owner verifies or revokes addresses; when self-verification is enabled any
+ * address can verify itself, so the frontend's verification flow can be exercised end to end
+ */
+contract MockKYCProvider is Ownable {
+    mapping(address => bool) private _verified;
+    bool public allowSelfVerification;
+
+    event VerificationUpdated(address indexed user, bool verified);
+    event SelfVerificationUpdated(bool allowed);
+
+    constructor(address initialOwner, bool allowSelfVerification_) {
+        _transferOwnership(initialOwner);
+        allowSelfVerification = allowSelfVerification_;
+    }
+
+    /**
+     * @dev Same signature as ICoinbaseVerifications.isVerified, which the hub calls
+     */
+    function isVerified(address user) external view returns (bool) {
+        return _verified[user];
+    }
+
+    function setVerified(address user, bool verified) external onlyOwner {
+        _setVerified(user, verified);
+    }
+
+    function setVerifiedBatch(address[] calldata users, bool verified) external onlyOwner {
+        for (uint256 i = 0; i < users.length; i++) {
+            _setVerified(users[i], verified);
+        }
+    }
+
+    function setAllowSelfVerification(bool allowed) external onlyOwner {
+        allowSelfVerification = allowed;
+        emit SelfVerificationUpdated(allowed);
+    }
+
+    /**
+     * @dev Verify the caller without the owner, for testing only
+     */
+    function verifySelf() external {
+        require(allowSelfVerification, "Self-verification disabled");
+        _setVerified(msg.sender, true);
+    }
+
+    function _setVerified(address user, bool verified) internal {
+        _verified[user] = verified;
+        emit VerificationUpdated(user, verified);
+    }
+}
@@ -2,14 +2,16 @@
 pragma solidity ^0.8.19;
 
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 
 /**
  * @title MockRWAToken
  * @dev Simple ERC20 token for testing RWA Liquidity Hub
  * Allows anyone to mint tokens for testing purposes
+ * Supports EIP-2612 permit so bundled supplies (Bundler3) need no separate approval
  */
-contract MockRWAToken is ERC20, Ownable {
+contract MockRWAToken is ERC20, ERC20Permit, Ownable {
     uint8 private _decimals;
     string private _tokenType;
     
@@ -19,7 +21,7 @@ contract MockRWAToken is ERC20, Ownable {
         uint8 decimals_,
         string memory tokenType_,
         address initialOwner
-    ) ERC20(name, symbol) {
+    ) ERC20(name, symbol) ERC20Permit(name) {
         _decimals = decimals_;
         _tokenType = tokenType_;
         
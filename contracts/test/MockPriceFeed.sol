@@ -0,0 +1,33 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+/**
+ * @title MockPriceFeed
+ * @dev Oracle for hub markets in tests. The hub values collateral with the Chainlink
+ * answer and Morpho Blue checks health with price(), so the two are set separately
+ */
+contract MockPriceFeed {
+    uint8 public immutable decimals;
+    int256 public answer;
+    uint256 public updatedAt;
+    uint256 public price;
+
+    constructor(uint8 decimals_, int256 answer_, uint256 price_) {
+        decimals = decimals_;
+        setAnswer(answer_);
+        price = price_;
+    }
+
+    function setAnswer(int256 answer_) public {
+        answer = answer_;
+        updatedAt = block.timestamp;
+    }
+
+    function setPrice(uint256 price_) external {
+        price = price_;
+    }
+
+    function latestRoundData() external view returns (uint80, int256, uint256, uint256, uint80) {
+        return (1, answer, updatedAt, updatedAt, 1);
+    }
+}
@@ -0,0 +1,7 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.19;
+
+// Morpho Blue and its mocks, compiled so the hub tests can run it on the Hardhat network
+import {Morpho} from "@morpho-org/morpho-blue/src/Morpho.sol";
+import {ERC20Mock} from "@morpho-org/morpho-blue/src/mocks/ERC20Mock.sol";
+import {IrmMock} from "@morpho-org/morpho-blue/src/mocks/IrmMock.sol";
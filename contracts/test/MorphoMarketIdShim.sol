@@ -0,0 +1,33 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+/**
+ * @title MorphoMarketIdShim
+ * @dev Runs Morpho Blue behind a delegatecall for the hub tests. The hub's IMorpho declares
+ * createMarket as returning the market id, which Morpho Blue's createMarket does not return,
+ * so the shim appends the id (keccak256 of the encoded market params) to that call's result.
+ * Every other call returns Morpho's result unchanged, with Morpho's storage in the shim.
+ */
+contract MorphoMarketIdShim {
+    bytes4 private constant CREATE_MARKET_SELECTOR = bytes4(keccak256("createMarket((address,address,address,address,uint256))"));
+
+    address private immutable implementation;
+
+    constructor(address implementation_) {
+        implementation = implementation_;
+    }
+
+    fallback(bytes calldata data) external returns (bytes memory) {
+        (bool success, bytes memory result) = implementation.delegatecall(data);
+        if (!success) {
+            assembly {
+                revert(add(result, 32), mload(result))
+            }
+        }
+
+        if (msg.sig == CREATE_MARKET_SELECTOR) {
+            return abi.encode(keccak256(data[4:]));
+        }
+        return result;
+    }
+}
@@ -1,6 +1,61 @@
 require("@nomicfoundation/hardhat-toolbox");
 require("dotenv").config();
 
+const fs = require("fs");
+const path = require("path");
+const { execFileSync } = require("child_process");
+const { subtask, task } = require("hardhat/config");
+const { TASK_COMPILE, TASK_COMPILE_SOLIDITY_GET_SOURCE_PATHS } = require("hardhat/builtin-tasks/task-names");
+
+// Contracts that live outside contracts/ but still need artifacts (and frontend bindings)
+const EXTRA_SOURCE_DIRS = ["data", "liquidity", "monitoring", "rewards"];
+
+const findSolidityFiles = (dir) => {
+  if (!fs.existsSync(dir)) return [];
+
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) return findSolidityFiles(entryPath);
+    return entry.name.endsWith(".sol") ? [entryPath] : [];
+  });
+};
+
+subtask(TASK_COMPILE_SOLIDITY_GET_SOURCE_PATHS).setAction(async (_, hre, runSuper) => {
+  const sourcePaths = await runSuper();
+  const extraPaths = EXTRA_SOURCE_DIRS.flatMap((dir) =>
+    findSolidityFiles(path.join(hre.config.paths.root, dir))
+  );
+
+  return [...sourcePaths, ...extraPaths];
+});
+
+// Regenerate the bindings, then type-check the frontend against them, so ABI drift fails here
+task("typecheck", "Compile the contracts and type-check morpho-rwa-frontend").setAction(async (_, hre) => {
+  await hre.run(TASK_COMPILE);
+
+  const frontend = path.join(hre.config.paths.root, "morpho-rwa-frontend");
+  try {
+    execFileSync(process.execPath, [require.resolve("typescript/bin/tsc"), "--noEmit", "-p", frontend], {
+      stdio: "inherit"
+    });
+  } catch {
+    throw new Error("morpho-rwa-frontend failed type-checking");
+  }
+});
+
+// Check utils/morphoMath.ts against the market snapshots in scripts/morpho-math-fixtures.json
+task("morpho-math", "Check the frontend's Morpho Blue math against its market snapshot fixtures")
+  .addOptionalParam("capture", "Add a snapshot from a transaction that accrued interest on Morpho Blue")
+  .setAction(async ({ capture }, hre) => {
+    const frontend = path.join(hre.config.paths.root, "morpho-rwa-frontend");
+    const args = ["tsx", "scripts/check-morpho-math.ts", ...(capture ? ["capture", capture] : [])];
+    try {
+      execFileSync("npx", args, { cwd: frontend, stdio: "inherit" });
+    } catch {
+      throw new Error("utils/morphoMath.ts failed the Morpho math check");
+    }
+  });
+
 module.exports = {
   solidity: {
     version: "0.8.19",
@@ -23,5 +78,10 @@ module.exports = {
   },
   etherscan: {
     apiKey: process.env.ETHERSCAN_API_KEY || ""
+  },
+  // Typed ethers v6 bindings for the frontend, regenerated on every `npx hardhat compile`
+  typechain: {
+    outDir: "morpho-rwa-frontend/typechain",
+    target: "ethers-v6"
   }
-};
\ No newline at end of file
+};
@@ -703,10 +703,10 @@ contract PublicAllocatorIntegration is ReentrancyGuard, Ownable {
     /**
      * @notice Update market yield data
      * @param marketId Market ID
-     * @param yield New yield value
+     * @param marketYield New yield value
      */
-    function updateMarketYield(bytes32 marketId, uint256 yield) external onlyLiquidityManager {
-        marketYields[marketId] = yield;
+    function updateMarketYield(bytes32 marketId, uint256 marketYield) external onlyLiquidityManager {
+        marketYields[marketId] = marketYield;
     }
 }
 
@@ -1777,10 +1777,10 @@ contract PublicAllocatorIntegration is ReentrancyGuard, Ownable {
     /**
      * @notice Update market yield data
      * @param marketId Market ID
-     * @param yield New yield value
+     * @param marketYield New yield value
      */
-    function updateMarketYield(bytes32 marketId, uint256 yield) external onlyLiquidityManager {
-        marketYields[marketId] = yield;
+    function updateMarketYield(bytes32 marketId, uint256 marketYield) external onlyLiquidityManager {
+        marketYields[marketId] = marketYield;
     }
 
     /**
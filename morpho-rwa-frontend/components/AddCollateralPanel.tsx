@@ -0,0 +1,204 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ethers } from 'ethers';
+import { formatBigInt, getHealthFactorStatus, toBigInt } from '@/utils';
+import { useWeb3 } from '@/hooks/useWeb3';
+import { RescueQuote, toHealthFactorBps } from '@/utils/collateral';
+import { SimulationResult } from '@/utils/simulation';
+import TransactionPreview from '@/components/TransactionPreview';
+import { HEALTH_FACTOR_THRESHOLDS } from '@/types';
+
+interface AddCollateralPanelProps {
+  token: {
+    address: string;
+    symbol: string;
+    decimals: number;
+  };
+  account: string;
+  disabled?: boolean;
+  // Health factor a rescue restores, e.g. HEALTH_FACTOR_THRESHOLDS.SAFE
+  targetHealthFactor?: number;
+  // Called after a successful transaction so the page can refresh the position
+  onComplete?: () => void;
+}
+
+const STAGE_LABELS = {
+  simulating: 'Simulating...',
+  signing: 'Awaiting Signature...',
+  approval: 'Approving Token...',
+  transaction: 'Executing...',
+  confirming: 'Confirming...'
+} as const;
+
+export default function AddCollateralPanel({
+  token,
+  account,
+  disabled = false,
+  targetHealthFactor = HEALTH_FACTOR_THRESHOLDS.SAFE,
+  onComplete
+}: AddCollateralPanelProps) {
+  const [amount, setAmount] = useState<string>('');
+  const [balance, setBalance] = useState<bigint>(0n);
+  const [rescue, setRescue] = useState<RescueQuote | null>(null);
+  const [simulation, setSimulation] = useState<SimulationResult | null>(null);
+  const [isSimulating, setIsSimulating] = useState<boolean>(false);
+
+  const {
+    transactionStatus,
+    fetchRescueQuote,
+    getUserTokenBalance,
+    previewAddCollateral,
+    executeAddCollateral,
+    resetTransactionStatus
+  } = useWeb3();
+
+  const loadPosition = useCallback(async () => {
+    const [quote, tokenBalance] = await Promise.all([
+      fetchRescueQuote(token.address, account, toHealthFactorBps(targetHealthFactor)),
+      getUserTokenBalance(token.address, account)
+    ]);
+    setRescue(quote);
+    setBalance(tokenBalance);
+  }, [fetchRescueQuote, getUserTokenBalance, token.address, account, targetHealthFactor]);
+
+  useEffect(() => {
+    setRescue(null);
+    setAmount('');
+    if (account) loadPosition();
+  }, [account, loadPosition]);
+
+  const amountWei = toBigInt(amount, token.decimals);
+  const validationError = amountWei > balance ? `Insufficient ${token.symbol} balance` : null;
+
+  // Preview the resulting health factor once the input settles
+  useEffect(() => {
+    setSimulation(null);
+    if (!account || amountWei === 0n || validationError) return;
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      setIsSimulating(true);
+      try {
+        const result = await previewAddCollateral(token.address, amountWei, account);
+        if (!cancelled) setSimulation(result);
+      } catch (error) {
+        console.error('Error simulating add collateral:', error);
+      } finally {
+        if (!cancelled) setIsSimulating(false);
+      }
+    }, 500);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [account, token.address, amountWei, validationError]);
+
+  const submit = async (value: bigint, description: string) => {
+    const success = await executeAddCollateral(token.address, value, account, description);
+    if (success) {
+      setAmount('');
+      await loadPosition();
+      onComplete?.();
+    }
+  };
+
+  const status = rescue ? getHealthFactorStatus(rescue.healthFactor) : null;
+  const needsRescue = !!rescue && rescue.amount > 0n && status?.status !== 'safe';
+  const canAffordRescue = !!rescue && rescue.amount <= balance;
+  const isBusy = transactionStatus.isLoading;
+
+  return (
+    <div className="card animate-fade-in">
+      <h2 className="text-2xl font-semibold mb-6">Add Collateral</h2>
+
+      <div className="space-y-6">
+        {/* Rescue Position */}
+        {needsRescue && rescue && status && (
+          <div className={`rounded-lg p-4 border ${status.status === 'danger' ? 'bg-red-50 border-red-200' : 'bg-yellow-50 border-yellow-200'}`}>
+            <div className={`font-semibold mb-1 ${status.color}`}>
+              ⚠️ Health factor {formatBigInt(rescue.healthFactor, 4, 2)}: {status.message}
+            </div>
+            <p className="text-sm text-gray-700 mb-3">
+              Adding {formatBigInt(rescue.amount, token.decimals, 4)} {token.symbol} brings your health factor back
+              to {targetHealthFactor.toFixed(2)}.
+            </p>
+            <button
+              onClick={() => submit(rescue.amount, `Rescue position to health factor ${targetHealthFactor.toFixed(2)}`)}
+              disabled={disabled || isBusy || !canAffordRescue}
+              className="bg-red-600 text-white px-4 py-2 rounded text-sm hover:bg-red-700 disabled:opacity-50"
+            >
+              {canAffordRescue ? 'Rescue Position' : `Insufficient ${token.symbol} to rescue`}
+            </button>
+          </div>
+        )}
+
+        {/* Collateral Amount */}
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <label className="block text-sm font-medium text-gray-700">Amount ({token.symbol})</label>
+            <span className="text-xs text-gray-500">
+              Balance: {formatBigInt(balance, token.decimals, 4)}
+              {rescue && rescue.amount > 0n && (
+                <button
+                  onClick={() => setAmount(ethers.formatUnits(rescue.amount, token.decimals))}
+                  className="ml-2 text-blue-600 hover:text-blue-800 underline"
+                  disabled={disabled}
+                >
+                  Use rescue amount
+                </button>
+              )}
+            </span>
+          </div>
+          <input
+            type="number"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            placeholder="Enter RWA token amount to add"
+            className="input-field"
+            disabled={disabled}
+          />
+        </div>
+
+        {validationError && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm text-yellow-800">
+            ⚠️ {validationError}
+          </div>
+        )}
+
+        <TransactionPreview
+          simulation={transactionStatus.simulation ?? simulation}
+          collateralSymbol={token.symbol}
+          collateralDecimals={token.decimals}
+          isLoading={isSimulating && !isBusy}
+        />
+
+        {transactionStatus.stage === 'success' && (
+          <div className="p-3 rounded-lg text-sm bg-green-50 text-green-800 border border-green-200 flex justify-between">
+            <span>✅ Collateral added!</span>
+            <button onClick={resetTransactionStatus} className="underline">Dismiss</button>
+          </div>
+        )}
+        {transactionStatus.stage === 'error' && (
+          <div className="p-3 rounded-lg text-sm bg-red-50 text-red-800 border border-red-200">
+            ❌ {transactionStatus.error}
+          </div>
+        )}
+
+        <button
+          onClick={() => submit(amountWei, `Add ${amount} ${token.symbol} collateral`)}
+          disabled={disabled || isBusy || amountWei === 0n || !!validationError}
+          className="btn-primary w-full"
+        >
+          {isBusy ? (
+            <span className="flex items-center justify-center">
+              <div className="spinner mr-2"></div>
+              {STAGE_LABELS[transactionStatus.stage as keyof typeof STAGE_LABELS] || 'Processing...'}
+            </span>
+          ) : (
+            'Add Collateral'
+          )}
+        </button>
+      </div>
+    </div>
+  );
+}
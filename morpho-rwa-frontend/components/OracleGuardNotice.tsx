@@ -0,0 +1,37 @@
+import React from 'react';
+import { OracleGuardResult } from '@/utils/oracleGuard';
+
+interface OracleGuardNoticeProps {
+  guard: OracleGuardResult | null;
+  isUpdating?: boolean;
+  updateError?: string | null;
+  onUpdate?: () => void;
+}
+
+export default function OracleGuardNotice({ guard, isUpdating = false, updateError = null, onUpdate }: OracleGuardNoticeProps) {
+  if (!guard || guard.level === 'ok') return null;
+
+  const isBlocked = guard.level === 'block';
+
+  return (
+    <div className={`rounded-lg p-3 text-sm border space-y-1 ${
+      isBlocked ? 'bg-red-50 border-red-200 text-red-700' : 'bg-yellow-50 border-yellow-200 text-yellow-800'
+    }`}>
+      <div className="font-medium">{isBlocked ? 'Oracle price cannot be trusted' : 'Oracle price warning'}</div>
+      {guard.issues.map(issue => (
+        <div key={issue.code}>{issue.severity === 'block' ? '⛔' : '⚠️'} {issue.message}</div>
+      ))}
+      {isBlocked && (
+        <div className="text-xs">Borrowing and withdrawing collateral are disabled until the price recovers.</div>
+      )}
+      {guard.canUpdate && onUpdate && (
+        <div className="pt-2">
+          <button onClick={onUpdate} disabled={isUpdating} className="text-xs px-3 py-1 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50">
+            {isUpdating ? 'Updating price...' : 'Update price from Chainlink'}
+          </button>
+          {updateError && <div className="text-xs text-red-600 mt-1">{updateError}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
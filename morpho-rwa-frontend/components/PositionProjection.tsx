@@ -0,0 +1,123 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ethers } from 'ethers';
+import { useWeb3 } from '@/hooks/useWeb3';
+import { projectPosition, toAnnualRate, toPerSecondRate } from '@/utils/projection';
+import { HEALTH_FACTOR_THRESHOLDS, PositionAnalytics } from '@/types';
+
+interface PositionProjectionProps {
+  position: PositionAnalytics;
+  rwaToken: string;
+  // Demo positions have no market to read the borrow rate from
+  isLiveMode: boolean;
+}
+
+// Rate assumed in demo mode or when the IRM cannot be read
+const DEFAULT_BORROW_APR = 0.05;
+
+const CHART_WIDTH = 400;
+const CHART_HEIGHT = 160;
+const CHART_PADDING = 24;
+
+const THRESHOLD_LINES = [
+  { value: HEALTH_FACTOR_THRESHOLDS.WARNING, label: 'Warning', color: '#ca8a04' },
+  { value: HEALTH_FACTOR_THRESHOLDS.LIQUIDATION, label: 'Liquidation', color: '#dc2626' }
+];
+
+const formatDate = (timestamp: number | null): string =>
+  timestamp === null ? 'Not within a year' : new Date(timestamp * 1000).toLocaleDateString();
+
+export default function PositionProjection({ position, rwaToken, isLiveMode }: PositionProjectionProps) {
+  const [borrowRate, setBorrowRate] = useState<bigint | null>(null);
+  const [priceDrift, setPriceDrift] = useState<string>('-10');
+
+  const { fetchBorrowRate } = useWeb3();
+
+  useEffect(() => {
+    setBorrowRate(null);
+    if (!isLiveMode) return;
+
+    let cancelled = false;
+    fetchBorrowRate(rwaToken).then(rate => {
+      if (!cancelled) setBorrowRate(rate);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [isLiveMode, rwaToken]);
+
+  const rate = borrowRate ?? toPerSecondRate(DEFAULT_BORROW_APR);
+
+  const projection = useMemo(
+    () => projectPosition(position, { borrowRate: rate, priceDriftPerYear: (Number(priceDrift) || 0) / 100 }),
+    [position, rate, priceDrift]
+  );
+
+  if (position.borrowedAssets === 0n) return null;
+
+  // Health factor curve, scaled so the starting point and both thresholds fit
+  const healthFactors = projection.points.map(point =>
+    point.healthFactor === ethers.MaxUint256 ? 0 : Number(point.healthFactor) / 10000
+  );
+  const maxValue = Math.max(...healthFactors, HEALTH_FACTOR_THRESHOLDS.SAFE) * 1.1;
+  const x = (i: number) => CHART_PADDING + (i / (healthFactors.length - 1)) * (CHART_WIDTH - 2 * CHART_PADDING);
+  const y = (value: number) => CHART_HEIGHT - CHART_PADDING - (value / maxValue) * (CHART_HEIGHT - 2 * CHART_PADDING);
+  const path = healthFactors.map((value, i) => `${i === 0 ? 'M' : 'L'}${x(i).toFixed(1)},${y(value).toFixed(1)}`).join(' ');
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-2">
+        <div className="text-sm font-medium text-gray-700">Health Factor Projection (1 year)</div>
+        <label className="flex items-center space-x-2 text-xs text-gray-600">
+          <span>Price drift</span>
+          <input
+            type="number"
+            value={priceDrift}
+            onChange={(e) => setPriceDrift(e.target.value)}
+            className="w-16 border border-gray-300 rounded px-1 py-0.5"
+          />
+          <span>%/yr</span>
+        </label>
+      </div>
+
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-40">
+        {THRESHOLD_LINES.map(line => (
+          <g key={line.label}>
+            <line
+              x1={CHART_PADDING}
+              x2={CHART_WIDTH - CHART_PADDING}
+              y1={y(line.value)}
+              y2={y(line.value)}
+              stroke={line.color}
+              strokeDasharray="4 4"
+            />
+            <text x={CHART_WIDTH - CHART_PADDING} y={y(line.value) - 4} textAnchor="end" fontSize="10" fill={line.color}>
+              {line.label} {line.value.toFixed(2)}
+            </text>
+          </g>
+        ))}
+        <path d={path} fill="none" stroke="#2563eb" strokeWidth="2" />
+        <text x={CHART_PADDING} y={CHART_HEIGHT - 6} fontSize="10" fill="#6b7280">Today</text>
+        <text x={CHART_WIDTH - CHART_PADDING} y={CHART_HEIGHT - 6} textAnchor="end" fontSize="10" fill="#6b7280">
+          +365d
+        </text>
+      </svg>
+
+      <div className="grid grid-cols-3 gap-2 text-xs mt-2">
+        <div>
+          <div className="text-gray-500">Borrow APR</div>
+          <div className="font-semibold">
+            {(toAnnualRate(rate) * 100).toFixed(2)}%{borrowRate === null && ' (assumed)'}
+          </div>
+        </div>
+        <div>
+          <div className="text-gray-500">Warning</div>
+          <div className="font-semibold text-yellow-600">{formatDate(projection.warningAt)}</div>
+        </div>
+        <div>
+          <div className="text-gray-500">Liquidation</div>
+          <div className="font-semibold text-red-600">{formatDate(projection.liquidationAt)}</div>
+        </div>
+      </div>
+    </div>
+  );
+}
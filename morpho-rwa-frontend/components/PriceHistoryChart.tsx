@@ -0,0 +1,80 @@
+import React from 'react';
+import { MIN_CONFIDENCE, ORACLE_PRICE_DECIMALS } from '@/utils/oracle';
+import { OraclePricePoint } from '@/types';
+
+interface PriceHistoryChartProps {
+  history: OraclePricePoint[];
+  twapPrice: bigint | null;
+}
+
+const CHART_WIDTH = 400;
+const CHART_HEIGHT = 140;
+const CHART_PADDING = 20;
+
+const toPrice = (price: bigint): number => Number(price) / 10 ** ORACLE_PRICE_DECIMALS;
+
+export default function PriceHistoryChart({ history, twapPrice }: PriceHistoryChartProps) {
+  if (history.length < 2) {
+    return <div className="text-xs text-gray-500 text-center py-8">Not enough price history to chart</div>;
+  }
+
+  // Scale so every point and the TWAP line fit, with a little headroom
+  const prices = history.map(point => toPrice(point.price));
+  const values = twapPrice ? [...prices, toPrice(twapPrice)] : prices;
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min || max * 0.01 || 1;
+  const low = min - range * 0.1;
+  const high = max + range * 0.1;
+
+  const first = Number(history[0].timestamp);
+  const span = Number(history[history.length - 1].timestamp) - first || 1;
+  const x = (timestamp: bigint) =>
+    CHART_PADDING + ((Number(timestamp) - first) / span) * (CHART_WIDTH - 2 * CHART_PADDING);
+  const y = (value: number) =>
+    CHART_HEIGHT - CHART_PADDING - ((value - low) / (high - low)) * (CHART_HEIGHT - 2 * CHART_PADDING);
+  const path = history
+    .map((point, i) => `${i === 0 ? 'M' : 'L'}${x(point.timestamp).toFixed(1)},${y(prices[i]).toFixed(1)}`)
+    .join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-36">
+      {twapPrice && (
+        <g>
+          <line
+            x1={CHART_PADDING}
+            x2={CHART_WIDTH - CHART_PADDING}
+            y1={y(toPrice(twapPrice))}
+            y2={y(toPrice(twapPrice))}
+            stroke="#9333ea"
+            strokeDasharray="4 4"
+          />
+          <text x={CHART_WIDTH - CHART_PADDING} y={y(toPrice(twapPrice)) - 4} textAnchor="end" fontSize="10" fill="#9333ea">
+            TWAP
+          </text>
+        </g>
+      )}
+      <path d={path} fill="none" stroke="#2563eb" strokeWidth="2" />
+      {history.map((point, i) => (
+        <circle
+          key={i}
+          cx={x(point.timestamp)}
+          cy={y(prices[i])}
+          r={2.5}
+          fill={point.confidence < MIN_CONFIDENCE || !point.isValid ? '#dc2626' : '#2563eb'}
+        >
+          <title>
+            ${prices[i].toFixed(2)} at {new Date(Number(point.timestamp) * 1000).toLocaleString()}, confidence{' '}
+            {point.confidence.toString()}
+          </title>
+        </circle>
+      ))}
+      <text x={CHART_PADDING} y={CHART_HEIGHT - 4} fontSize="10" fill="#6b7280">
+        {new Date(first * 1000).toLocaleDateString()}
+      </text>
+      <text x={CHART_WIDTH - CHART_PADDING} y={CHART_HEIGHT - 4} textAnchor="end" fontSize="10" fill="#6b7280">
+        Latest
+      </text>
+    </svg>
+  );
+}
@@ -0,0 +1,258 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ethers } from 'ethers';
+import { formatBigInt, toBigInt } from '@/utils';
+import { RepayLimits, useWeb3 } from '@/hooks/useWeb3';
+import { useOracleGuard } from '@/hooks/useOracleGuard';
+import { SimulationResult } from '@/utils/simulation';
+import { REPAY_ACCRUAL_MARGIN_SECONDS } from '@/utils/repayment';
+import TransactionPreview from '@/components/TransactionPreview';
+import OracleGuardNotice from '@/components/OracleGuardNotice';
+
+interface RepayWithdrawPanelProps {
+  token: {
+    address: string;
+    symbol: string;
+    decimals: number;
+  };
+  account: string;
+  disabled?: boolean;
+  // Called after a successful transaction so the page can refresh the position
+  onComplete?: () => void;
+}
+
+const STAGE_LABELS = {
+  simulating: 'Simulating...',
+  signing: 'Awaiting Signature...',
+  approval: 'Approving USDC...',
+  transaction: 'Executing...',
+  confirming: 'Confirming...'
+} as const;
+
+export default function RepayWithdrawPanel({
+  token,
+  account,
+  disabled = false,
+  onComplete
+}: RepayWithdrawPanelProps) {
+  const [repayAmount, setRepayAmount] = useState<string>('');
+  const [withdrawAmount, setWithdrawAmount] = useState<string>('');
+  const [fullRepayment, setFullRepayment] = useState<boolean>(false);
+
+  const [limits, setLimits] = useState<RepayLimits | null>(null);
+  const [simulation, setSimulation] = useState<SimulationResult | null>(null);
+  const [isSimulating, setIsSimulating] = useState<boolean>(false);
+
+  const {
+    transactionStatus,
+    fetchRepayLimits,
+    previewRepayAndWithdraw,
+    executeRepayAndWithdraw,
+    resetTransactionStatus
+  } = useWeb3();
+
+  // Withdrawals are valued at the oracle price; repayments are always allowed
+  const oracleGuard = useOracleGuard(token.address, account);
+
+  const loadLimits = useCallback(async () => {
+    setLimits(await fetchRepayLimits(token.address, account));
+  }, [fetchRepayLimits, token.address, account]);
+
+  useEffect(() => {
+    setLimits(null);
+    setRepayAmount('');
+    setWithdrawAmount('');
+    setFullRepayment(false);
+    if (account) loadLimits();
+  }, [account, loadLimits]);
+
+  const repayWei = fullRepayment ? (limits?.debt ?? 0n) : toBigInt(repayAmount, 6);
+  const withdrawWei = toBigInt(withdrawAmount, token.decimals);
+
+  const validationError = (() => {
+    if (!limits) return null;
+    if (!fullRepayment && repayWei > limits.debt) return 'Repay amount exceeds your debt';
+    if (repayWei > limits.usdcBalance) return 'Insufficient USDC balance';
+    if (withdrawWei > limits.collateral) return 'Withdraw amount exceeds your collateral';
+    if (withdrawWei > 0n && oracleGuard.blockers.length > 0) return oracleGuard.blockers[0];
+    // Once the debt is cleared everything can be withdrawn
+    if (!fullRepayment && withdrawWei > limits.maxWithdraw) {
+      return `Withdrawal would leave the position undercollateralized (max ${formatBigInt(limits.maxWithdraw, token.decimals, 4)} ${token.symbol})`;
+    }
+    return null;
+  })();
+
+  const hasAction = repayWei > 0n || withdrawWei > 0n;
+
+  // Preview the resulting health factor once the inputs settle
+  useEffect(() => {
+    setSimulation(null);
+    if (!account || !hasAction || validationError) return;
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      setIsSimulating(true);
+      try {
+        const result = await previewRepayAndWithdraw(token.address, repayWei, withdrawWei, fullRepayment, account);
+        if (!cancelled) setSimulation(result);
+      } catch (error) {
+        console.error('Error simulating repayment:', error);
+      } finally {
+        if (!cancelled) setIsSimulating(false);
+      }
+    }, 500);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [account, token.address, repayWei, withdrawWei, fullRepayment, hasAction, validationError]);
+
+  const handleSubmit = async () => {
+    const success = await executeRepayAndWithdraw(token.address, repayWei, withdrawWei, fullRepayment);
+    if (success) {
+      setRepayAmount('');
+      setWithdrawAmount('');
+      setFullRepayment(false);
+      await loadLimits();
+      onComplete?.();
+    }
+  };
+
+  const isBusy = transactionStatus.isLoading;
+
+  return (
+    <div className="card animate-fade-in">
+      <h2 className="text-2xl font-semibold mb-6">Repay & Withdraw</h2>
+
+      <div className="space-y-6">
+        {/* Current Position */}
+        <div className="grid grid-cols-3 gap-4">
+          <div className="stat-card">
+            <div className="text-sm text-gray-600 mb-1">Debt</div>
+            <div className="text-lg font-bold">{limits ? formatBigInt(limits.debt, 6, 2) : '—'} USDC</div>
+          </div>
+          <div className="stat-card">
+            <div className="text-sm text-gray-600 mb-1">Collateral</div>
+            <div className="text-lg font-bold">
+              {limits ? formatBigInt(limits.collateral, token.decimals, 4) : '—'} {token.symbol}
+            </div>
+          </div>
+          <div className="stat-card">
+            <div className="text-sm text-gray-600 mb-1">USDC Balance</div>
+            <div className="text-lg font-bold">{limits ? formatBigInt(limits.usdcBalance, 6, 2) : '—'}</div>
+          </div>
+        </div>
+
+        {/* Repay Amount */}
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <label className="block text-sm font-medium text-gray-700">Repay Amount (USDC)</label>
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={fullRepayment}
+                onChange={(e) => setFullRepayment(e.target.checked)}
+                disabled={disabled || !limits || limits.debt === 0n}
+              />
+              <span>Repay all</span>
+            </label>
+          </div>
+          <input
+            type="number"
+            value={fullRepayment && limits ? ethers.formatUnits(limits.debt, 6) : repayAmount}
+            onChange={(e) => setRepayAmount(e.target.value)}
+            placeholder="Enter USDC amount to repay"
+            className="input-field"
+            disabled={disabled || fullRepayment}
+          />
+          {fullRepayment && (
+            <div className="text-xs text-gray-500 mt-1">
+              Repays your borrow shares in full on Morpho Blue, including interest accrued until the transaction is
+              mined. The USDC approval covers {formatBigInt(limits?.fullRepaymentAllowance ?? 0n, 6, 2)} USDC, the debt
+              with {Number(REPAY_ACCRUAL_MARGIN_SECONDS / 60n)} minutes of interest. Any withdrawal follows as a second
+              transaction through the hub.
+            </div>
+          )}
+        </div>
+
+        {/* Withdraw Amount */}
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <label className="block text-sm font-medium text-gray-700">Withdraw Amount ({token.symbol})</label>
+            {limits && (
+              <button
+                onClick={() => setWithdrawAmount(ethers.formatUnits(
+                  fullRepayment ? limits.collateral : limits.maxWithdraw,
+                  token.decimals
+                ))}
+                className="text-xs text-blue-600 hover:text-blue-800 underline"
+                disabled={disabled}
+              >
+                Max
+              </button>
+            )}
+          </div>
+          <input
+            type="number"
+            value={withdrawAmount}
+            onChange={(e) => setWithdrawAmount(e.target.value)}
+            placeholder="Enter collateral amount to withdraw"
+            className="input-field"
+            disabled={disabled}
+          />
+        </div>
+
+        {validationError && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm text-yellow-800">
+            ⚠️ {validationError}
+          </div>
+        )}
+
+        {withdrawWei > 0n && (
+          <OracleGuardNotice
+            guard={oracleGuard.guard}
+            isUpdating={oracleGuard.isUpdating}
+            updateError={oracleGuard.updateError}
+            onUpdate={oracleGuard.updatePrice}
+          />
+        )}
+
+        <TransactionPreview
+          simulation={transactionStatus.simulation ?? simulation}
+          collateralSymbol={token.symbol}
+          collateralDecimals={token.decimals}
+          isLoading={isSimulating && !isBusy}
+        />
+
+        {transactionStatus.stage === 'success' && (
+          <div className="p-3 rounded-lg text-sm bg-green-50 text-green-800 border border-green-200 flex justify-between">
+            <span>✅ Repayment successful!</span>
+            <button onClick={resetTransactionStatus} className="underline">Dismiss</button>
+          </div>
+        )}
+        {transactionStatus.stage === 'error' && (
+          <div className="p-3 rounded-lg text-sm bg-red-50 text-red-800 border border-red-200">
+            ❌ {transactionStatus.error}
+          </div>
+        )}
+
+        <button
+          onClick={handleSubmit}
+          disabled={disabled || isBusy || !limits || !hasAction || !!validationError}
+          className="btn-primary w-full"
+        >
+          {isBusy ? (
+            <span className="flex items-center justify-center">
+              <div className="spinner mr-2"></div>
+              {STAGE_LABELS[transactionStatus.stage as keyof typeof STAGE_LABELS] || 'Processing...'}
+            </span>
+          ) : fullRepayment ? (
+            'Repay All & Withdraw'
+          ) : (
+            'Repay & Withdraw'
+          )}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+import React, { useEffect, useState } from 'react';
+import { truncateAddress } from '@/utils';
+import {
+  buildSafeBatch,
+  clearQueuedBatch,
+  getQueuedBatch,
+  ImportedSafeBatch,
+  importSafeBatch,
+  OwnedContract,
+  removeQueuedTransaction,
+  SafeBatchEntry,
+  subscribeQueuedBatch
+} from '@/utils/safe';
+import { ContractRegistry } from '@/types';
+
+interface SafeBatchPanelProps {
+  registry: ContractRegistry;
+  // Safe the batch is meant for, recorded in the exported file; batches are queued per Safe
+  safeAddress: string;
+  // Deployment contracts the Safe owns, whose owner calls end up in this batch
+  contracts?: OwnedContract[];
+}
+
+const CONTRACT_LABELS: Record<OwnedContract, string> = {
+  hub: 'hub',
+  oracle: 'oracle',
+  rewards: 'rewards manager'
+};
+
+const downloadJSON = (fileName: string, data: unknown) => {
+  const url = URL.createObjectURL(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export default function SafeBatchPanel({ registry, safeAddress, contracts = [] }: SafeBatchPanelProps) {
+  const [entries, setEntries] = useState<SafeBatchEntry[]>([]);
+  const [name, setName] = useState<string>('Morpho RWA admin batch');
+  const [imported, setImported] = useState<ImportedSafeBatch | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = () => setEntries(getQueuedBatch(registry.chainId, safeAddress));
+    load();
+    return subscribeQueuedBatch(load);
+  }, [registry.chainId, safeAddress]);
+
+  const exportBatch = () => {
+    const batch = buildSafeBatch(registry.chainId, entries, { name, safeAddress });
+    downloadJSON(`${name.trim().replace(/\W+/g, '-').toLowerCase() || 'safe-batch'}.json`, batch);
+  };
+
+  const importFile = async (file: File | undefined) => {
+    setImported(null);
+    setImportError(null);
+    if (!file) return;
+    try {
+      setImported(importSafeBatch(await file.text(), registry));
+    } catch (error: any) {
+      setImportError(error.message);
+    }
+  };
+
+  return (
+    <div className="card animate-fade-in">
+      <h2 className="text-2xl font-semibold mb-2">Safe Batch</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Calls queued here are exported as a Safe Transaction Builder batch for{' '}
+        <code>{truncateAddress(safeAddress)}</code>
+        {contracts.length > 0 && `, owner of the ${contracts.map(contract => CONTRACT_LABELS[contract]).join(' and ')},`}
+        {' '}and run in order in one Safe transaction.
+      </p>
+
+      {entries.length === 0 ? (
+        <div className="text-sm text-gray-500 mb-4">No calls queued</div>
+      ) : (
+        <ol className="space-y-2 mb-4">
+          {entries.map((entry, i) => (
+            <li key={i} className="flex items-center justify-between border border-gray-200 rounded-lg p-3 text-sm">
+              <span>
+                <span className="text-gray-500 mr-2">{i + 1}.</span>
+                {entry.summary}
+                <span className="text-xs text-gray-500 ml-2 font-mono">{truncateAddress(entry.transaction.to)}</span>
+              </span>
+              <button
+                onClick={() => removeQueuedTransaction(registry.chainId, safeAddress, i)}
+                className="text-xs text-red-600 hover:text-red-800 underline"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div className="flex flex-wrap gap-3 items-center">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Batch name"
+          className="input-field flex-1 min-w-[16rem]"
+        />
+        <button onClick={exportBatch} disabled={entries.length === 0} className="btn-primary">
+          Download JSON
+        </button>
+        <button
+          onClick={() => clearQueuedBatch(registry.chainId, safeAddress)}
+          disabled={entries.length === 0}
+          className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+        >
+          Clear
+        </button>
+      </div>
+
+      {/* Review */}
+      <div className="border-t mt-6 pt-4">
+        <h3 className="font-semibold mb-2">Review a batch</h3>
+        <input
+          type="file"
+          accept="application/json,.json"
+          onChange={(e) => importFile(e.target.files?.[0])}
+          className="text-sm"
+        />
+        {importError && <div className="text-sm text-red-600 mt-2">❌ {importError}</div>}
+
+        {imported && (
+          <div className="mt-4">
+            <div className="text-sm mb-3">
+              <span className="font-medium">{imported.batch.meta.name}</span>
+              <span className="text-gray-500 ml-2">
+                {imported.transactions.length} call{imported.transactions.length === 1 ? '' : 's'}
+                {imported.batch.meta.createdFromSafeAddress && ` for ${truncateAddress(imported.batch.meta.createdFromSafeAddress)}`}
+              </span>
+            </div>
+            {!imported.chainMatches && (
+              <div className="text-sm text-red-600 mb-2">
+                ⚠️ Built for chain {imported.batch.chainId}, not {registry.network}; addresses were decoded against {registry.network}.
+              </div>
+            )}
+            {!imported.checksumValid && (
+              <div className="text-sm text-yellow-700 mb-2">
+                ⚠️ The checksum is missing or does not match: the file was edited after it was exported.
+              </div>
+            )}
+
+            <ol className="space-y-2">
+              {imported.transactions.map((tx, i) => (
+                <li
+                  key={i}
+                  className={`border rounded-lg p-3 text-sm ${tx.error || tx.valueWarning ? 'border-red-200 bg-red-50' : 'border-gray-200'}`}
+                >
+                  <div className="flex justify-between">
+                    <span className="font-medium">
+                      <span className="text-gray-500 mr-2">{i + 1}.</span>
+                      {tx.summary}
+                    </span>
+                    <span className="text-xs text-gray-500">
+                      {tx.contract ?? truncateAddress(tx.transaction.to)}
+                      {tx.method && `.${tx.method}`}
+                    </span>
+                  </div>
+                  {tx.error && <div className="text-xs text-red-700 mt-1">{tx.error}</div>}
+                  {tx.valueWarning && <div className="text-xs text-red-700 mt-1">⚠️ {tx.valueWarning}</div>}
+                  {tx.args.length > 0 && (
+                    <details className="mt-2">
+                      <summary className="text-xs text-blue-600 cursor-pointer">Arguments</summary>
+                      <table className="w-full text-xs mt-2">
+                        <tbody>
+                          {tx.args.map(arg => (
+                            <tr key={arg.name} className="border-b last:border-0 align-top">
+                              <td className="py-1 pr-4 font-medium">{arg.name}</td>
+                              <td className="py-1 pr-4 text-gray-500">{arg.type}</td>
+                              <td className="py-1 font-mono break-all">{arg.value}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </details>
+                  )}
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+import React, { useState } from 'react';
+import { ethers } from 'ethers';
+import { isValidNumber, toBigInt } from '@/utils';
+import {
+  ContractAdminAction,
+  ContractOwners,
+  getActionTarget,
+  queueSafeTransaction,
+  toSafeContractTransactions
+} from '@/utils/safe';
+import { ContractRegistry, DECIMAL_PRECISION, DeploymentToken } from '@/types';
+
+interface SafeContractActionsProps {
+  registry: ContractRegistry;
+  tokens: DeploymentToken[];
+  owners: ContractOwners;
+}
+
+// RWAOracle.MAX_PRICE_AGE and MAX_PRICE_DEVIATION
+const MAX_PRICE_AGE_HOURS = 24;
+const MAX_PRICE_DEVIATION_BPS = 5000;
+
+const PROGRAM_TYPES = ['supply', 'borrow', 'stake', 'rwa-hold'];
+
+const isOptionalAddress = (value: string) => value === '' || ethers.isAddress(value);
+
+// Why calls on a contract cannot be queued: only a Safe owner signs through a batch
+const getOwnerError = (owners: ContractOwners, contract: 'oracle' | 'rewards', label: string): string | null => {
+  const owner = owners[contract];
+  if (!owner) return `Could not read the ${label} owner`;
+  return owner.isContract ? null : `The ${label} owner is not a Safe; it signs its calls directly`;
+};
+
+/**
+ * Owner calls on the oracle and rewards manager, queued for the batch of the Safe that owns each
+ */
+export default function SafeContractActions({ registry, tokens, owners }: SafeContractActionsProps) {
+  const [oracleToken, setOracleToken] = useState<string>('');
+  const [chainlinkFeed, setChainlinkFeed] = useState<string>('');
+  const [backupFeed, setBackupFeed] = useState<string>('');
+  const [maxAgeHours, setMaxAgeHours] = useState<string>('1');
+  const [deviationBps, setDeviationBps] = useState<string>('500');
+  const [feedDecimals, setFeedDecimals] = useState<string>('8');
+  const [isActive, setIsActive] = useState<boolean>(true);
+  const [requiresManualUpdate, setRequiresManualUpdate] = useState<boolean>(false);
+
+  const [rewardToken, setRewardToken] = useState<string>(registry.usdc);
+  const [rewardAmount, setRewardAmount] = useState<string>('');
+  const [durationDays, setDurationDays] = useState<string>('30');
+  const [programType, setProgramType] = useState<string>(PROGRAM_TYPES[0]);
+
+  const queue = (action: ContractAdminAction) => {
+    const owner = owners[getActionTarget(action)];
+    if (!owner) return;
+    toSafeContractTransactions(registry, action)
+      .forEach(entry => queueSafeTransaction(registry.chainId, owner.address, entry));
+  };
+
+  const oracleOwnerError = getOwnerError(owners, 'oracle', 'oracle');
+  const rewardsOwnerError = getOwnerError(owners, 'rewards', 'rewards manager');
+
+  const maxAge = isValidNumber(maxAgeHours) ? toBigInt(maxAgeHours, 0) * 3600n : 0n;
+  const oracleError =
+    oracleOwnerError ? oracleOwnerError :
+    !ethers.isAddress(oracleToken) ? 'Select a token' :
+    !isOptionalAddress(chainlinkFeed) || !isOptionalAddress(backupFeed) ? 'Feeds must be addresses or blank' :
+    !chainlinkFeed && !backupFeed && !requiresManualUpdate ? 'Set a feed or enable manual updates' :
+    maxAge === 0n || maxAge > BigInt(MAX_PRICE_AGE_HOURS * 3600) ? `Max age must be 1-${MAX_PRICE_AGE_HOURS} hours` :
+    !/^\d+$/.test(deviationBps) || Number(deviationBps) > MAX_PRICE_DEVIATION_BPS ? `Deviation must be 0-${MAX_PRICE_DEVIATION_BPS} bps` :
+    !/^\d+$/.test(feedDecimals) ? 'Enter the feed decimals' :
+    null;
+
+  const rewardDecimals = rewardToken === registry.usdc
+    ? DECIMAL_PRECISION.USDC
+    : tokens.find(token => token.address === rewardToken)?.decimals ?? 18;
+  const totalRewards = isValidNumber(rewardAmount) ? toBigInt(rewardAmount, rewardDecimals) : 0n;
+  const duration = isValidNumber(durationDays) ? toBigInt(durationDays, 0) * 86400n : 0n;
+  const rewardsError =
+    !registry.rewards ? `No RewardsManager on ${registry.network}` :
+    rewardsOwnerError ? rewardsOwnerError :
+    totalRewards === 0n ? 'Enter the total rewards' :
+    duration === 0n ? 'Enter the duration in days' :
+    null;
+
+  return (
+    <div className="card animate-fade-in">
+      <h2 className="text-2xl font-semibold mb-2">Oracle & Rewards</h2>
+      <p className="text-sm text-gray-600 mb-4">Owner calls on the other contracts, added to the batch of the Safe that owns each.</p>
+
+      <h3 className="font-semibold mb-2">Oracle configuration</h3>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <select value={oracleToken} onChange={(e) => setOracleToken(e.target.value)} className="input-field">
+          <option value="">Token...</option>
+          {tokens.map(token => (
+            <option key={token.address} value={token.address}>{token.symbol}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={chainlinkFeed}
+          onChange={(e) => setChainlinkFeed(e.target.value)}
+          placeholder="Chainlink feed, blank for none"
+          className="input-field font-mono text-sm"
+        />
+        <input
+          type="text"
+          value={backupFeed}
+          onChange={(e) => setBackupFeed(e.target.value)}
+          placeholder="Backup feed, blank for none"
+          className="input-field font-mono text-sm"
+        />
+        <input
+          type="text"
+          value={maxAgeHours}
+          onChange={(e) => setMaxAgeHours(e.target.value)}
+          placeholder="Max price age in hours"
+          className="input-field"
+        />
+        <input
+          type="text"
+          value={deviationBps}
+          onChange={(e) => setDeviationBps(e.target.value)}
+          placeholder="Max deviation in bps"
+          className="input-field"
+        />
+        <input
+          type="text"
+          value={feedDecimals}
+          onChange={(e) => setFeedDecimals(e.target.value)}
+          placeholder="Feed decimals"
+          className="input-field"
+        />
+      </div>
+      <div className="flex flex-wrap gap-6 mt-3">
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input type="checkbox" checked={isActive} onChange={(e) => setIsActive(e.target.checked)} />
+          <span>Active</span>
+        </label>
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={requiresManualUpdate}
+            onChange={(e) => setRequiresManualUpdate(e.target.checked)}
+          />
+          <span>Manual updates</span>
+        </label>
+      </div>
+      {(oracleToken || oracleOwnerError) && oracleError && <div className="text-xs text-red-600 mt-2">{oracleError}</div>}
+      <div className="flex flex-wrap gap-3 mt-4">
+        <button
+          onClick={() => queue({
+            type: 'configureOracle',
+            token: oracleToken,
+            config: {
+              chainlinkFeed: chainlinkFeed ? ethers.getAddress(chainlinkFeed) : ethers.ZeroAddress,
+              backupFeed: backupFeed ? ethers.getAddress(backupFeed) : ethers.ZeroAddress,
+              maxPriceAge: maxAge,
+              priceDeviation: BigInt(deviationBps),
+              decimals: Number(feedDecimals),
+              isActive,
+              requiresManualUpdate
+            }
+          })}
+          disabled={!!oracleError}
+          className="btn-primary"
+        >
+          Add configureOracle
+        </button>
+        <button
+          onClick={() => queue({ type: 'setOraclePause', paused: true })}
+          disabled={!!oracleOwnerError}
+          className="px-4 py-2 rounded-lg border border-red-300 text-red-700 hover:bg-red-50"
+        >
+          Add oracle pause
+        </button>
+        <button
+          onClick={() => queue({ type: 'setOraclePause', paused: false })}
+          disabled={!!oracleOwnerError}
+          className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50"
+        >
+          Add oracle unpause
+        </button>
+      </div>
+
+      <h3 className="font-semibold mt-6 mb-2">Reward program</h3>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <select value={rewardToken} onChange={(e) => setRewardToken(e.target.value)} className="input-field">
+          <option value={registry.usdc}>USDC</option>
+          {tokens.map(token => (
+            <option key={token.address} value={token.address}>{token.symbol}</option>
+          ))}
+        </select>
+        <select value={programType} onChange={(e) => setProgramType(e.target.value)} className="input-field">
+          {PROGRAM_TYPES.map(type => (
+            <option key={type} value={type}>{type}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={rewardAmount}
+          onChange={(e) => setRewardAmount(e.target.value)}
+          placeholder="Total rewards"
+          className="input-field"
+        />
+        <input
+          type="text"
+          value={durationDays}
+          onChange={(e) => setDurationDays(e.target.value)}
+          placeholder="Duration in days"
+          className="input-field"
+        />
+      </div>
+      <p className="text-xs text-gray-500 mt-2">
+        The program pulls its rewards from the Safe, so an approval of the reward token is added before it.
+      </p>
+      {(rewardAmount || rewardsOwnerError) && rewardsError && <div className="text-xs text-red-600 mt-2">{rewardsError}</div>}
+      <button
+        onClick={() => queue({ type: 'createRewardProgram', rewardToken, totalRewards, duration, programType })}
+        disabled={!!rewardsError}
+        className="btn-primary mt-4"
+      >
+        Add reward program
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ethers } from 'ethers';
+import { formatBigInt, getHealthFactorStatus } from '@/utils';
+import { useWeb3 } from '@/hooks/useWeb3';
+import { getStressScenarios, runStressTest, StressResult } from '@/utils/stressTest';
+import { PositionAnalytics } from '@/types';
+
+interface StressTestPanelProps {
+  position: PositionAnalytics;
+  token: {
+    address: string;
+    symbol: string;
+    decimals: number;
+  };
+  account: string;
+  // Only live positions can be cross-checked against the monitor
+  isLiveMode: boolean;
+}
+
+type OnChainResult = Pick<StressResult, 'healthFactor' | 'wouldBeLiquidated'>;
+
+// Allowed gap between the local and on-chain health factor (0.01)
+const MATCH_TOLERANCE_BPS = 100n;
+
+const formatHealthFactor = (healthFactor: bigint): string =>
+  healthFactor === ethers.MaxUint256 ? '∞' : formatBigInt(healthFactor, 4, 2);
+
+export default function StressTestPanel({ position, token, account, isLiveMode }: StressTestPanelProps) {
+  const [priceDropBps, setPriceDropBps] = useState<bigint>(2000n);
+  const [deviationBps, setDeviationBps] = useState<bigint | null>(null);
+  const [onChain, setOnChain] = useState<OnChainResult | null>(null);
+  const [isChecking, setIsChecking] = useState<boolean>(false);
+
+  const { fetchPriceDeviationThreshold, fetchOnChainStressTest } = useWeb3();
+
+  useEffect(() => {
+    setDeviationBps(null);
+    fetchPriceDeviationThreshold(token.address)
+      .then(setDeviationBps)
+      .catch(error => console.error('Error reading oracle deviation threshold:', error));
+  }, [token.address]);
+
+  const result = useMemo(() => runStressTest(position, priceDropBps), [position, priceDropBps]);
+  const scenarios = deviationBps !== null ? getStressScenarios(deviationBps) : [];
+
+  // Cross-check against PositionMonitor once the slider settles
+  useEffect(() => {
+    setOnChain(null);
+    if (!isLiveMode || !account) return;
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      setIsChecking(true);
+      try {
+        const stress = await fetchOnChainStressTest(account, token.address, priceDropBps);
+        if (!cancelled) setOnChain(stress);
+      } finally {
+        if (!cancelled) setIsChecking(false);
+      }
+    }, 500);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [isLiveMode, account, token.address, priceDropBps]);
+
+  const status = getHealthFactorStatus(result.healthFactor);
+  const matches = onChain !== null && (
+    onChain.healthFactor === result.healthFactor ||
+    (onChain.healthFactor !== ethers.MaxUint256 && result.healthFactor !== ethers.MaxUint256 &&
+      (onChain.healthFactor > result.healthFactor
+        ? onChain.healthFactor - result.healthFactor
+        : result.healthFactor - onChain.healthFactor) <= MATCH_TOLERANCE_BPS)
+  );
+
+  return (
+    <div className="card animate-fade-in">
+      <h2 className="text-2xl font-semibold mb-6">Stress Test</h2>
+
+      <div className="space-y-6">
+        {/* Preset Scenarios */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          {scenarios.map(scenario => (
+            <button
+              key={scenario.id}
+              onClick={() => setPriceDropBps(scenario.priceDropBps)}
+              className={`text-left border rounded-lg p-3 text-sm ${
+                priceDropBps === scenario.priceDropBps ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+              }`}
+            >
+              <div className="font-medium text-gray-800">
+                {scenario.label} (-{formatBigInt(scenario.priceDropBps, 2, 0)}%)
+              </div>
+              <div className="text-xs text-gray-500 mt-1">{scenario.description}</div>
+            </button>
+          ))}
+        </div>
+
+        {/* Price Shock */}
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <label className="block text-sm font-medium text-gray-700">{token.symbol} price shock</label>
+            <span className="text-sm font-semibold">-{(Number(priceDropBps) / 100).toFixed(0)}%</span>
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={10000}
+            step={100}
+            value={Number(priceDropBps)}
+            onChange={(e) => setPriceDropBps(BigInt(e.target.value))}
+            className="w-full"
+          />
+        </div>
+
+        {/* Result */}
+        <div className="grid grid-cols-3 gap-4">
+          <div className="stat-card">
+            <div className="text-sm text-gray-600 mb-1">Health Factor</div>
+            <div className={`text-xl font-bold ${status.color}`}>{formatHealthFactor(result.healthFactor)}</div>
+          </div>
+          <div className="stat-card">
+            <div className="text-sm text-gray-600 mb-1">Status</div>
+            <div className={`text-xl font-bold ${result.wouldBeLiquidated ? 'text-red-600' : 'text-green-600'}`}>
+              {result.wouldBeLiquidated ? 'Liquidatable' : 'Solvent'}
+            </div>
+          </div>
+          <div className="stat-card">
+            <div className="text-sm text-gray-600 mb-1">Top-up Needed</div>
+            <div className="text-xl font-bold">
+              {result.topUpAmount === ethers.MaxUint256
+                ? '—'
+                : `${formatBigInt(result.topUpAmount, token.decimals, 4)} ${token.symbol}`}
+            </div>
+          </div>
+        </div>
+
+        {/* On-chain Cross-check */}
+        {isLiveMode && (
+          <div className="text-sm text-gray-600">
+            {isChecking ? (
+              <span className="flex items-center">
+                <div className="spinner mr-2"></div>
+                Checking against PositionMonitor...
+              </span>
+            ) : onChain === null ? (
+              'PositionMonitor is not deployed on this network; showing the local calculation only.'
+            ) : matches ? (
+              <span className="text-green-700">✅ Matches PositionMonitor.stressTest</span>
+            ) : (
+              <span className="text-yellow-700">
+                ⚠️ PositionMonitor.stressTest reports health factor {formatHealthFactor(onChain.healthFactor)}
+                {onChain.wouldBeLiquidated ? ' (liquidatable)' : ''}; its position data may be out of date.
+              </span>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import React from 'react';
+import { formatTimeAgo, getBlockExplorerUrl, truncateAddress } from '@/utils';
+import { PendingTransaction, TransactionState } from '@/types';
+
+interface TransactionHistoryDrawerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  transactions: PendingTransaction[];
+  onClear: () => void;
+}
+
+const STATUS_STYLES: Record<TransactionState, { label: string; className: string }> = {
+  pending: { label: 'Pending', className: 'bg-yellow-100 text-yellow-800' },
+  confirmed: { label: 'Confirmed', className: 'bg-green-100 text-green-800' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-800' },
+  dropped: { label: 'Dropped', className: 'bg-gray-100 text-gray-700' },
+  cancelled: { label: 'Cancelled', className: 'bg-gray-100 text-gray-700' },
+  replaced: { label: 'Replaced', className: 'bg-orange-100 text-orange-800' }
+};
+
+const TransactionLink = ({ chainId, hash }: { chainId: string; hash: string }) => {
+  const url = getBlockExplorerUrl(chainId, hash);
+  if (!url) return <code>{truncateAddress(hash)}</code>;
+
+  return (
+    <a href={url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-800 underline">
+      {truncateAddress(hash)}
+    </a>
+  );
+};
+
+export default function TransactionHistoryDrawer({
+  isOpen,
+  onClose,
+  transactions,
+  onClear
+}: TransactionHistoryDrawerProps) {
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-black/30" onClick={onClose}></div>
+
+      <div className="relative w-full max-w-md h-full bg-white shadow-xl flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b">
+          <h2 className="text-lg font-semibold text-gray-800">Transaction History</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-800 text-xl leading-none">
+            ×
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {transactions.length === 0 ? (
+            <div className="text-sm text-gray-500 text-center py-8">No transactions yet</div>
+          ) : (
+            transactions.map(tx => {
+              const style = STATUS_STYLES[tx.status];
+              return (
+                <div key={tx.hash} className="border border-gray-200 rounded-lg p-3 text-sm">
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="font-medium text-gray-800">{tx.description}</span>
+                    <span className={`text-xs px-2 py-0.5 rounded-full ${style.className}`}>
+                      {tx.status === 'pending' && <span className="inline-block w-2 h-2 bg-yellow-500 rounded-full animate-pulse mr-1"></span>}
+                      {style.label}
+                    </span>
+                  </div>
+                  <div className="flex justify-between text-xs text-gray-500">
+                    <TransactionLink chainId={tx.chainId} hash={tx.hash} />
+                    <span>Nonce {tx.nonce} · {formatTimeAgo(tx.timestamp)}</span>
+                  </div>
+                  {tx.replacedBy && (
+                    <div className="text-xs text-gray-600 mt-1">
+                      {tx.status === 'cancelled' ? 'Cancelled by ' : tx.status === 'replaced' ? 'Replaced by ' : 'Sped up as '}
+                      <TransactionLink chainId={tx.chainId} hash={tx.replacedBy} />
+                    </div>
+                  )}
+                  {tx.status === 'dropped' && (
+                    <div className="text-xs text-gray-600 mt-1">
+                      The network no longer knows this transaction; it was never mined.
+                    </div>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        {transactions.some(tx => tx.status !== 'pending') && (
+          <div className="p-4 border-t">
+            <button onClick={onClear} className="text-sm text-gray-600 hover:text-gray-900 underline">
+              Clear finished transactions
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
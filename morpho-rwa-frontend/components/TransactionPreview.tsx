@@ -0,0 +1,87 @@
+import React from 'react';
+import { ethers } from 'ethers';
+import { formatBigInt } from '@/utils';
+import { formatContractError } from '@/utils/errors';
+import { SimulationResult } from '@/utils/simulation';
+
+interface TransactionPreviewProps {
+  simulation: SimulationResult | null;
+  collateralSymbol: string;
+  collateralDecimals?: number;
+  isLoading?: boolean;
+}
+
+const formatHealthFactor = (healthFactor: bigint): string => {
+  return healthFactor === ethers.MaxUint256 ? '∞' : formatBigInt(healthFactor, 4, 2);
+};
+
+const formatSigned = (value: bigint, decimals: number): string => {
+  const sign = value < 0n ? '-' : '+';
+  return `${sign}${formatBigInt(value < 0n ? -value : value, decimals, 4)}`;
+};
+
+export default function TransactionPreview({
+  simulation,
+  collateralSymbol,
+  collateralDecimals = 18,
+  isLoading = false
+}: TransactionPreviewProps) {
+  if (isLoading) {
+    return (
+      <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 text-sm text-gray-600 flex items-center">
+        <div className="spinner mr-2"></div>
+        Simulating transaction...
+      </div>
+    );
+  }
+
+  if (!simulation) return null;
+
+  if (!simulation.success) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-800">
+        <div className="font-semibold mb-1">❌ This transaction would revert</div>
+        <div>{simulation.error ? formatContractError(simulation.error) : 'Transaction simulation failed'}</div>
+      </div>
+    );
+  }
+
+  const { preview } = simulation;
+  if (!preview) return null;
+
+  return (
+    <div className="bg-green-50 border border-green-200 rounded-lg p-4 text-sm text-green-800">
+      <div className="font-semibold mb-3">
+        {simulation.simulated ? '✅ Simulation passed' : '🔍 Passed up to the token transfer (full simulation runs after approval)'}
+      </div>
+      <div className="space-y-2">
+        <div className="flex justify-between">
+          <span>Collateral:</span>
+          <span className="font-semibold">
+            {formatBigInt(preview.collateralBefore, collateralDecimals, 4)} → {formatBigInt(preview.collateralAfter, collateralDecimals, 4)} {collateralSymbol}
+            <span className="text-xs ml-1">({formatSigned(preview.collateralDelta, collateralDecimals)})</span>
+          </span>
+        </div>
+        <div className="flex justify-between">
+          <span>Debt:</span>
+          <span className="font-semibold">
+            {formatBigInt(preview.debtBefore, 6, 2)} → {formatBigInt(preview.debtAfter, 6, 2)} USDC
+          </span>
+        </div>
+        <div className="flex justify-between">
+          <span>Health Factor:</span>
+          <span className="font-semibold">
+            {formatHealthFactor(preview.healthFactorBefore)} → {formatHealthFactor(preview.healthFactorAfter)}
+          </span>
+        </div>
+        {preview.isHealthyAfterBorrow !== null && (
+          <div className={`text-xs ${preview.isHealthyAfterBorrow ? 'text-green-700' : 'text-yellow-700'}`}>
+            {preview.isHealthyAfterBorrow
+              ? 'Hub health check passes for this borrow'
+              : '⚠️ Hub health check flags this borrow against your current collateral'}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
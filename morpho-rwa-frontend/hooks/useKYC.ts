@@ -0,0 +1,84 @@
+// hooks/useKYC.ts
+import { useState, useEffect, useCallback } from 'react';
+import { getMorphoReadContract, getReadProvider } from '@/utils/web3';
+import { isDeployedChain } from '@/utils/registry';
+import { AccountKYC, getAccountKYC, getDefaultKYCFlow, KYCStatus, KYCVerificationFlow } from '@/utils/kyc';
+
+export interface UseKYCOptions {
+  // External verification flow; defaults to getDefaultKYCFlow for the hub's provider
+  flow?: KYCVerificationFlow;
+}
+
+export const useKYC = (account: string, chainId: string, rwaTokens: string[], options: UseKYCOptions = {}) => {
+  const [kyc, setKYC] = useState<AccountKYC | null>(null);
+  const [defaultFlow, setDefaultFlow] = useState<KYCVerificationFlow | null>(null);
+  const [isVerifying, setIsVerifying] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const tokensKey = rwaTokens.join(',');
+
+  const refresh = useCallback(async () => {
+    if (!account || !isDeployedChain(chainId)) {
+      setKYC(null);
+      return;
+    }
+
+    try {
+      setKYC(await getAccountKYC(getMorphoReadContract(chainId), account, rwaTokens));
+    } catch (error) {
+      console.error('Error reading KYC status:', error);
+      setKYC(null);
+    }
+  }, [account, chainId, tokensKey]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Pick a verification flow for the hub's provider unless the caller supplied one
+  useEffect(() => {
+    setDefaultFlow(null);
+    if (options.flow || !kyc?.provider) return;
+
+    let cancelled = false;
+    getDefaultKYCFlow(getReadProvider(chainId), kyc.provider).then(flow => {
+      if (!cancelled) setDefaultFlow(flow);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [options.flow, kyc?.provider, chainId]);
+
+  const flow = options.flow ?? defaultFlow;
+
+  const startVerification = useCallback(async () => {
+    if (!flow || !kyc?.provider) return;
+
+    setIsVerifying(true);
+    setError(null);
+    try {
+      await flow.start(account, kyc.provider);
+      await refresh();
+    } catch (error: any) {
+      console.error('Verification flow failed:', error);
+      setError(error.message || 'Verification failed');
+    } finally {
+      setIsVerifying(false);
+    }
+  }, [flow, kyc?.provider, account, refresh]);
+
+  const getTokenKYC = useCallback(
+    (rwaToken: string): KYCStatus | null => kyc?.tokens[rwaToken] ?? null,
+    [kyc]
+  );
+
+  return {
+    kyc,
+    flow,
+    isVerifying,
+    error,
+    getTokenKYC,
+    startVerification,
+    refresh
+  };
+};
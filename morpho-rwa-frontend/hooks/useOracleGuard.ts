@@ -0,0 +1,47 @@
+// hooks/useOracleGuard.ts
+import { useState, useEffect, useCallback } from 'react';
+import { DEFAULT_SETTINGS } from '@/utils';
+import { useWeb3 } from '@/hooks/useWeb3';
+import { OracleGuardResult } from '@/utils/oracleGuard';
+
+export const useOracleGuard = (rwaToken: string, account: string) => {
+  const [guard, setGuard] = useState<OracleGuardResult | null>(null);
+
+  const { transactionStatus, fetchOracleGuard, executeOracleUpdate } = useWeb3();
+
+  const refresh = useCallback(async () => {
+    if (!rwaToken) {
+      setGuard(null);
+      return;
+    }
+    setGuard(await fetchOracleGuard(rwaToken, account || undefined));
+  }, [rwaToken, account, fetchOracleGuard]);
+
+  useEffect(() => {
+    setGuard(null);
+    refresh();
+    const interval = setInterval(refresh, DEFAULT_SETTINGS.REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [refresh]);
+
+  // Refresh the price from Chainlink, then re-check it
+  const updatePrice = useCallback(async (): Promise<boolean> => {
+    if (!rwaToken) return false;
+
+    const success = await executeOracleUpdate(rwaToken);
+    await refresh();
+    return success;
+  }, [rwaToken, executeOracleUpdate, refresh]);
+
+  // Messages that should stop the transaction
+  const blockers = guard?.issues.filter(issue => issue.severity === 'block').map(issue => issue.message) ?? [];
+
+  return {
+    guard,
+    blockers,
+    isUpdating: transactionStatus.isLoading,
+    updateError: transactionStatus.error,
+    updatePrice,
+    refresh
+  };
+};
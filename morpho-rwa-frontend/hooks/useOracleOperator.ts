@@ -0,0 +1,138 @@
+// hooks/useOracleOperator.ts
+import { useState, useEffect, useCallback } from 'react';
+import { ethers } from 'ethers';
+import { formatTransactionError, getReadProvider, getSigner } from '@/utils/web3';
+import { connectOracle, RWAOracle } from '@/utils/bindings';
+import { isDeployedChain, requireRegistry } from '@/utils/registry';
+import { trackTransaction } from '@/utils/transactionStore';
+import {
+  addUpdateLog,
+  batchUpdatePrices,
+  getOperatorRole,
+  getUpdateCandidates,
+  getUpdateLog,
+  OperatorRole,
+  OracleUpdateCandidate,
+  OracleUpdateRecord,
+  setAuthorizedUpdater,
+  updatePriceFromBackup,
+  updatePriceManually
+} from '@/utils/oracleOperator';
+
+type Operation = (
+  oracle: RWAOracle,
+  onSent: (tx: ethers.ContractTransactionResponse) => Promise<void>
+) => Promise<OracleUpdateRecord>;
+
+export const useOracleOperator = (account: string, chainId: string) => {
+  const [candidates, setCandidates] = useState<OracleUpdateCandidate[] | null>(null);
+  const [role, setRole] = useState<OperatorRole | null>(null);
+  const [log, setLog] = useState<OracleUpdateRecord[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setLog(getUpdateLog(chainId));
+    if (!isDeployedChain(chainId)) {
+      setCandidates(null);
+      setRole(null);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const oracle = connectOracle(requireRegistry(chainId).oracle, getReadProvider(chainId));
+      const [nextCandidates, nextRole] = await Promise.all([
+        getUpdateCandidates(oracle),
+        account ? getOperatorRole(oracle, account) : Promise.resolve(null)
+      ]);
+      setCandidates(nextCandidates);
+      setRole(nextRole);
+    } catch (error) {
+      console.error('Error reading oracle update status:', error);
+      setCandidates(null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [account, chainId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Send an operator transaction from the connected wallet, track it and log the result
+  const run = useCallback(async (description: string, operation: Operation): Promise<OracleUpdateRecord | null> => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const signer = await getSigner();
+      if (!signer) {
+        throw new Error('Could not connect to wallet');
+      }
+
+      const oracle = connectOracle(requireRegistry(chainId).oracle, signer);
+      const record = await operation(oracle, async (tx) => {
+        await trackTransaction(tx, 'update-price', description, getReadProvider(chainId)).catch(error => {
+          console.error('Error tracking transaction:', error);
+        });
+      });
+
+      addUpdateLog(record);
+      if (record.status === 'failed') {
+        setError('Transaction failed');
+      }
+      return record;
+    } catch (error: any) {
+      console.error('Oracle operator error:', error);
+      setError(formatTransactionError(error));
+      return null;
+    } finally {
+      setIsSubmitting(false);
+      await refresh();
+    }
+  }, [chainId, refresh]);
+
+  const batchUpdate = useCallback(
+    (tokens: string[]) => run(
+      `Batch update ${tokens.length} oracle price${tokens.length === 1 ? '' : 's'}`,
+      (oracle, onSent) => batchUpdatePrices(oracle, tokens, onSent)
+    ),
+    [run]
+  );
+
+  const updateFromBackup = useCallback(
+    (token: string) => run('Update oracle price from backup feed', (oracle, onSent) => updatePriceFromBackup(oracle, token, onSent)),
+    [run]
+  );
+
+  const updateManually = useCallback(
+    (token: string, price: bigint, confidence: bigint) => run(
+      'Submit manual oracle price',
+      (oracle, onSent) => updatePriceManually(oracle, token, price, confidence, onSent)
+    ),
+    [run]
+  );
+
+  const setUpdater = useCallback(
+    (updater: string, authorized: boolean) => run(
+      `${authorized ? 'Authorize' : 'Revoke'} oracle updater`,
+      (oracle, onSent) => setAuthorizedUpdater(oracle, updater, authorized, onSent)
+    ),
+    [run]
+  );
+
+  return {
+    candidates,
+    role,
+    log,
+    isLoading,
+    isSubmitting,
+    error,
+    refresh,
+    batchUpdate,
+    updateFromBackup,
+    updateManually,
+    setUpdater
+  };
+};
@@ -0,0 +1,76 @@
+// hooks/useTransactionHistory.ts
+import { useState, useEffect, useCallback } from 'react';
+import { getReadProvider } from '@/utils/web3';
+import { isSupportedNetwork } from '@/utils';
+import {
+  clearSettledTransactions,
+  getTransactions,
+  resolveTransaction,
+  subscribeTransactions,
+  updateTransaction
+} from '@/utils/transactionStore';
+import { PendingTransaction } from '@/types';
+
+// How often pending transactions are checked
+const POLL_INTERVAL = 5000;
+
+export const useTransactionHistory = (account: string, chainId: string) => {
+  const [transactions, setTransactions] = useState<PendingTransaction[]>([]);
+
+  // Load the stored history and follow changes from this tab and others
+  useEffect(() => {
+    const load = () => setTransactions(getTransactions(account, chainId));
+    load();
+
+    const unsubscribe = subscribeTransactions(load);
+    window.addEventListener('storage', load);
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener('storage', load);
+    };
+  }, [account, chainId]);
+
+  const pendingCount = transactions.filter(tx => tx.status === 'pending').length;
+
+  // Keep watching pending transactions, including ones sent before a reload
+  useEffect(() => {
+    if (!account || !pendingCount || !isSupportedNetwork(chainId)) return;
+
+    const provider = getReadProvider(chainId);
+    let cancelled = false;
+
+    const checkPending = async () => {
+      for (const tx of getTransactions(account, chainId)) {
+        if (cancelled || tx.status !== 'pending') continue;
+
+        try {
+          const update = await resolveTransaction(provider, tx);
+          if (update && !cancelled) {
+            updateTransaction(account, chainId, tx.hash, update);
+          }
+        } catch (error) {
+          console.error('Error checking transaction status:', error);
+        }
+      }
+    };
+
+    checkPending();
+    const interval = setInterval(checkPending, POLL_INTERVAL);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [account, chainId, pendingCount]);
+
+  const clearHistory = useCallback(() => {
+    clearSettledTransactions(account, chainId);
+  }, [account, chainId]);
+
+  return {
+    transactions,
+    pendingCount,
+    clearHistory
+  };
+};
@@ -3,6 +3,11 @@ import { useState, useCallback } from 'react';
 import { ethers } from 'ethers';
 import { 
   getMorphoContract, 
+  getMorphoReadContract,
+  getSigner,
+  getReadProvider,
+  getActiveChainId,
+  getActiveRegistry,
   getTokenContract, 
   checkTokenAllowance, 
   approveToken,
@@ -11,7 +16,58 @@ import {
   estimateGas,
   waitForTransaction 
 } from '@/utils/web3';
-import { CONTRACT_ADDRESSES, formatBigInt } from '@/utils';
+import { formatBigInt, truncateAddress } from '@/utils';
+import { formatContractError } from '@/utils/errors';
+import {
+  SimulationOptions,
+  SimulationResult,
+  simulateAddCollateral,
+  simulateBundledSupplyAndBorrow,
+  simulateLiquidation,
+  simulateFullRepayment,
+  simulateRepayAndWithdraw,
+  simulateSupplyAndBorrow
+} from '@/utils/simulation';
+import {
+  buildBundledSupplyAndBorrow,
+  getBundlerAddresses,
+  BundleAuthorization,
+  getBundleRequirements,
+  signMorphoAuthorization
+} from '@/utils/bundler';
+import { buildSupplyAndBorrowCall, CollateralPermit, signERC2612Permit } from '@/utils/permit';
+import { GAS_LIMITS, PendingTransaction, RWAConfig, RWAToken, TransactionType } from '@/types';
+import { DashboardSnapshot, fetchDashboardSnapshot } from '@/utils/multicall';
+import { settleTransaction, trackTransaction } from '@/utils/transactionStore';
+import { getMaxWithdrawable, getRepaymentQuote, RepaymentQuote } from '@/utils/repayment';
+import { getRescueQuote, RescueQuote } from '@/utils/collateral';
+import {
+  getLiquidationCandidates,
+  getLiquidationQuote,
+  LiquidationCandidate,
+  LiquidationQuote,
+  QuoteOptions
+} from '@/utils/liquidation';
+import { getBorrowRate } from '@/utils/projection';
+import { getOnChainStressTest, getPriceDeviationThreshold, StressResult } from '@/utils/stressTest';
+import { connectMorpho, connectOracle, connectPositionMonitor } from '@/utils/bindings';
+import { fetchRWATokens } from '@/utils/tokens';
+import { getSupplyBorrowContext, SupplyBorrowContext } from '@/utils/validation';
+import { getOracleDashboard, OracleDashboard } from '@/utils/oracle';
+import { getOracleGuard, OracleGuardResult, unreadableOracleGuard } from '@/utils/oracleGuard';
+import {
+  AdminSimulation,
+  describeAdminAction,
+  getAdminCall,
+  getHubAdminRole,
+  getHubAdminState,
+  getRWAConfig,
+  HubAdminAction,
+  HubAdminRole,
+  HubAdminState,
+  simulateAdminAction
+} from '@/utils/admin';
+import { ContractOwners, getContractOwners } from '@/utils/safe';
 
 export interface PositionData {
   collateralAmount: bigint;
@@ -25,19 +81,39 @@ export interface PositionData {
   availableToWithdraw: bigint;
 }
 
+export interface RepayLimits extends RepaymentQuote {
+  // Largest withdrawal the hub allows with the current debt
+  maxWithdraw: bigint;
+  usdcBalance: bigint;
+}
+
 export interface TransactionStatus {
   isLoading: boolean;
   error: string | null;
   txHash: string | null;
-  stage: 'idle' | 'approval' | 'transaction' | 'confirming' | 'success' | 'error';
+  stage: 'idle' | 'simulating' | 'signing' | 'approval' | 'transaction' | 'confirming' | 'success' | 'error';
+  simulation: SimulationResult | null;
 }
 
+// Persist a sent transaction so it is still watched after a reload; never blocks the flow
+const track = (
+  tx: ethers.TransactionResponse,
+  type: TransactionType,
+  description: string,
+  chainId: string
+): Promise<PendingTransaction | null> =>
+  trackTransaction(tx, type, description, getReadProvider(chainId)).catch(error => {
+    console.error('Error tracking transaction:', error);
+    return null;
+  });
+
 export const useWeb3 = () => {
   const [transactionStatus, setTransactionStatus] = useState<TransactionStatus>({
     isLoading: false,
     error: null,
     txHash: null,
-    stage: 'idle'
+    stage: 'idle',
+    simulation: null
   });
 
   // Reset transaction status
@@ -46,7 +122,8 @@ export const useWeb3 = () => {
       isLoading: false,
       error: null,
       txHash: null,
-      stage: 'idle'
+      stage: 'idle',
+      simulation: null
     });
   }, []);
 
@@ -56,10 +133,7 @@ export const useWeb3 = () => {
     rwaTokenAddress: string
   ): Promise<PositionData | null> => {
     try {
-      const contract = await getMorphoContract();
-      if (!contract) {
-        throw new Error('Could not connect to contract');
-      }
+      const contract = getMorphoReadContract(await getActiveChainId());
 
       console.log('Fetching position data for:', { userAddress, rwaTokenAddress });
 
@@ -82,14 +156,23 @@ export const useWeb3 = () => {
     }
   }, []);
 
+  // Fetch position, market, oracle and wallet data for many tokens in one multicall
+  const fetchSnapshot = useCallback(async (
+    userAddress: string,
+    rwaTokenAddresses: string[]
+  ): Promise<DashboardSnapshot | null> => {
+    try {
+      return await fetchDashboardSnapshot(getReadProvider(await getActiveChainId()), userAddress, rwaTokenAddresses);
+    } catch (error) {
+      console.error('Error fetching dashboard snapshot:', error);
+      return null;
+    }
+  }, []);
+
   // Get supported RWA tokens from contract
   const getSupportedTokens = useCallback(async (): Promise<string[]> => {
     try {
-      const contract = await getMorphoContract();
-      if (!contract) {
-        throw new Error('Could not connect to contract');
-      }
-
+      const contract = getMorphoReadContract(await getActiveChainId());
       const tokens = await contract.getSupportedRWATokens();
       return tokens;
     } catch (error) {
@@ -98,17 +181,113 @@ export const useWeb3 = () => {
     }
   }, []);
 
+  // Discover RWA tokens and their on-chain configs; cached per chain
+  const fetchTokens = useCallback(async (refresh: boolean = false): Promise<RWAToken[] | null> => {
+    try {
+      const chainId = await getActiveChainId();
+      return await fetchRWATokens(getReadProvider(chainId), chainId, refresh);
+    } catch (error) {
+      console.error('Error discovering RWA tokens:', error);
+      return null;
+    }
+  }, []);
+
+  // Read the balance, market limits, pause and KYC state the supply and borrow form is validated against
+  const fetchSupplyBorrowContext = useCallback(async (
+    userAddress: string,
+    rwaTokenAddress: string
+  ): Promise<SupplyBorrowContext | null> => {
+    try {
+      return await getSupplyBorrowContext(getMorphoReadContract(await getActiveChainId()), userAddress, rwaTokenAddress);
+    } catch (error) {
+      console.error('Error reading validation context:', error);
+      return null;
+    }
+  }, []);
+
+  // Read oracle prices, history and health for the dashboard
+  const fetchOracleDashboard = useCallback(async (rwaTokenAddresses: string[]): Promise<OracleDashboard | null> => {
+    try {
+      const registry = await getActiveRegistry();
+      const provider = getReadProvider(registry.chainId);
+      return await getOracleDashboard(provider, registry, getMorphoReadContract(registry.chainId), rwaTokenAddresses);
+    } catch (error) {
+      console.error('Error fetching oracle dashboard:', error);
+      return null;
+    }
+  }, []);
+
+  // Check the oracle price behind a token for staleness, confidence and TWAP deviation
+  const fetchOracleGuard = useCallback(async (
+    rwaTokenAddress: string,
+    userAddress?: string
+  ): Promise<OracleGuardResult> => {
+    try {
+      const registry = await getActiveRegistry();
+      const provider = getReadProvider(registry.chainId);
+      return await getOracleGuard(provider, registry, getMorphoReadContract(registry.chainId), rwaTokenAddress, userAddress);
+    } catch (error) {
+      // An oracle that cannot be read blocks rather than letting the transaction through
+      console.error('Error checking oracle price:', error);
+      return unreadableOracleGuard();
+    }
+  }, []);
+
+  // Hub owner, emergency admin, fee recipient, KYC default and pause state, with the user's role
+  const fetchHubAdmin = useCallback(async (
+    userAddress: string
+  ): Promise<{ state: HubAdminState; role: HubAdminRole } | null> => {
+    try {
+      const state = await getHubAdminState(getMorphoReadContract(await getActiveChainId()));
+      return { state, role: getHubAdminRole(state, userAddress) };
+    } catch (error) {
+      console.error('Error reading hub admin state:', error);
+      return null;
+    }
+  }, []);
+
+  // Owners of the hub, oracle and rewards manager, to key Safe batches by the contract they call
+  const fetchContractOwners = useCallback(async (): Promise<ContractOwners | null> => {
+    try {
+      const registry = await getActiveRegistry();
+      return await getContractOwners(registry, getReadProvider(registry.chainId));
+    } catch (error) {
+      console.error('Error reading contract owners:', error);
+      return null;
+    }
+  }, []);
+
+  // Current on-chain config of a token; isSupported is false for tokens without a market
+  const fetchRWAConfig = useCallback(async (rwaTokenAddress: string): Promise<RWAConfig | null> => {
+    try {
+      return await getRWAConfig(getMorphoReadContract(await getActiveChainId()), rwaTokenAddress);
+    } catch (error) {
+      console.error('Error reading RWA config:', error);
+      return null;
+    }
+  }, []);
+
+  // Simulate an admin call from the user, without a wallet
+  const previewAdminAction = useCallback(async (
+    action: HubAdminAction,
+    userAddress: string
+  ): Promise<AdminSimulation> =>
+    simulateAdminAction(getMorphoReadContract(await getActiveChainId()), action, userAddress), []);
+
   // Check if token approval is needed
   const checkApprovalNeeded = useCallback(async (
     tokenAddress: string,
     userAddress: string,
-    amount: bigint
+    amount: bigint,
+    spender?: string
   ): Promise<boolean> => {
     try {
+      const { chainId, hub } = await getActiveRegistry();
       const allowance = await checkTokenAllowance(
         tokenAddress,
         userAddress,
-        CONTRACT_ADDRESSES.RWA_HUB
+        spender ?? hub,
+        chainId
       );
       
       return allowance < amount;
@@ -124,13 +303,106 @@ export const useWeb3 = () => {
     userAddress: string
   ): Promise<bigint> => {
     try {
-      return await getTokenBalance(tokenAddress, userAddress);
+      return await getTokenBalance(tokenAddress, userAddress, await getActiveChainId());
     } catch (error) {
       console.error('Error getting token balance:', error);
       return 0n;
     }
   }, []);
 
+  // Stop a write before the wallet opens, keeping the simulation for display
+  const failSimulation = useCallback((simulation: SimulationResult): false => {
+    setTransactionStatus({
+      isLoading: false,
+      error: simulation.error ? formatContractError(simulation.error) : 'Transaction simulation failed',
+      txHash: null,
+      stage: 'error',
+      simulation
+    });
+    return false;
+  }, []);
+
+  const failOracleGuard = useCallback((guard: OracleGuardResult): false => {
+    const blocker = guard.issues.find(issue => issue.severity === 'block');
+    setTransactionStatus({
+      isLoading: false,
+      error: `Oracle price check failed: ${blocker?.message ?? 'the price cannot be trusted'}`,
+      txHash: null,
+      stage: 'error',
+      simulation: null
+    });
+    return false;
+  }, []);
+
+  // Simulate supply and borrow and preview the resulting position, without a wallet
+  const previewSupplyAndBorrow = useCallback(async (
+    rwaTokenAddress: string,
+    collateralAmount: bigint,
+    borrowAmount: bigint,
+    userAddress: string
+  ): Promise<SimulationResult> => {
+    const approvalNeeded = await checkApprovalNeeded(rwaTokenAddress, userAddress, collateralAmount);
+    const contract = getMorphoReadContract(await getActiveChainId());
+
+    return simulateSupplyAndBorrow(
+      contract,
+      userAddress,
+      rwaTokenAddress,
+      collateralAmount,
+      borrowAmount,
+      { pendingApproval: approvalNeeded }
+    );
+  }, [checkApprovalNeeded]);
+
+  // Simulate repay and withdraw and preview the resulting position, without a wallet
+  const previewRepayAndWithdraw = useCallback(async (
+    rwaTokenAddress: string,
+    repayAmount: bigint,
+    withdrawAmount: bigint,
+    fullRepayment: boolean,
+    userAddress: string
+  ): Promise<SimulationResult> => {
+    const { chainId, usdc } = await getActiveRegistry();
+    const contract = getMorphoReadContract(chainId);
+
+    // The repayment pulls USDC, so until its spender is approved only an allowance revert is expected.
+    // Morpho pulls a full repayment, the hub a partial one.
+    if (fullRepayment) {
+      const quote = await getRepaymentQuote(contract, userAddress, rwaTokenAddress);
+      const approvalNeeded = await checkApprovalNeeded(usdc, userAddress, quote.fullRepaymentAllowance, quote.morpho);
+      return simulateFullRepayment(contract, userAddress, rwaTokenAddress, quote, withdrawAmount, {
+        pendingApproval: approvalNeeded
+      });
+    }
+
+    const approvalNeeded = repayAmount > 0n && await checkApprovalNeeded(usdc, userAddress, repayAmount);
+    return simulateRepayAndWithdraw(contract, userAddress, rwaTokenAddress, repayAmount, withdrawAmount, {
+      pendingApproval: approvalNeeded
+    });
+  }, [checkApprovalNeeded]);
+
+  // Debt, collateral and withdrawal cap for the repay/withdraw panel
+  const fetchRepayLimits = useCallback(async (
+    rwaTokenAddress: string,
+    userAddress: string
+  ): Promise<RepayLimits | null> => {
+    try {
+      const { chainId, usdc } = await getActiveRegistry();
+      const contract = getMorphoReadContract(chainId);
+
+      const [quote, usdcBalance] = await Promise.all([
+        getRepaymentQuote(contract, userAddress, rwaTokenAddress),
+        getTokenBalance(usdc, userAddress, chainId)
+      ]);
+      const maxWithdraw = await getMaxWithdrawable(contract, userAddress, rwaTokenAddress, quote.collateral);
+
+      return { ...quote, maxWithdraw, usdcBalance };
+    } catch (error) {
+      console.error('Error fetching repay limits:', error);
+      return null;
+    }
+  }, []);
+
   // Execute supply collateral and borrow transaction
   const executeSupplyAndBorrow = useCallback(async (
     rwaTokenAddress: string,
@@ -143,29 +415,61 @@ export const useWeb3 = () => {
         isLoading: true,
         error: null,
         txHash: null,
-        stage: 'approval'
+        stage: 'simulating',
+        simulation: null
       });
 
-      // Step 1: Check if approval is needed
+      // Step 0: Refuse to borrow against a stale or unreliable oracle price
+      const oracleGuard = await fetchOracleGuard(rwaTokenAddress, userAddress);
+      if (oracleGuard.level === 'block') {
+        return failOracleGuard(oracleGuard);
+      }
+
+      const { chainId, hub } = await getActiveRegistry();
+      const contract = await getMorphoContract();
+      if (!contract) {
+        throw new Error('Could not connect to contract');
+      }
+
+      // Step 1: Simulate before anything reaches the wallet. The call pulls collateral,
+      // so until the hub is approved it may only revert on the allowance.
       const approvalNeeded = await checkApprovalNeeded(
         rwaTokenAddress,
         userAddress,
         collateralAmount
       );
 
+      let simulation = await simulateSupplyAndBorrow(
+        contract,
+        userAddress,
+        rwaTokenAddress,
+        collateralAmount,
+        borrowAmount,
+        { pendingApproval: approvalNeeded }
+      );
+
+      if (!simulation.success) {
+        return failSimulation(simulation);
+      }
+
+      setTransactionStatus(prev => ({ ...prev, simulation }));
+
+      // Step 2: Approve if needed
       if (approvalNeeded) {
         console.log('Token approval required...');
+        setTransactionStatus(prev => ({ ...prev, stage: 'approval' }));
         
         // Execute approval transaction
         const approveTx = await approveToken(
           rwaTokenAddress,
-          CONTRACT_ADDRESSES.RWA_HUB,
+          hub,
           collateralAmount
         );
 
         if (!approveTx) {
           throw new Error('Approval transaction failed');
         }
+        const approval = await track(approveTx, 'approve', 'Approve collateral for the hub', chainId);
 
         setTransactionStatus(prev => ({
           ...prev,
@@ -175,39 +479,55 @@ export const useWeb3 = () => {
 
         // Wait for approval confirmation
         console.log('Waiting for approval confirmation...');
-        await waitForTransaction(approveTx.hash, 1);
+        const approvalReceipt = await waitForTransaction(approveTx, 1);
+        if (approval) settleTransaction(approval, approvalReceipt);
+        if (approvalReceipt?.status !== 1) {
+          throw new Error('Approval transaction failed');
+        }
         console.log('Approval confirmed!');
+
+        // Now that the hub can pull collateral, run the full simulation
+        setTransactionStatus(prev => ({ ...prev, stage: 'simulating', txHash: null }));
+        simulation = await simulateSupplyAndBorrow(
+          contract,
+          userAddress,
+          rwaTokenAddress,
+          collateralAmount,
+          borrowAmount
+        );
+
+        if (!simulation.success) {
+          return failSimulation(simulation);
+        }
       }
 
-      // Step 2: Execute main transaction
+      // Step 3: Execute main transaction
       setTransactionStatus(prev => ({
         ...prev,
         stage: 'transaction',
-        txHash: null
+        txHash: null,
+        simulation
       }));
 
-      const contract = await getMorphoContract();
-      if (!contract) {
-        throw new Error('Could not connect to contract');
-      }
-
-      console.log('Executing supply and borrow transaction...');
+      const call = buildSupplyAndBorrowCall(contract, rwaTokenAddress, collateralAmount, borrowAmount);
+      console.log(`Executing ${call.method} transaction...`);
       
-      // Estimate gas
+      // Estimate gas; the simulation passed, so a failure here is an RPC issue
       const gasLimit = await estimateGas(
-        contract,
-        'supplyCollateralAndBorrow',
-        [rwaTokenAddress, collateralAmount.toString(), borrowAmount.toString()]
+        call,
+        [],
+        BigInt(GAS_LIMITS.SUPPLY_COLLATERAL_AND_BORROW)
       );
 
       // Execute transaction
-      const tx = await contract.supplyCollateralAndBorrow(
-        rwaTokenAddress,
-        collateralAmount.toString(),
-        borrowAmount.toString(),
-        {
-          gasLimit: gasLimit.toString()
-        }
+      const tx = await call.send({
+        gasLimit: gasLimit.toString()
+      });
+      const tracked = await track(
+        tx,
+        'supply',
+        `Supply collateral and borrow ${formatBigInt(borrowAmount, 6, 2)} USDC`,
+        chainId
       );
 
       setTransactionStatus(prev => ({
@@ -219,7 +539,8 @@ export const useWeb3 = () => {
       console.log('Transaction submitted:', tx.hash);
 
       // Wait for confirmation
-      const receipt = await waitForTransaction(tx.hash, 1);
+      const receipt = await waitForTransaction(tx, 1);
+      if (tracked) settleTransaction(tracked, receipt);
       
       if (receipt && receipt.status === 1) {
         console.log('Transaction confirmed!');
@@ -237,55 +558,148 @@ export const useWeb3 = () => {
       console.error('Transaction error:', error);
       const errorMessage = formatTransactionError(error);
       
-      setTransactionStatus({
+      setTransactionStatus(prev => ({
         isLoading: false,
         error: errorMessage,
         txHash: null,
-        stage: 'error'
-      });
+        stage: 'error',
+        simulation: prev.simulation
+      }));
       
       return false;
     }
-  }, [checkApprovalNeeded]);
+  }, [checkApprovalNeeded, failSimulation, fetchOracleGuard, failOracleGuard]);
 
-  // Execute repay and withdraw transaction
-  const executeRepayAndWithdraw = useCallback(async (
+  // Execute supply collateral and borrow directly on Morpho Blue as one Bundler3 multicall
+  const executeBundledSupplyAndBorrow = useCallback(async (
     rwaTokenAddress: string,
-    repayAmount: bigint,
-    withdrawAmount: bigint,
-    fullRepayment: boolean = false
+    collateralAmount: bigint,
+    borrowAmount: bigint,
+    userAddress: string
   ): Promise<boolean> => {
     try {
       setTransactionStatus({
         isLoading: true,
         error: null,
         txHash: null,
-        stage: 'transaction'
+        stage: 'simulating',
+        simulation: null
       });
 
+      const oracleGuard = await fetchOracleGuard(rwaTokenAddress, userAddress);
+      if (oracleGuard.level === 'block') {
+        return failOracleGuard(oracleGuard);
+      }
+
+      const registry = await getActiveRegistry();
+      const addresses = getBundlerAddresses(registry);
+      if (!addresses) {
+        throw new Error(`No Morpho bundler configured for ${registry.network}`);
+      }
+
       const contract = await getMorphoContract();
       if (!contract) {
         throw new Error('Could not connect to contract');
       }
+      const signer = contract.runner as ethers.Signer;
 
-      console.log('Executing repay and withdraw transaction...');
-      
-      // Estimate gas
-      const gasLimit = await estimateGas(
+      // Step 1: Collect what the adapter needs: a collateral allowance and a Morpho
+      // authorization to borrow for the user. Signatures are bundled with the calls.
+      const requirements = await getBundleRequirements(
+        signer,
+        addresses,
+        rwaTokenAddress,
+        userAddress,
+        collateralAmount
+      );
+
+      if (requirements.approval === 'approve') {
+        console.log('Adapter approval required...');
+        setTransactionStatus(prev => ({ ...prev, stage: 'approval' }));
+
+        const approveTx = await approveToken(rwaTokenAddress, addresses.adapter, collateralAmount);
+        if (!approveTx) {
+          throw new Error('Approval transaction failed');
+        }
+        const approval = await track(approveTx, 'approve', 'Approve collateral for the bundler', registry.chainId);
+
+        setTransactionStatus(prev => ({
+          ...prev,
+          txHash: approveTx.hash,
+          stage: 'confirming'
+        }));
+
+        const approvalReceipt = await waitForTransaction(approveTx, 1);
+        if (approval) settleTransaction(approval, approvalReceipt);
+        if (approvalReceipt?.status !== 1) {
+          throw new Error('Approval transaction failed');
+        }
+        console.log('Approval confirmed!');
+      }
+
+      let permit: CollateralPermit | null = null;
+      let authorization: BundleAuthorization | null = null;
+
+      if (requirements.approval === 'permit' || requirements.authorization) {
+        setTransactionStatus(prev => ({ ...prev, stage: 'signing', txHash: null }));
+
+        if (requirements.approval === 'permit') {
+          permit = await signERC2612Permit(signer, rwaTokenAddress, addresses.adapter, collateralAmount);
+        }
+        if (requirements.authorization) {
+          authorization = await signMorphoAuthorization(signer, addresses.morpho, addresses.adapter);
+        }
+      }
+
+      // Step 2: Simulate the whole bundle
+      setTransactionStatus(prev => ({ ...prev, stage: 'simulating', txHash: null }));
+
+      const bundle = await buildBundledSupplyAndBorrow(
         contract,
-        'repayAndWithdraw',
-        [rwaTokenAddress, repayAmount.toString(), withdrawAmount.toString(), fullRepayment]
+        addresses,
+        userAddress,
+        rwaTokenAddress,
+        collateralAmount,
+        borrowAmount,
+        { permit, authorization }
       );
 
-      // Execute transaction
-      const tx = await contract.repayAndWithdraw(
+      const simulation = await simulateBundledSupplyAndBorrow(
+        contract,
+        userAddress,
         rwaTokenAddress,
-        repayAmount.toString(),
-        withdrawAmount.toString(),
-        fullRepayment,
-        {
-          gasLimit: gasLimit.toString()
-        }
+        collateralAmount,
+        borrowAmount,
+        bundle
+      );
+
+      if (!simulation.success) {
+        return failSimulation(simulation);
+      }
+
+      // Step 3: Execute the bundle
+      setTransactionStatus(prev => ({
+        ...prev,
+        stage: 'transaction',
+        simulation
+      }));
+
+      console.log('Executing bundled supply and borrow transaction...');
+
+      const gasLimit = await estimateGas(
+        bundle,
+        [],
+        BigInt(GAS_LIMITS.BUNDLED_SUPPLY_AND_BORROW)
+      );
+
+      const tx = await bundle.send({
+        gasLimit: gasLimit.toString()
+      });
+      const tracked = await track(
+        tx,
+        'supply',
+        `Supply collateral and borrow ${formatBigInt(borrowAmount, 6, 2)} USDC on Morpho Blue`,
+        registry.chainId
       );
 
       setTransactionStatus(prev => ({
@@ -296,9 +710,9 @@ export const useWeb3 = () => {
 
       console.log('Transaction submitted:', tx.hash);
 
-      // Wait for confirmation
-      const receipt = await waitForTransaction(tx.hash, 1);
-      
+      const receipt = await waitForTransaction(tx, 1);
+      if (tracked) settleTransaction(tracked, receipt);
+
       if (receipt && receipt.status === 1) {
         console.log('Transaction confirmed!');
         setTransactionStatus(prev => ({
@@ -314,14 +728,718 @@ export const useWeb3 = () => {
     } catch (error: any) {
       console.error('Transaction error:', error);
       const errorMessage = formatTransactionError(error);
-      
-      setTransactionStatus({
+
+      setTransactionStatus(prev => ({
         isLoading: false,
         error: errorMessage,
         txHash: null,
-        stage: 'error'
-      });
-      
+        stage: 'error',
+        simulation: prev.simulation
+      }));
+
+      return false;
+    }
+  }, [failSimulation, fetchOracleGuard, failOracleGuard]);
+
+  // Collateral needed to bring a position back to a target health factor (basis points)
+  const fetchRescueQuote = useCallback(async (
+    rwaTokenAddress: string,
+    userAddress: string,
+    targetHealthFactor?: bigint
+  ): Promise<RescueQuote | null> => {
+    try {
+      const contract = getMorphoReadContract(await getActiveChainId());
+      return await getRescueQuote(contract, userAddress, rwaTokenAddress, targetHealthFactor);
+    } catch (error) {
+      console.error('Error computing rescue amount:', error);
+      return null;
+    }
+  }, []);
+
+  // Per-second borrow rate (WAD) of the token's Morpho market
+  const fetchBorrowRate = useCallback(async (rwaTokenAddress: string): Promise<bigint | null> => {
+    try {
+      const contract = getMorphoReadContract(await getActiveChainId());
+      return await getBorrowRate(contract, rwaTokenAddress);
+    } catch (error) {
+      console.error('Error fetching borrow rate:', error);
+      return null;
+    }
+  }, []);
+
+  // Price move (basis points) at which the oracle raises PriceDeviationAlert for a token
+  const fetchPriceDeviationThreshold = useCallback(async (rwaTokenAddress: string): Promise<bigint> => {
+    const { chainId, oracle } = await getActiveRegistry();
+    return getPriceDeviationThreshold(connectOracle(oracle, getReadProvider(chainId)), rwaTokenAddress);
+  }, []);
+
+  // PositionMonitor.stressTest for a price drop; null when no monitor is deployed
+  const fetchOnChainStressTest = useCallback(async (
+    userAddress: string,
+    rwaTokenAddress: string,
+    priceDropBps: bigint
+  ): Promise<Pick<StressResult, 'healthFactor' | 'wouldBeLiquidated'> | null> => {
+    try {
+      const { chainId, monitor } = await getActiveRegistry();
+      if (!monitor) return null;
+
+      const contract = connectPositionMonitor(monitor, getReadProvider(chainId));
+      return await getOnChainStressTest(contract, userAddress, rwaTokenAddress, priceDropBps);
+    } catch (error) {
+      console.error('Error running on-chain stress test:', error);
+      return null;
+    }
+  }, []);
+
+  // Simulate adding collateral and preview the resulting position, without a wallet
+  const previewAddCollateral = useCallback(async (
+    rwaTokenAddress: string,
+    amount: bigint,
+    userAddress: string
+  ): Promise<SimulationResult> => {
+    const approvalNeeded = await checkApprovalNeeded(rwaTokenAddress, userAddress, amount);
+    const contract = getMorphoReadContract(await getActiveChainId());
+
+    return simulateAddCollateral(contract, userAddress, rwaTokenAddress, amount, { pendingApproval: approvalNeeded });
+  }, [checkApprovalNeeded]);
+
+  // Execute add collateral transaction
+  const executeAddCollateral = useCallback(async (
+    rwaTokenAddress: string,
+    amount: bigint,
+    userAddress: string,
+    description: string = 'Add collateral'
+  ): Promise<boolean> => {
+    try {
+      setTransactionStatus({
+        isLoading: true,
+        error: null,
+        txHash: null,
+        stage: 'simulating',
+        simulation: null
+      });
+
+      const { chainId, hub } = await getActiveRegistry();
+      const contract = await getMorphoContract();
+      if (!contract) {
+        throw new Error('Could not connect to contract');
+      }
+
+      // Step 1: Simulate; until the hub is approved it may only revert on the allowance
+      const approvalNeeded = await checkApprovalNeeded(rwaTokenAddress, userAddress, amount);
+
+      let simulation = await simulateAddCollateral(
+        contract,
+        userAddress,
+        rwaTokenAddress,
+        amount,
+        { pendingApproval: approvalNeeded }
+      );
+
+      if (!simulation.success) {
+        return failSimulation(simulation);
+      }
+
+      setTransactionStatus(prev => ({ ...prev, simulation }));
+
+      // Step 2: Approve if needed
+      if (approvalNeeded) {
+        console.log('Token approval required...');
+        setTransactionStatus(prev => ({ ...prev, stage: 'approval' }));
+
+        const approveTx = await approveToken(rwaTokenAddress, hub, amount);
+        if (!approveTx) {
+          throw new Error('Approval transaction failed');
+        }
+        const approval = await track(approveTx, 'approve', 'Approve collateral for the hub', chainId);
+
+        setTransactionStatus(prev => ({
+          ...prev,
+          txHash: approveTx.hash,
+          stage: 'confirming'
+        }));
+
+        const approvalReceipt = await waitForTransaction(approveTx, 1);
+        if (approval) settleTransaction(approval, approvalReceipt);
+        if (approvalReceipt?.status !== 1) {
+          throw new Error('Approval transaction failed');
+        }
+        console.log('Approval confirmed!');
+
+        setTransactionStatus(prev => ({ ...prev, stage: 'simulating', txHash: null }));
+        simulation = await simulateAddCollateral(contract, userAddress, rwaTokenAddress, amount);
+
+        if (!simulation.success) {
+          return failSimulation(simulation);
+        }
+      }
+
+      // Step 3: Execute main transaction
+      setTransactionStatus(prev => ({
+        ...prev,
+        stage: 'transaction',
+        txHash: null,
+        simulation
+      }));
+
+      console.log('Executing add collateral transaction...');
+
+      // Estimate gas; the simulation passed, so a failure here is an RPC issue
+      const gasLimit = await estimateGas(
+        contract.addCollateral,
+        [rwaTokenAddress, amount],
+        BigInt(GAS_LIMITS.ADD_COLLATERAL)
+      );
+
+      // Execute transaction
+      const tx = await contract.addCollateral(
+        rwaTokenAddress,
+        amount.toString(),
+        {
+          gasLimit: gasLimit.toString()
+        }
+      );
+      const tracked = await track(tx, 'supply', description, chainId);
+
+      setTransactionStatus(prev => ({
+        ...prev,
+        txHash: tx.hash,
+        stage: 'confirming'
+      }));
+
+      console.log('Transaction submitted:', tx.hash);
+
+      // Wait for confirmation
+      const receipt = await waitForTransaction(tx, 1);
+      if (tracked) settleTransaction(tracked, receipt);
+
+      if (receipt && receipt.status === 1) {
+        console.log('Transaction confirmed!');
+        setTransactionStatus(prev => ({
+          ...prev,
+          stage: 'success',
+          isLoading: false
+        }));
+        return true;
+      } else {
+        throw new Error('Transaction failed');
+      }
+
+    } catch (error: any) {
+      console.error('Transaction error:', error);
+      const errorMessage = formatTransactionError(error);
+
+      setTransactionStatus(prev => ({
+        isLoading: false,
+        error: errorMessage,
+        txHash: null,
+        stage: 'error',
+        simulation: prev.simulation
+      }));
+
+      return false;
+    }
+  }, [checkApprovalNeeded, failSimulation]);
+
+  // Execute repay and withdraw transaction
+  const executeRepayAndWithdraw = useCallback(async (
+    rwaTokenAddress: string,
+    repayAmount: bigint,
+    withdrawAmount: bigint,
+    fullRepayment: boolean = false
+  ): Promise<boolean> => {
+    try {
+      setTransactionStatus({
+        isLoading: true,
+        error: null,
+        txHash: null,
+        stage: 'simulating',
+        simulation: null
+      });
+
+      const { chainId, hub, usdc } = await getActiveRegistry();
+      const contract = await getMorphoContract();
+      if (!contract) {
+        throw new Error('Could not connect to contract');
+      }
+
+      // Step 1: Simulate. The repayment is pulled in USDC, so until its spender is
+      // approved the call may only revert on the allowance.
+      const userAddress = await (contract.runner as ethers.Signer).getAddress();
+
+      // Repaying is always allowed; withdrawing collateral needs a trustworthy price
+      if (withdrawAmount > 0n) {
+        const oracleGuard = await fetchOracleGuard(rwaTokenAddress, userAddress);
+        if (oracleGuard.level === 'block') {
+          return failOracleGuard(oracleGuard);
+        }
+      }
+
+      // A full repayment burns every borrow share on Morpho Blue, which pulls the USDC
+      // itself; the hub's own full-repayment paths only pull a fixed buffer
+      const quote = fullRepayment ? await getRepaymentQuote(contract, userAddress, rwaTokenAddress) : null;
+      const usdcRequired = quote ? quote.fullRepaymentAllowance : repayAmount;
+      const spender = quote ? quote.morpho : hub;
+      const approvalNeeded = usdcRequired > 0n && await checkApprovalNeeded(usdc, userAddress, usdcRequired, spender);
+
+      const simulate = (options: SimulationOptions = {}) => quote
+        ? simulateFullRepayment(contract, userAddress, rwaTokenAddress, quote, withdrawAmount, options)
+        : simulateRepayAndWithdraw(contract, userAddress, rwaTokenAddress, repayAmount, withdrawAmount, options);
+
+      let simulation = await simulate({ pendingApproval: approvalNeeded });
+
+      if (!simulation.success) {
+        return failSimulation(simulation);
+      }
+
+      setTransactionStatus(prev => ({ ...prev, simulation }));
+
+      // Step 2: Approve USDC if needed
+      if (approvalNeeded) {
+        console.log('USDC approval required...');
+        setTransactionStatus(prev => ({ ...prev, stage: 'approval' }));
+
+        const approveTx = await approveToken(usdc, spender, usdcRequired);
+        if (!approveTx) {
+          throw new Error('Approval transaction failed');
+        }
+        const approval = await track(
+          approveTx,
+          'approve',
+          quote ? 'Approve USDC for repayment on Morpho Blue' : 'Approve USDC for repayment',
+          chainId
+        );
+
+        setTransactionStatus(prev => ({
+          ...prev,
+          txHash: approveTx.hash,
+          stage: 'confirming'
+        }));
+
+        const approvalReceipt = await waitForTransaction(approveTx, 1);
+        if (approval) settleTransaction(approval, approvalReceipt);
+        if (approvalReceipt?.status !== 1) {
+          throw new Error('Approval transaction failed');
+        }
+        console.log('Approval confirmed!');
+
+        setTransactionStatus(prev => ({ ...prev, stage: 'simulating', txHash: null }));
+        simulation = await simulate();
+
+        if (!simulation.success) {
+          return failSimulation(simulation);
+        }
+      }
+
+      // Step 3: Execute main transaction
+      setTransactionStatus(prev => ({
+        ...prev,
+        stage: 'transaction',
+        simulation
+      }));
+
+      if (quote) {
+        console.log('Executing full repayment on Morpho Blue...');
+
+        // Repay by shares so no dust is left; Morpho pulls what they are worth when mined
+        const morpho = connectMorpho(quote.morpho, contract.runner!);
+        const repayArgs = [quote.marketParams, 0n, quote.borrowShares, userAddress, '0x'] as const;
+        const repayGasLimit = await estimateGas(morpho.repay, [...repayArgs], BigInt(GAS_LIMITS.REPAY_AND_WITHDRAW));
+
+        const repayTx = await morpho.repay(...repayArgs, { gasLimit: repayGasLimit.toString() });
+        const repaid = await track(repayTx, 'repay', 'Repay full debt on Morpho Blue', chainId);
+
+        setTransactionStatus(prev => ({
+          ...prev,
+          txHash: repayTx.hash,
+          stage: 'confirming'
+        }));
+
+        const repayReceipt = await waitForTransaction(repayTx, 1);
+        if (repaid) settleTransaction(repaid, repayReceipt);
+        if (repayReceipt?.status !== 1) {
+          throw new Error('Repayment transaction failed');
+        }
+        console.log('Repayment confirmed!');
+
+        if (withdrawAmount === 0n) {
+          setTransactionStatus(prev => ({
+            ...prev,
+            stage: 'success',
+            isLoading: false
+          }));
+          return true;
+        }
+
+        // The collateral is released by the hub, now that the position has no debt
+        setTransactionStatus(prev => ({ ...prev, stage: 'simulating', txHash: null }));
+        simulation = await simulateRepayAndWithdraw(contract, userAddress, rwaTokenAddress, 0n, withdrawAmount);
+        if (!simulation.success) {
+          return failSimulation(simulation);
+        }
+        setTransactionStatus(prev => ({ ...prev, stage: 'transaction', simulation }));
+      }
+
+      // With a full repayment already mined, only the withdrawal is left
+      const hubRepayAmount = quote ? 0n : repayAmount;
+      console.log('Executing repay and withdraw transaction...');
+      
+      // Estimate gas; the simulation passed, so a failure here is an RPC issue
+      const gasLimit = await estimateGas(
+        contract.repayAndWithdraw,
+        [rwaTokenAddress, hubRepayAmount, withdrawAmount, false],
+        BigInt(GAS_LIMITS.REPAY_AND_WITHDRAW)
+      );
+
+      // Execute transaction
+      const tx = await contract.repayAndWithdraw(
+        rwaTokenAddress,
+        hubRepayAmount.toString(),
+        withdrawAmount.toString(),
+        false,
+        {
+          gasLimit: gasLimit.toString()
+        }
+      );
+      const tracked = await track(
+        tx,
+        hubRepayAmount > 0n ? 'repay' : 'withdraw',
+        quote ? 'Withdraw collateral' : 'Repay and withdraw collateral',
+        chainId
+      );
+
+      setTransactionStatus(prev => ({
+        ...prev,
+        txHash: tx.hash,
+        stage: 'confirming'
+      }));
+
+      console.log('Transaction submitted:', tx.hash);
+
+      // Wait for confirmation
+      const receipt = await waitForTransaction(tx, 1);
+      if (tracked) settleTransaction(tracked, receipt);
+      
+      if (receipt && receipt.status === 1) {
+        console.log('Transaction confirmed!');
+        setTransactionStatus(prev => ({
+          ...prev,
+          stage: 'success',
+          isLoading: false
+        }));
+        return true;
+      } else {
+        throw new Error('Transaction failed');
+      }
+
+    } catch (error: any) {
+      console.error('Transaction error:', error);
+      const errorMessage = formatTransactionError(error);
+      
+      setTransactionStatus(prev => ({
+        isLoading: false,
+        error: errorMessage,
+        txHash: null,
+        stage: 'error',
+        simulation: prev.simulation
+      }));
+      
+      return false;
+    }
+  }, [checkApprovalNeeded, failSimulation, fetchOracleGuard, failOracleGuard]);
+
+  // Borrowers below the hub's liquidation threshold
+  const fetchLiquidationCandidates = useCallback(async (): Promise<LiquidationCandidate[]> => {
+    try {
+      const { chainId, deployedBlock } = await getActiveRegistry();
+      return await getLiquidationCandidates(getMorphoReadContract(chainId), deployedBlock);
+    } catch (error) {
+      console.error('Error finding liquidatable positions:', error);
+      return [];
+    }
+  }, []);
+
+  // Seizable collateral, repaid shares and expected profit for liquidating a position
+  const fetchLiquidationQuote = useCallback(async (
+    borrower: string,
+    rwaTokenAddress: string,
+    options?: QuoteOptions
+  ): Promise<LiquidationQuote | null> => {
+    try {
+      const contract = getMorphoReadContract(await getActiveChainId());
+      return await getLiquidationQuote(contract, borrower, rwaTokenAddress, options);
+    } catch (error) {
+      console.error('Error quoting liquidation:', error);
+      return null;
+    }
+  }, []);
+
+  // Execute liquidation transaction
+  const executeLiquidation = useCallback(async (
+    quote: LiquidationQuote
+  ): Promise<boolean> => {
+    const { params } = quote;
+
+    try {
+      setTransactionStatus({
+        isLoading: true,
+        error: null,
+        txHash: null,
+        stage: 'simulating',
+        simulation: null
+      });
+
+      const { chainId, usdc } = await getActiveRegistry();
+      const contract = await getMorphoContract();
+      if (!contract) {
+        throw new Error('Could not connect to contract');
+      }
+
+      // Step 1: Simulate. The liquidation goes straight to Morpho Blue, which pulls the
+      // repayment from the liquidator, so until USDC is approved it may only revert on the allowance.
+      const liquidatorAddress = await (contract.runner as ethers.Signer).getAddress();
+      const approvalNeeded = await checkApprovalNeeded(usdc, liquidatorAddress, quote.repayAllowance, quote.morpho);
+
+      let simulation = await simulateLiquidation(
+        contract,
+        liquidatorAddress,
+        quote,
+        { pendingApproval: approvalNeeded }
+      );
+
+      if (!simulation.success) {
+        return failSimulation(simulation);
+      }
+
+      setTransactionStatus(prev => ({ ...prev, simulation }));
+
+      // Step 2: Approve USDC if needed
+      if (approvalNeeded) {
+        console.log('USDC approval required...');
+        setTransactionStatus(prev => ({ ...prev, stage: 'approval' }));
+
+        const approveTx = await approveToken(usdc, quote.morpho, quote.repayAllowance);
+        if (!approveTx) {
+          throw new Error('Approval transaction failed');
+        }
+        const approval = await track(approveTx, 'approve', 'Approve USDC for liquidation on Morpho Blue', chainId);
+
+        setTransactionStatus(prev => ({
+          ...prev,
+          txHash: approveTx.hash,
+          stage: 'confirming'
+        }));
+
+        const approvalReceipt = await waitForTransaction(approveTx, 1);
+        if (approval) settleTransaction(approval, approvalReceipt);
+        if (approvalReceipt?.status !== 1) {
+          throw new Error('Approval transaction failed');
+        }
+        console.log('Approval confirmed!');
+
+        setTransactionStatus(prev => ({ ...prev, stage: 'simulating', txHash: null }));
+        simulation = await simulateLiquidation(contract, liquidatorAddress, quote);
+
+        if (!simulation.success) {
+          return failSimulation(simulation);
+        }
+      }
+
+      // Step 3: Execute main transaction
+      setTransactionStatus(prev => ({
+        ...prev,
+        stage: 'transaction',
+        txHash: null,
+        simulation
+      }));
+
+      console.log('Executing liquidation transaction...');
+
+      // Estimate gas; the simulation passed, so a failure here is an RPC issue
+      const morpho = connectMorpho(quote.morpho, contract.runner!);
+      const liquidateArgs = [quote.marketParams, params.borrower, params.seizedAssets, params.repaidShares, '0x'] as const;
+      const gasLimit = await estimateGas(morpho.liquidate, [...liquidateArgs], BigInt(GAS_LIMITS.LIQUIDATE));
+
+      // Execute transaction
+      const tx = await morpho.liquidate(...liquidateArgs, {
+        gasLimit: gasLimit.toString()
+      });
+      const tracked = await track(tx, 'liquidate', `Liquidate ${truncateAddress(params.borrower)}`, chainId);
+
+      setTransactionStatus(prev => ({
+        ...prev,
+        txHash: tx.hash,
+        stage: 'confirming'
+      }));
+
+      console.log('Transaction submitted:', tx.hash);
+
+      // Wait for confirmation
+      const receipt = await waitForTransaction(tx, 1);
+      if (tracked) settleTransaction(tracked, receipt);
+
+      if (receipt && receipt.status === 1) {
+        console.log('Transaction confirmed!');
+        setTransactionStatus(prev => ({
+          ...prev,
+          stage: 'success',
+          isLoading: false
+        }));
+        return true;
+      } else {
+        throw new Error('Transaction failed');
+      }
+
+    } catch (error: any) {
+      console.error('Transaction error:', error);
+      const errorMessage = formatTransactionError(error);
+
+      setTransactionStatus(prev => ({
+        isLoading: false,
+        error: errorMessage,
+        txHash: null,
+        stage: 'error',
+        simulation: prev.simulation
+      }));
+
+      return false;
+    }
+  }, [checkApprovalNeeded, failSimulation]);
+
+  // Execute an owner or emergency admin call on the hub
+  const executeAdminAction = useCallback(async (action: HubAdminAction): Promise<boolean> => {
+    try {
+      setTransactionStatus({
+        isLoading: true,
+        error: null,
+        txHash: null,
+        stage: 'simulating',
+        simulation: null
+      });
+
+      const { chainId } = await getActiveRegistry();
+      const contract = await getMorphoContract();
+      if (!contract) {
+        throw new Error('Could not connect to contract');
+      }
+
+      // Step 1: Simulate from the connected wallet, so ownership is checked too
+      const userAddress = await (contract.runner as ethers.Signer).getAddress();
+      const simulation = await simulateAdminAction(contract, action, userAddress);
+      if (!simulation.success) {
+        return failSimulation({ success: false, simulated: true, error: simulation.error, preview: null });
+      }
+
+      // Step 2: Execute
+      setTransactionStatus(prev => ({ ...prev, stage: 'transaction' }));
+
+      const { method, args } = getAdminCall(action);
+      const call = contract.getFunction(method);
+      const gasLimit = await estimateGas(call, args, BigInt(GAS_LIMITS.ADMIN_ACTION));
+
+      const tx = await call.send(...args, {
+        gasLimit: gasLimit.toString()
+      });
+      const tracked = await track(tx, 'admin', describeAdminAction(action), chainId);
+
+      setTransactionStatus(prev => ({
+        ...prev,
+        txHash: tx.hash,
+        stage: 'confirming'
+      }));
+
+      const receipt = await waitForTransaction(tx, 1);
+      if (tracked) settleTransaction(tracked, receipt);
+
+      if (receipt && receipt.status === 1) {
+        setTransactionStatus(prev => ({
+          ...prev,
+          stage: 'success',
+          isLoading: false
+        }));
+        return true;
+      } else {
+        throw new Error('Transaction failed');
+      }
+
+    } catch (error: any) {
+      console.error('Admin transaction error:', error);
+
+      setTransactionStatus({
+        isLoading: false,
+        error: formatTransactionError(error),
+        txHash: null,
+        stage: 'error',
+        simulation: null
+      });
+
+      return false;
+    }
+  }, [failSimulation]);
+
+  // Refresh a token's oracle price from its Chainlink feed
+  const executeOracleUpdate = useCallback(async (rwaTokenAddress: string): Promise<boolean> => {
+    try {
+      setTransactionStatus({
+        isLoading: true,
+        error: null,
+        txHash: null,
+        stage: 'transaction',
+        simulation: null
+      });
+
+      const signer = await getSigner();
+      if (!signer) {
+        throw new Error('Could not connect to wallet');
+      }
+      const { chainId, oracle: oracleAddress } = await getActiveRegistry();
+      const oracle = connectOracle(oracleAddress, signer);
+
+      // Surface the oracle's revert reason (stale feed, no feed) before sending
+      await oracle.updatePriceFromChainlink.staticCall(rwaTokenAddress);
+
+      const gasLimit = await estimateGas(
+        oracle.updatePriceFromChainlink,
+        [rwaTokenAddress],
+        BigInt(GAS_LIMITS.UPDATE_PRICE)
+      );
+
+      const tx = await oracle.updatePriceFromChainlink(rwaTokenAddress, {
+        gasLimit: gasLimit.toString()
+      });
+      const tracked = await track(tx, 'update-price', `Update oracle price for ${truncateAddress(rwaTokenAddress)}`, chainId);
+
+      setTransactionStatus(prev => ({
+        ...prev,
+        txHash: tx.hash,
+        stage: 'confirming'
+      }));
+
+      const receipt = await waitForTransaction(tx, 1);
+      if (tracked) settleTransaction(tracked, receipt);
+
+      if (receipt && receipt.status === 1) {
+        setTransactionStatus(prev => ({
+          ...prev,
+          stage: 'success',
+          isLoading: false
+        }));
+        return true;
+      } else {
+        throw new Error('Transaction failed');
+      }
+
+    } catch (error: any) {
+      console.error('Oracle update error:', error);
+
+      setTransactionStatus({
+        isLoading: false,
+        error: formatTransactionError(error),
+        txHash: null,
+        stage: 'error',
+        simulation: null
+      });
+
       return false;
     }
   }, []);
@@ -332,10 +1450,34 @@ export const useWeb3 = () => {
     
     // Actions
     fetchPositionData,
+    fetchSnapshot,
     getSupportedTokens,
+    fetchTokens,
+    fetchSupplyBorrowContext,
+    fetchOracleDashboard,
+    fetchOracleGuard,
+    fetchHubAdmin,
+    fetchContractOwners,
+    fetchRWAConfig,
+    previewAdminAction,
     getUserTokenBalance,
+    previewSupplyAndBorrow,
+    previewRepayAndWithdraw,
+    fetchRepayLimits,
+    fetchRescueQuote,
+    fetchBorrowRate,
+    fetchPriceDeviationThreshold,
+    fetchOnChainStressTest,
+    previewAddCollateral,
     executeSupplyAndBorrow,
+    executeBundledSupplyAndBorrow,
+    executeAddCollateral,
     executeRepayAndWithdraw,
+    fetchLiquidationCandidates,
+    fetchLiquidationQuote,
+    executeLiquidation,
+    executeOracleUpdate,
+    executeAdminAction,
     resetTransactionStatus,
     
     // Utilities
@@ -0,0 +1,506 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { ethers } from 'ethers';
+import { truncateAddress } from '@/utils';
+import { useWeb3 } from '@/hooks/useWeb3';
+import SafeBatchPanel from '@/components/SafeBatchPanel';
+import SafeContractActions from '@/components/SafeContractActions';
+import { formatContractError } from '@/utils/errors';
+import {
+  AdminSimulation,
+  ASSET_TYPES,
+  describeAdminAction,
+  diffRWAConfig,
+  EMPTY_CONFIG_FORM,
+  HubAdminAction,
+  HubAdminRole,
+  HubAdminState,
+  MARKET_PARAM_FIELDS,
+  parseConfigForm,
+  RWA_CONFIG_LABELS,
+  RWAConfigForm,
+  toConfigForm
+} from '@/utils/admin';
+import { DEFAULT_CHAIN_ID, getRegistry, requireRegistry } from '@/utils/registry';
+import { ContractOwners, getSafeOwners, queueSafeTransaction, toSafeHubTransaction } from '@/utils/safe';
+import { DeploymentToken, RWAConfig } from '@/types';
+
+type TextField = { [K in keyof RWAConfigForm]: RWAConfigForm[K] extends string ? K : never }[keyof RWAConfigForm];
+type FlagField = Exclude<keyof RWAConfigForm, TextField>;
+
+const TEXT_FIELDS: Array<{ field: TextField; placeholder: string }> = [
+  { field: 'name', placeholder: 'e.g. Tokenized Treasury' },
+  { field: 'oracle', placeholder: 'Price feed address' },
+  { field: 'irm', placeholder: 'Interest rate model address' },
+  { field: 'lltv', placeholder: 'LLTV in percent, e.g. 70' },
+  { field: 'minCollateral', placeholder: 'Token amount, blank for none' },
+  { field: 'maxSinglePosition', placeholder: 'Token amount, blank for none' },
+  { field: 'decimals', placeholder: 'Token decimals' }
+];
+
+const FLAG_FIELDS: FlagField[] = ['isSupported', 'isActive', 'requiresKYC'];
+
+const NEW_MARKET = 'new';
+
+export default function Admin() {
+  const [account, setAccount] = useState<string>('');
+  const [chainId, setChainId] = useState<string>('');
+  const [hubState, setHubState] = useState<HubAdminState | null>(null);
+  const [role, setRole] = useState<HubAdminRole | null>(null);
+  // Owners of the hub, oracle and rewards manager; each Safe among them has its own batch
+  const [owners, setOwners] = useState<ContractOwners>({});
+  const [tokens, setTokens] = useState<DeploymentToken[]>([]);
+
+  // Market being edited: a listed token or NEW_MARKET
+  const [selectedToken, setSelectedToken] = useState<string>(NEW_MARKET);
+  const [newTokenAddress, setNewTokenAddress] = useState<string>('');
+  const [currentConfig, setCurrentConfig] = useState<RWAConfig | null>(null);
+  const [form, setForm] = useState<RWAConfigForm>(EMPTY_CONFIG_FORM);
+  const [feeRecipient, setFeeRecipient] = useState<string>('');
+
+  // Change under review, simulated before it can be submitted
+  const [proposal, setProposal] = useState<HubAdminAction | null>(null);
+  const [simulation, setSimulation] = useState<AdminSimulation | null>(null);
+
+  const {
+    transactionStatus,
+    fetchTokens,
+    fetchHubAdmin,
+    fetchContractOwners,
+    fetchRWAConfig,
+    previewAdminAction,
+    executeAdminAction,
+    resetTransactionStatus
+  } = useWeb3();
+
+  const deployment = (chainId && getRegistry(chainId)) || requireRegistry(DEFAULT_CHAIN_ID);
+
+  useEffect(() => {
+    if (!window.ethereum) return;
+
+    window.ethereum.request({ method: 'eth_accounts' }).then((accounts: string[]) => setAccount(accounts[0] || ''));
+    window.ethereum.request({ method: 'eth_chainId' }).then(setChainId);
+
+    const handleAccountsChanged = (accounts: string[]) => setAccount(accounts[0] || '');
+    const handleChainChanged = () => window.location.reload();
+    window.ethereum.on('accountsChanged', handleAccountsChanged);
+    window.ethereum.on('chainChanged', handleChainChanged);
+
+    return () => {
+      window.ethereum.removeListener('accountsChanged', handleAccountsChanged);
+      window.ethereum.removeListener('chainChanged', handleChainChanged);
+    };
+  }, []);
+
+  const connectWallet = async () => {
+    if (!window.ethereum) {
+      alert('Please install MetaMask or another Web3 wallet');
+      return;
+    }
+    try {
+      const accounts = await window.ethereum.request({ method: 'eth_requestAccounts' });
+      setAccount(accounts[0]);
+    } catch (error) {
+      console.error('Error connecting wallet:', error);
+    }
+  };
+
+  const loadHub = useCallback(async () => {
+    const [admin, contractOwners, discovered] = await Promise.all([
+      fetchHubAdmin(account),
+      fetchContractOwners(),
+      fetchTokens(true)
+    ]);
+    setHubState(admin?.state ?? null);
+    setRole(admin?.role ?? null);
+    // The hub owner is known from the admin state even when the other owners cannot be read
+    const hubOwner = admin && { address: admin.state.owner, isContract: admin.state.ownerIsContract };
+    setOwners({ ...contractOwners, ...(hubOwner && { hub: hubOwner }) });
+    setTokens(discovered || deployment.rwaTokens);
+  }, [account, deployment, fetchHubAdmin, fetchContractOwners, fetchTokens]);
+
+  useEffect(() => {
+    loadHub();
+  }, [loadHub]);
+
+  const marketToken = selectedToken === NEW_MARKET ? newTokenAddress : selectedToken;
+
+  // Load the on-chain config of the market being edited
+  const loadConfig = useCallback(async () => {
+    if (!ethers.isAddress(marketToken)) {
+      setCurrentConfig(null);
+      setForm(EMPTY_CONFIG_FORM);
+      return;
+    }
+    const config = await fetchRWAConfig(marketToken);
+    const existing = config?.isSupported ? config : null;
+    setCurrentConfig(existing);
+    setForm(existing ? toConfigForm(existing) : EMPTY_CONFIG_FORM);
+  }, [marketToken, fetchRWAConfig]);
+
+  useEffect(() => {
+    loadConfig();
+  }, [loadConfig]);
+
+  const isOwner = !!role?.isOwner;
+  // A multisig owner signs in the Safe app; changes are queued for a Safe batch instead
+  const isSafeOwned = !!hubState?.ownerIsContract;
+  const canManage = isOwner || isSafeOwned;
+  const canPause = canManage || !!role?.isEmergencyAdmin;
+  // Whether the connected wallet can send the proposal itself
+  const canSign = !!proposal && (isOwner || (proposal.type === 'setPause' && !!role?.isEmergencyAdmin));
+  const sender = canSign ? account : hubState?.owner;
+
+  // Simulate every proposed change from the wallet that will send it before it can be sent
+  useEffect(() => {
+    setSimulation(null);
+    if (!proposal || !sender) return;
+
+    let cancelled = false;
+    previewAdminAction(proposal, sender).then(result => {
+      if (!cancelled) setSimulation(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [proposal, sender, previewAdminAction]);
+
+  const propose = (action: HubAdminAction) => {
+    resetTransactionStatus();
+    setProposal(action);
+  };
+
+  const submitProposal = async () => {
+    if (!proposal) return;
+    const success = await executeAdminAction(proposal);
+    if (success) {
+      setProposal(null);
+      await Promise.all([loadHub(), loadConfig()]);
+    }
+  };
+
+  const queueProposal = () => {
+    if (!proposal) return;
+    if (!hubState) return;
+    queueSafeTransaction(deployment.chainId, hubState.owner, toSafeHubTransaction(deployment.hub, proposal));
+    setProposal(null);
+  };
+
+  const { config: proposedConfig, errors: formErrors } = parseConfigForm(form, currentConfig);
+  const configChanges = proposedConfig ? diffRWAConfig(currentConfig, proposedConfig) : [];
+  const proposalChanges =
+    proposal && (proposal.type === 'createMarket' || proposal.type === 'updateConfig')
+      ? diffRWAConfig(proposal.type === 'updateConfig' ? currentConfig : null, proposal.config)
+      : [];
+
+  const isBusy = transactionStatus.isLoading;
+  const safeOwners = getSafeOwners(owners);
+
+  return (
+    <>
+      <Head>
+        <title>Admin - Morpho RWA Liquidity Hub</title>
+      </Head>
+
+      <div className="min-h-screen p-6">
+        <div className="max-w-6xl mx-auto">
+          <header className="mb-8 animate-slide-in flex flex-col lg:flex-row lg:items-center lg:justify-between">
+            <div>
+              <h1 className="text-4xl font-bold text-gradient mb-2">Hub Admin</h1>
+              <p className="text-gray-600">Markets, fees and emergency controls on {deployment.network}</p>
+            </div>
+            <div className="flex items-center space-x-3 mt-4 lg:mt-0">
+              <Link href="/" className="text-sm text-blue-600 hover:text-blue-800 underline">
+                Back to dashboard
+              </Link>
+              {account ? (
+                <span className="card px-4 py-2 font-mono text-sm">{truncateAddress(account)}</span>
+              ) : (
+                <button onClick={connectWallet} className="wallet-button">Connect Wallet</button>
+              )}
+            </div>
+          </header>
+
+          {!hubState ? (
+            <div className="card flex items-center justify-center text-gray-500 py-12">
+              <div className="spinner mr-2"></div>
+              Reading hub...
+            </div>
+          ) : !canPause ? (
+            <div className="card animate-fade-in text-center py-12">
+              <h2 className="text-2xl font-semibold mb-2">Owner only</h2>
+              <p className="text-gray-600">
+                {account ? 'The connected wallet is not the hub owner or emergency admin.' : 'Connect the hub owner wallet.'}
+              </p>
+              <p className="text-sm text-gray-500 mt-2">
+                Owner <code>{hubState.owner}</code>
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-8">
+              {/* Hub Settings */}
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="stat-card">
+                  <div className="text-sm text-gray-600 mb-1">Status</div>
+                  <div className={`text-xl font-bold ${hubState.paused ? 'text-red-600' : 'text-green-600'}`}>
+                    {hubState.paused ? 'Paused' : 'Active'}
+                  </div>
+                  <button
+                    onClick={() => propose({ type: 'setPause', paused: !hubState.paused })}
+                    disabled={isBusy}
+                    className="mt-2 text-xs text-blue-600 hover:text-blue-800 underline"
+                  >
+                    {hubState.paused ? 'Unpause hub' : 'Pause hub'}
+                  </button>
+                </div>
+                <div className="stat-card">
+                  <div className="text-sm text-gray-600 mb-1">KYC to Borrow</div>
+                  <div className="text-xl font-bold">{hubState.requireKYCDefault ? 'Required' : 'Not required'}</div>
+                  {canManage && (
+                    <button
+                      onClick={() => propose({ type: 'setKYCRequirement', required: !hubState.requireKYCDefault })}
+                      disabled={isBusy}
+                      className="mt-2 text-xs text-blue-600 hover:text-blue-800 underline"
+                    >
+                      {hubState.requireKYCDefault ? 'Stop requiring KYC' : 'Require KYC to borrow'}
+                    </button>
+                  )}
+                </div>
+                <div className="stat-card">
+                  <div className="text-sm text-gray-600 mb-1">Fee Recipient</div>
+                  <div className="text-xl font-bold font-mono">{truncateAddress(hubState.feeRecipient)}</div>
+                  {canManage && (
+                    <div className="flex gap-2 mt-2">
+                      <input
+                        type="text"
+                        value={feeRecipient}
+                        onChange={(e) => setFeeRecipient(e.target.value)}
+                        placeholder="New recipient"
+                        className="input-field py-1 text-xs font-mono"
+                      />
+                      <button
+                        onClick={() => propose({ type: 'setFeeRecipient', recipient: ethers.getAddress(feeRecipient) })}
+                        disabled={isBusy || !ethers.isAddress(feeRecipient)}
+                        className="text-xs text-blue-600 hover:text-blue-800 underline disabled:opacity-50"
+                      >
+                        Set
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              {/* Markets */}
+              {canManage && (
+                <div className="card animate-fade-in">
+                  <h2 className="text-2xl font-semibold mb-4">Markets</h2>
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+                    <select
+                      value={selectedToken}
+                      onChange={(e) => setSelectedToken(e.target.value)}
+                      className="input-field"
+                    >
+                      <option value={NEW_MARKET}>New market...</option>
+                      {tokens.map(token => (
+                        <option key={token.address} value={token.address}>{`${token.symbol} (${truncateAddress(token.address)})`}</option>
+                      ))}
+                    </select>
+                    {selectedToken === NEW_MARKET && (
+                      <input
+                        type="text"
+                        value={newTokenAddress}
+                        onChange={(e) => setNewTokenAddress(e.target.value)}
+                        placeholder="RWA token address"
+                        className="input-field font-mono text-sm"
+                      />
+                    )}
+                  </div>
+
+                  {ethers.isAddress(marketToken) && (
+                    <>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        {TEXT_FIELDS.map(({ field, placeholder }) => {
+                          // Market params of an existing market cannot be changed
+                          const isFixed = !!currentConfig && MARKET_PARAM_FIELDS.includes(field);
+                          return (
+                            <div key={field}>
+                              <label className="block text-sm font-medium text-gray-700 mb-1">{RWA_CONFIG_LABELS[field]}</label>
+                              <input
+                                type="text"
+                                value={form[field]}
+                                onChange={(e) => setForm(prev => ({ ...prev, [field]: e.target.value }))}
+                                placeholder={placeholder}
+                                readOnly={isFixed}
+                                className={`input-field ${isFixed ? 'bg-gray-100 text-gray-500' : ''}`}
+                              />
+                              {isFixed && <div className="text-xs text-gray-500 mt-1">Fixed by the Morpho Blue market</div>}
+                              {form[field] !== '' && formErrors[field] && (
+                                <div className="text-xs text-red-600 mt-1">{formErrors[field]}</div>
+                              )}
+                            </div>
+                          );
+                        })}
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">{RWA_CONFIG_LABELS.assetType}</label>
+                          <select
+                            value={form.assetType}
+                            onChange={(e) => setForm(prev => ({ ...prev, assetType: e.target.value }))}
+                            className="input-field"
+                          >
+                            {[...new Set([...ASSET_TYPES, form.assetType])].map(type => (
+                              <option key={type} value={type}>{type}</option>
+                            ))}
+                          </select>
+                        </div>
+                      </div>
+
+                      <div className="flex flex-wrap gap-6 mt-4">
+                        {FLAG_FIELDS.map(field => (
+                          <label key={field} className="flex items-center space-x-2 text-sm text-gray-700">
+                            <input
+                              type="checkbox"
+                              checked={form[field]}
+                              onChange={(e) => setForm(prev => ({ ...prev, [field]: e.target.checked }))}
+                            />
+                            <span>{RWA_CONFIG_LABELS[field]}</span>
+                          </label>
+                        ))}
+                      </div>
+                      {currentConfig && (!form.isSupported || !form.isActive) && (
+                        <div className="text-xs text-red-600 mt-2">
+                          The hub rejects every call for an unsupported or inactive token, including repayments,
+                          liquidations and updateRWAConfig itself, so this market could not be re-enabled from here.
+                        </div>
+                      )}
+
+                      <button
+                        onClick={() => proposedConfig && propose({
+                          type: currentConfig ? 'updateConfig' : 'createMarket',
+                          token: ethers.getAddress(marketToken),
+                          config: proposedConfig
+                        })}
+                        disabled={isBusy || !proposedConfig || configChanges.length === 0}
+                        className="btn-primary mt-6"
+                      >
+                        {currentConfig ? `Review ${configChanges.length} change${configChanges.length === 1 ? '' : 's'}` : 'Review new market'}
+                      </button>
+                    </>
+                  )}
+                </div>
+              )}
+
+              {/* Review */}
+              {proposal && (
+                <div className="card animate-fade-in border-2 border-blue-200">
+                  <h2 className="text-2xl font-semibold mb-4">{describeAdminAction(proposal)}</h2>
+
+                  {proposalChanges.length > 0 && (
+                    <table className="w-full text-sm mb-4">
+                      <thead>
+                        <tr className="text-left text-gray-600 border-b">
+                          <th className="py-2 pr-4">Field</th>
+                          <th className="py-2 pr-4">Current</th>
+                          <th className="py-2">Proposed</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {proposalChanges.map(change => (
+                          <tr key={change.field} className="border-b last:border-0">
+                            <td className="py-2 pr-4 font-medium">{change.label}</td>
+                            <td className="py-2 pr-4 text-gray-500">{change.from}</td>
+                            <td className="py-2 font-semibold">{change.to}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+
+                  <div className="mb-4 text-sm">
+                    {!simulation ? (
+                      <span className="flex items-center text-gray-500">
+                        <div className="spinner mr-2"></div>
+                        Simulating...
+                      </span>
+                    ) : simulation.success ? (
+                      <span className="text-green-700">✅ Simulation passed{!canSign && ' as the Safe'}</span>
+                    ) : (
+                      <span className="text-red-700">
+                        ❌ Simulation failed: {simulation.error ? formatContractError(simulation.error) : 'the call would revert'}
+                      </span>
+                    )}
+                  </div>
+
+                  {transactionStatus.stage === 'error' && (
+                    <div className="mb-4 p-3 rounded-lg text-sm bg-red-50 text-red-800 border border-red-200">
+                      ❌ {transactionStatus.error}
+                    </div>
+                  )}
+
+                  <div className="flex gap-3">
+                    {canSign && (
+                      <button
+                        onClick={submitProposal}
+                        disabled={isBusy || !simulation?.success}
+                        className="btn-primary"
+                      >
+                        {isBusy ? (
+                          <span className="flex items-center">
+                            <div className="spinner mr-2"></div>
+                            {transactionStatus.stage === 'confirming' ? 'Confirming...' : 'Submitting...'}
+                          </span>
+                        ) : (
+                          'Submit'
+                        )}
+                      </button>
+                    )}
+                    {isSafeOwned && (
+                      <button
+                        onClick={queueProposal}
+                        disabled={isBusy || !simulation?.success}
+                        className={canSign ? 'px-4 py-2 rounded-lg border border-blue-300 text-blue-700 hover:bg-blue-50 disabled:opacity-50' : 'btn-primary'}
+                      >
+                        Add to Safe batch
+                      </button>
+                    )}
+                    <button
+                      onClick={() => setProposal(null)}
+                      disabled={isBusy}
+                      className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {safeOwners.length > 0 && (
+                <>
+                  {(owners.oracle?.isContract || owners.rewards?.isContract) && (
+                    <SafeContractActions registry={deployment} tokens={tokens} owners={owners} />
+                  )}
+                  {safeOwners.map(({ safeAddress, contracts }) => (
+                    <SafeBatchPanel
+                      key={safeAddress}
+                      registry={deployment}
+                      safeAddress={safeAddress}
+                      contracts={contracts}
+                    />
+                  ))}
+                </>
+              )}
+
+              {transactionStatus.stage === 'success' && (
+                <div className="p-3 rounded-lg text-sm bg-green-50 text-green-800 border border-green-200 flex justify-between">
+                  <span>✅ Change applied</span>
+                  <button onClick={resetTransactionStatus} className="underline">Dismiss</button>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
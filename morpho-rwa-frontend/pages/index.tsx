@@ -1,12 +1,57 @@
 import React, { useState, useEffect } from 'react';
 import Head from 'next/head';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
 import { ethers } from 'ethers';
-import { CONTRACT_ADDRESSES, getUSDCAddress, getMorphoAddress, formatBigInt, truncateAddress } from '@/utils';
+import { DEFAULT_SETTINGS, getUSDCAddress, getMorphoAddress, formatBigInt, formatPercentage, truncateAddress } from '@/utils';
 import { useWeb3 } from '@/hooks/useWeb3';
+import TransactionPreview from '@/components/TransactionPreview';
+import TransactionHistoryDrawer from '@/components/TransactionHistoryDrawer';
+import RepayWithdrawPanel from '@/components/RepayWithdrawPanel';
+import AddCollateralPanel from '@/components/AddCollateralPanel';
+import PositionProjection from '@/components/PositionProjection';
+import StressTestPanel from '@/components/StressTestPanel';
+import OracleGuardNotice from '@/components/OracleGuardNotice';
+import { useTransactionHistory } from '@/hooks/useTransactionHistory';
+import { useKYC } from '@/hooks/useKYC';
+import { useOracleGuard } from '@/hooks/useOracleGuard';
+import { KYCStatus } from '@/utils/kyc';
+import { SimulationResult } from '@/utils/simulation';
+import { getBundlerAddresses } from '@/utils/bundler';
+import { DEFAULT_CHAIN_ID, getRegistry, isDeployedChain, requireRegistry } from '@/utils/registry';
+import { getTokenStatus, RWATokenStatus, TOKEN_STATUS_LABELS } from '@/utils/tokens';
+import {
+  getFieldErrors,
+  getSupplyBorrowBlockers,
+  getSupplyBorrowFields,
+  SupplyBorrowContext
+} from '@/utils/validation';
+import { RWAToken } from '@/types';
 
-// ✅ UPDATED: Use deployed contract addresses
-const CONTRACT_ADDRESS = CONTRACT_ADDRESSES.RWA_HUB; // 0xC085e5E50872D597DE3e3195C74ca953e4a3851A
-const RWA_ORACLE_ADDRESS = CONTRACT_ADDRESSES.RWA_ORACLE; // 0x0403F1a45e538eebF887afD1f7318fA3255f1273
+// Contracts and RWA tokens for a chain, falling back to the default deployment
+const getDeployment = (chainId: string) =>
+  (chainId && getRegistry(chainId)) || requireRegistry(DEFAULT_CHAIN_ID);
+
+// Discovered tokens carry their on-chain status; manifest fallbacks do not
+const getStatus = (token?: Partial<RWAToken>): RWATokenStatus | null =>
+  token?.isActive === undefined ? null : getTokenStatus(token as RWAToken);
+
+// Demo mode and unloaded reads validate the amounts' format only
+const EMPTY_VALIDATION_CONTEXT: SupplyBorrowContext = {
+  config: null,
+  balance: null,
+  collateralPrice: null,
+  existingCollateral: 0n,
+  morphoCollateral: null,
+  isPaused: null,
+  kyc: null
+};
+
+// Verification status of the connected account for a token, as shown next to it
+const getKYCLabel = (status: KYCStatus | null): string | null => {
+  if (!status?.required) return null;
+  return status.verified ? 'KYC verified' : 'KYC required';
+};
 
 // Helper functions for big number operations
 const toBigInt = (value: string | number, decimals: number = 18): bigint => {
@@ -16,31 +61,6 @@ const toBigInt = (value: string | number, decimals: number = 18): bigint => {
   return BigInt(integer + paddedFraction);
 };
 
-// ✅ UPDATED: Real RWA tokens deployed on Sepolia
-const realRWATokens = [
-  {
-    address: '0x988EED42856A332211162DbF368CBE805d9C59B2',
-    name: 'Centrifuge Real Estate Token',
-    symbol: 'CFG-RE',
-    type: 'Real Estate',
-    decimals: 18
-  },
-  {
-    address: '0x9dbAb878c774eb5506ad68aA9EA4b8362A5F744f',
-    name: 'Maple Corporate Credit Token',
-    symbol: 'MPL-CC',
-    type: 'Corporate Credit',
-    decimals: 18
-  },
-  {
-    address: '0xAb16820FFf7899e5ef605A1FD996B6C004796bb1',
-    name: 'TrueFi Uncollateralized Loan Token',
-    symbol: 'TRU-UL',
-    type: 'Uncollateralized Loans',
-    decimals: 18
-  }
-];
-
 export default function Home() {
   // Wallet state
   const [account, setAccount] = useState<string>('');
@@ -48,6 +68,10 @@ export default function Home() {
   const [chainId, setChainId] = useState<string>('');
   const [isLoading, setIsLoading] = useState<boolean>(false);
 
+  // Read-only state: browse any address over the public RPC without a wallet
+  const [isReadOnly, setIsReadOnly] = useState<boolean>(false);
+  const [watchAddress, setWatchAddress] = useState<string>('');
+
   // UI state
   const [selectedRWA, setSelectedRWA] = useState<string>('');
   const [collateralAmount, setCollateralAmount] = useState<string>('');
@@ -60,16 +84,47 @@ export default function Home() {
   // ✅ Demo/Live Mode Toggle State
   const [isLiveMode, setIsLiveMode] = useState(false);
 
+  // Contracts for the connected chain
+  const deployment = getDeployment(chainId);
+
+  // Route the supply through Morpho's bundler instead of the hub, where deployed
+  const [useBundler, setUseBundler] = useState<boolean>(false);
+  const bundlerAvailable = getBundlerAddresses(deployment) !== null;
+
+  // Pre-flight simulation of the current form
+  const [simulation, setSimulation] = useState<SimulationResult | null>(null);
+  const [isSimulating, setIsSimulating] = useState<boolean>(false);
+
   // ✅ NEW: Web3 Integration
   const {
     transactionStatus,
-    fetchPositionData: fetchLivePositionData,
-    getSupportedTokens,
+    fetchSnapshot: fetchLiveSnapshot,
+    previewSupplyAndBorrow,
+    fetchTokens,
+    fetchSupplyBorrowContext,
     getUserTokenBalance,
     executeSupplyAndBorrow,
+    executeBundledSupplyAndBorrow,
     resetTransactionStatus
   } = useWeb3();
 
+  const router = useRouter();
+
+  // Sent transactions, persisted across reloads
+  const [isHistoryOpen, setIsHistoryOpen] = useState<boolean>(false);
+  const { transactions, pendingCount, clearHistory } = useTransactionHistory(account, chainId);
+
+  // KYC requirements per token and the account's verification, read in live mode only
+  const {
+    kyc,
+    flow: kycFlow,
+    isVerifying,
+    error: kycError,
+    getTokenKYC,
+    startVerification,
+    refresh: refreshKYC
+  } = useKYC(isLiveMode ? account : '', chainId, supportedTokens.map(token => token.address));
+
   // Initialize wallet connection
   useEffect(() => {
     checkConnection();
@@ -86,6 +141,16 @@ export default function Home() {
     };
   }, []);
 
+  // Open a position linked from elsewhere, e.g. /?token=0x... from the portfolio page
+  useEffect(() => {
+    const { token } = router.query;
+    if (typeof token !== 'string' || !ethers.isAddress(token)) return;
+
+    // Token lists hold checksummed addresses
+    setSelectedRWA(ethers.getAddress(token));
+    setIsLiveMode(true);
+  }, [router.query.token]);
+
   // Fetch position data when wallet connects or RWA selection changes
   useEffect(() => {
     if (isConnected && selectedRWA) {
@@ -93,12 +158,83 @@ export default function Home() {
     }
   }, [isConnected, selectedRWA, account, isLiveMode]);
 
+  // Poll live data; every supported token is refreshed in a single multicall
+  useEffect(() => {
+    if (!isConnected || !isLiveMode || !selectedRWA) return;
+
+    const interval = setInterval(fetchPositionData, DEFAULT_SETTINGS.REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [isConnected, isLiveMode, selectedRWA, account, supportedTokens]);
+
+  // Limits, balance, pause and KYC state for validating the form in live mode
+  const [validationContext, setValidationContext] = useState<SupplyBorrowContext | null>(null);
+
+  useEffect(() => {
+    setValidationContext(null);
+    if (!isConnected || !isLiveMode || !selectedRWA) return;
+
+    let cancelled = false;
+    fetchSupplyBorrowContext(account, selectedRWA).then(context => {
+      if (!cancelled) setValidationContext(context);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [isConnected, isLiveMode, selectedRWA, account, positionData, kyc]);
+
+  const fieldErrors = getFieldErrors(
+    getSupplyBorrowFields(collateralAmount, borrowAmount, (isLiveMode && validationContext) || EMPTY_VALIDATION_CONTEXT)
+  );
+  const formBlockers = isLiveMode && validationContext
+    ? getSupplyBorrowBlockers(validationContext, useBundler && bundlerAvailable ? 'bundler' : 'hub')
+    : [];
+
+  // Stale, low-confidence or off-TWAP oracle prices for the selected token
+  const oracleGuard = useOracleGuard(isLiveMode ? selectedRWA : '', account);
+
+  const hasValidationErrors =
+    formBlockers.length > 0 || oracleGuard.blockers.length > 0 || Object.keys(fieldErrors).length > 0;
+
+  // Simulate the form in live mode once the inputs settle
+  useEffect(() => {
+    setSimulation(null);
+    if (!isConnected || !isLiveMode || !selectedRWA || !Number(collateralAmount) || !Number(borrowAmount)) return;
+    // Bundles need the user's signatures before they can be simulated
+    if (useBundler && bundlerAvailable) return;
+
+    const selectedToken = supportedTokens.find(t => t.address === selectedRWA);
+    if (!selectedToken) return;
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      setIsSimulating(true);
+      try {
+        const result = await previewSupplyAndBorrow(
+          selectedRWA,
+          toBigInt(collateralAmount, selectedToken.decimals),
+          toBigInt(borrowAmount, 6),
+          account
+        );
+        if (!cancelled) setSimulation(result);
+      } catch (error) {
+        console.error('Error simulating transaction:', error);
+      } finally {
+        if (!cancelled) setIsSimulating(false);
+      }
+    }, 500);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [isConnected, isLiveMode, selectedRWA, collateralAmount, borrowAmount, account, useBundler, bundlerAvailable]);
+
   // ✅ NEW: Load supported tokens in live mode
   useEffect(() => {
     if (isConnected && isLiveMode) {
       loadSupportedTokens();
     }
-  }, [isConnected, isLiveMode]);
+  }, [isConnected, isLiveMode, chainId]);
 
   const checkConnection = async () => {
     if (window.ethereum) {
@@ -110,7 +246,7 @@ export default function Home() {
           setAccount(accounts[0]);
           setIsConnected(true);
           setChainId(chainId);
-          setSupportedTokens(realRWATokens);
+          setSupportedTokens(getDeployment(chainId).rwaTokens);
         }
       } catch (error) {
         console.error('Error checking connection:', error);
@@ -127,11 +263,12 @@ export default function Home() {
         
         setAccount(accounts[0]);
         setIsConnected(true);
+        setIsReadOnly(false);
         setChainId(chainId);
-        setSupportedTokens(realRWATokens);
+        setSupportedTokens(getDeployment(chainId).rwaTokens);
 
-        // Switch to Sepolia if not already connected
-        if (chainId !== '0xaa36a7') {
+        // Switch to Sepolia if the contracts are not deployed on this chain
+        if (!isDeployedChain(chainId)) {
           await switchToSepolia();
         }
       } catch (error) {
@@ -145,6 +282,28 @@ export default function Home() {
     }
   };
 
+  // Browse an address with the read-only provider; transactions stay disabled
+  const viewAddress = () => {
+    if (!ethers.isAddress(watchAddress)) {
+      alert('Please enter a valid address');
+      return;
+    }
+
+    setAccount(ethers.getAddress(watchAddress));
+    setIsConnected(true);
+    setIsReadOnly(true);
+    setIsLiveMode(true);
+    setChainId(DEFAULT_CHAIN_ID);
+    setSupportedTokens(getDeployment(DEFAULT_CHAIN_ID).rwaTokens);
+  };
+
+  const exitReadOnly = () => {
+    setAccount('');
+    setIsConnected(false);
+    setIsReadOnly(false);
+    setPositionData(null);
+  };
+
   const switchToSepolia = async () => {
     try {
       await window.ethereum.request({
@@ -190,19 +349,13 @@ export default function Home() {
 
   const handleChainChanged = (chainId: string) => {
     setChainId(chainId);
-    window.location.reload(); // Refresh on chain change
+    window.location.reload(); // Refresh on chain change; pending transactions are restored from storage
   };
 
-  // ✅ NEW: Load supported tokens from blockchain
+  // ✅ NEW: Load supported tokens and their configs from the hub, falling back to the manifest
   const loadSupportedTokens = async () => {
-    try {
-      const tokens = await getSupportedTokens();
-      console.log('Supported tokens from contract:', tokens);
-      setSupportedTokens(realRWATokens);
-    } catch (error) {
-      console.error('Error loading supported tokens:', error);
-      setSupportedTokens(realRWATokens);
-    }
+    const tokens = await fetchTokens();
+    setSupportedTokens(tokens && tokens.length > 0 ? tokens : deployment.rwaTokens);
   };
 
   // ✅ NEW: Get test tokens function
@@ -264,10 +417,12 @@ export default function Home() {
         };
         setPositionData(mockPosition);
       } else {
-        // ✅ NEW: Real contract call
-        console.log(`Fetching live position data for ${account} and ${selectedRWA}`);
-        const livePositionData = await fetchLivePositionData(account, selectedRWA);
-        setPositionData(livePositionData);
+        // ✅ Batched: one multicall covers every supported token
+        const liveSnapshot = await fetchLiveSnapshot(
+          account,
+          supportedTokens.map(token => token.address)
+        );
+        setPositionData(liveSnapshot?.tokens[selectedRWA]?.analytics ?? null);
       }
     } catch (error) {
       console.error('Error fetching position data:', error);
@@ -281,7 +436,12 @@ export default function Home() {
       return;
     }
 
-    if (chainId !== '0xaa36a7') {
+    if (isReadOnly) {
+      alert('Connect a wallet to execute transactions');
+      return;
+    }
+
+    if (!isDeployedChain(chainId)) {
       alert('Please switch to Sepolia testnet to use the deployed contracts');
       await switchToSepolia();
       return;
@@ -297,6 +457,12 @@ export default function Home() {
         return;
       }
 
+      const [validationError] = [...formBlockers, ...oracleGuard.blockers, ...Object.values(fieldErrors)];
+      if (validationError) {
+        alert(validationError);
+        return;
+      }
+
       // Convert amounts to proper decimals
       const collateralAmountWei = toBigInt(collateralAmount, selectedToken.decimals);
       const borrowAmountWei = toBigInt(borrowAmount, 6); // USDC has 6 decimals
@@ -304,7 +470,7 @@ export default function Home() {
       if (!isLiveMode) {
         // Demo mode - show transaction details without executing
         alert(`DEMO MODE - Transaction Preview:
-          Contract: ${truncateAddress(CONTRACT_ADDRESS)}
+          Contract: ${truncateAddress(deployment.hub)}
           RWA Token: ${selectedToken.name}
           Collateral: ${collateralAmount} ${selectedToken.symbol}
           Borrow: ${borrowAmount} USDC
@@ -313,14 +479,15 @@ export default function Home() {
       } else {
         // ✅ NEW: Live mode - execute real blockchain transaction
         console.log('Live Mode - Executing real transaction:', {
-          contract: CONTRACT_ADDRESS,
+          contract: useBundler && bundlerAvailable ? deployment.bundler : deployment.hub,
           rwaToken: selectedRWA,
           collateral: collateralAmountWei.toString(),
           borrow: borrowAmountWei.toString(),
           account
         });
 
-        const success = await executeSupplyAndBorrow(
+        const execute = useBundler && bundlerAvailable ? executeBundledSupplyAndBorrow : executeSupplyAndBorrow;
+        const success = await execute(
           selectedRWA,
           collateralAmountWei,
           borrowAmountWei,
@@ -362,11 +529,11 @@ export default function Home() {
   };
 
   const getNetworkStatus = (chainId: string): { isSupported: boolean; color: string; message: string } => {
-    if (chainId === '0xaa36a7') {
+    if (isDeployedChain(chainId)) {
       return {
         isSupported: true,
         color: 'text-green-600',
-        message: '✅ Connected to Sepolia (Contracts Deployed)'
+        message: `✅ Connected to ${getNetworkName(chainId)} (Contracts Deployed)`
       };
     }
     return {
@@ -387,7 +554,9 @@ export default function Home() {
   const getTransactionStatusDisplay = () => {
     if (!transactionStatus.isLoading && transactionStatus.stage === 'idle') return null;
     
-    const stageMessages = {
+    const stageMessages: Partial<Record<typeof transactionStatus.stage, string>> = {
+      simulating: '🔍 Simulating transaction...',
+      signing: '✍️ Sign the request in your wallet...',
       approval: '🔄 Waiting for token approval...',
       transaction: '🔄 Executing transaction...',
       confirming: '⏳ Confirming transaction...',
@@ -439,8 +608,8 @@ export default function Home() {
               <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 text-left">
                 <h3 className="font-semibold text-blue-800 mb-2">🚀 Live on Sepolia</h3>
                 <div className="text-sm text-blue-700 space-y-1">
-                  <div>RWA Hub: <code className="text-xs">{truncateAddress(CONTRACT_ADDRESS)}</code></div>
-                  <div>Oracle: <code className="text-xs">{truncateAddress(RWA_ORACLE_ADDRESS)}</code></div>
+                  <div>RWA Hub: <code className="text-xs">{truncateAddress(deployment.hub)}</code></div>
+                  <div>Oracle: <code className="text-xs">{truncateAddress(deployment.oracle)}</code></div>
                   <div>Network: Sepolia Testnet</div>
                 </div>
               </div>
@@ -466,6 +635,29 @@ export default function Home() {
                 Please install MetaMask or another Web3 wallet
               </p>
             )}
+
+            {/* Read-only access */}
+            <div className="mt-6 pt-6 border-t border-gray-200 text-left">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Or view any address without a wallet
+              </label>
+              <div className="flex space-x-2">
+                <input
+                  type="text"
+                  value={watchAddress}
+                  onChange={(e) => setWatchAddress(e.target.value.trim())}
+                  placeholder="0x..."
+                  className="input-field flex-1 font-mono text-sm"
+                />
+                <button
+                  onClick={viewAddress}
+                  disabled={!watchAddress}
+                  className="bg-gray-700 text-white px-4 py-2 rounded text-sm hover:bg-gray-800 disabled:opacity-50"
+                >
+                  View
+                </button>
+              </div>
+            </div>
           </div>
         </div>
       </>
@@ -473,6 +665,9 @@ export default function Home() {
   }
 
   const networkStatus = getNetworkStatus(chainId);
+  const selectedTokenInfo = supportedTokens.find(t => t.address === selectedRWA);
+  const selectedTokenStatus = getStatus(selectedTokenInfo);
+  const selectedTokenKYC = selectedRWA ? getTokenKYC(selectedRWA) : null;
 
   return (
     <>
@@ -494,31 +689,63 @@ export default function Home() {
                 </p>
               </div>
               
-              {/* Demo/Live Mode Toggle */}
-              <div className="flex items-center space-x-3 bg-gray-800/50 rounded-lg px-4 py-2 border border-gray-700 mt-4 lg:mt-0">
-                <span className={`text-sm font-medium ${!isLiveMode ? 'text-blue-400' : 'text-gray-400'}`}>
-                  Demo
-                </span>
-                <button
-                  onClick={() => setIsLiveMode(!isLiveMode)}
-                  className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
-                    isLiveMode ? 'bg-green-600' : 'bg-gray-600'
-                  }`}
-                >
-                  <span className="sr-only">Toggle demo/live mode</span>
-                  <span
-                    className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
-                      isLiveMode ? 'translate-x-6' : 'translate-x-1'
-                    }`}
-                  />
-                </button>
-                <span className={`text-sm font-medium ${isLiveMode ? 'text-green-400' : 'text-gray-400'}`}>
-                  Live
-                </span>
-                {isLiveMode && (
-                  <div className="flex items-center space-x-1">
-                    <div className="w-2 h-2 bg-green-400 rounded-full animate-pulse"></div>
-                    <span className="text-xs text-green-300">Blockchain</span>
+              <div className="flex items-center space-x-3 mt-4 lg:mt-0">
+                <Link href="/portfolio" className="text-sm text-blue-600 hover:text-blue-800 underline">
+                  Portfolio
+                </Link>
+                <Link href="/oracle" className="text-sm text-blue-600 hover:text-blue-800 underline">
+                  Oracles
+                </Link>
+                <Link href="/liquidator" className="text-sm text-blue-600 hover:text-blue-800 underline">
+                  Liquidator
+                </Link>
+                <Link href="/admin" className="text-sm text-blue-600 hover:text-blue-800 underline">
+                  Admin
+                </Link>
+
+                {/* Transaction History */}
+                {!isReadOnly && (
+                  <button
+                    onClick={() => setIsHistoryOpen(true)}
+                    className="flex items-center space-x-2 bg-gray-800/50 rounded-lg px-4 py-2 border border-gray-700 text-sm font-medium text-gray-200 hover:bg-gray-800/70"
+                  >
+                    <span>🕘 History</span>
+                    {pendingCount > 0 && (
+                      <span className="bg-yellow-400 text-gray-900 text-xs rounded-full px-2 py-0.5">
+                        {pendingCount} pending
+                      </span>
+                    )}
+                  </button>
+                )}
+
+                {/* Demo/Live Mode Toggle */}
+                {!isReadOnly && (
+                  <div className="flex items-center space-x-3 bg-gray-800/50 rounded-lg px-4 py-2 border border-gray-700">
+                    <span className={`text-sm font-medium ${!isLiveMode ? 'text-blue-400' : 'text-gray-400'}`}>
+                      Demo
+                    </span>
+                    <button
+                      onClick={() => setIsLiveMode(!isLiveMode)}
+                      className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                        isLiveMode ? 'bg-green-600' : 'bg-gray-600'
+                      }`}
+                    >
+                      <span className="sr-only">Toggle demo/live mode</span>
+                      <span
+                        className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                          isLiveMode ? 'translate-x-6' : 'translate-x-1'
+                        }`}
+                      />
+                    </button>
+                    <span className={`text-sm font-medium ${isLiveMode ? 'text-green-400' : 'text-gray-400'}`}>
+                      Live
+                    </span>
+                    {isLiveMode && (
+                      <div className="flex items-center space-x-1">
+                        <div className="w-2 h-2 bg-green-400 rounded-full animate-pulse"></div>
+                        <span className="text-xs text-green-300">Blockchain</span>
+                      </div>
+                    )}
                   </div>
                 )}
               </div>
@@ -526,10 +753,20 @@ export default function Home() {
             
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <div className="card p-4">
-                <div className="text-sm text-gray-500">Connected Account</div>
+                <div className="text-sm text-gray-500">
+                  {isReadOnly ? 'Viewing Account (Read-only)' : 'Connected Account'}
+                </div>
                 <div className="font-mono text-sm font-semibold">
                   {truncateAddress(account)}
                 </div>
+                {isReadOnly && (
+                  <button
+                    onClick={exitReadOnly}
+                    className="text-xs text-blue-600 hover:text-blue-800 underline mt-1"
+                  >
+                    Connect a wallet instead
+                  </button>
+                )}
               </div>
               
               <div className="card p-4">
@@ -542,7 +779,7 @@ export default function Home() {
               <div className="card p-4">
                 <div className="text-sm text-gray-500">Mode Status</div>
                 <div className={`text-xs ${isLiveMode ? 'text-green-600' : 'text-blue-600'}`}>
-                  {isLiveMode ? '🟢 Live Blockchain Mode' : '🔵 Demo Mode Active'}
+                  {isReadOnly ? '👁️ Read-only (Public RPC)' : isLiveMode ? '🟢 Live Blockchain Mode' : '🔵 Demo Mode Active'}
                 </div>
               </div>
             </div>
@@ -554,12 +791,12 @@ export default function Home() {
                 <div>
                   <span className="text-blue-600">RWA Liquidity Hub:</span>
                   <br />
-                  <code className="text-xs text-gray-700">{CONTRACT_ADDRESS}</code>
+                  <code className="text-xs text-gray-700">{deployment.hub}</code>
                 </div>
                 <div>
                   <span className="text-blue-600">RWA Oracle:</span>
                   <br />
-                  <code className="text-xs text-gray-700">{RWA_ORACLE_ADDRESS}</code>
+                  <code className="text-xs text-gray-700">{deployment.oracle}</code>
                 </div>
               </div>
             </div>
@@ -639,6 +876,8 @@ export default function Home() {
                       {(Number(formatBigInt(positionData.currentLTV, 4, 4)) * 100).toFixed(1)}% of max 80%
                     </div>
                   </div>
+
+                  <PositionProjection position={positionData} rwaToken={selectedRWA} isLiveMode={isLiveMode} />
                 </div>
               ) : (
                 <div className="text-center text-gray-500 py-12">
@@ -667,16 +906,80 @@ export default function Home() {
                     disabled={!networkStatus.isSupported}
                   >
                     <option value="">Choose RWA Token...</option>
-                    {supportedTokens.map((token, index) => (
-                      <option key={index} value={token.address}>
-                        {token.name} ({token.type})
-                      </option>
-                    ))}
+                    {supportedTokens.map((token, index) => {
+                      const status = getStatus(token);
+                      const labels = [
+                        status && status !== 'active' ? TOKEN_STATUS_LABELS[status] : null,
+                        getKYCLabel(getTokenKYC(token.address))
+                      ].filter(Boolean);
+                      return (
+                        <option key={index} value={token.address}>
+                          {`${token.name} (${token.type})${labels.map(label => ` - ${label}`).join('')}`}
+                        </option>
+                      );
+                    })}
                   </select>
+                  {selectedTokenStatus && selectedTokenStatus !== 'active' && (
+                    <div className="mt-2 bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm text-yellow-800">
+                      {selectedTokenStatus === 'inactive'
+                        ? `⚠️ ${selectedTokenInfo.symbol} is paused by the hub; new supply and borrow will revert.`
+                        : `⚠️ ${selectedTokenInfo.symbol} is not supported by the hub on this network.`}
+                    </div>
+                  )}
+                  {selectedTokenInfo?.config?.isSupported && (
+                    <div className="mt-2 grid grid-cols-2 md:grid-cols-4 gap-2 text-xs text-gray-600">
+                      <div>LLTV: <span className="font-semibold">{formatPercentage(selectedTokenInfo.config.lltv)}</span></div>
+                      <div>
+                        Min collateral:{' '}
+                        <span className="font-semibold">
+                          {formatBigInt(selectedTokenInfo.config.minCollateral, selectedTokenInfo.decimals, 2)}
+                        </span>
+                      </div>
+                      <div>
+                        Max position:{' '}
+                        <span className="font-semibold">
+                          {formatBigInt(selectedTokenInfo.config.maxSinglePosition, selectedTokenInfo.decimals, 0)}
+                        </span>
+                      </div>
+                      <div>
+                        KYC:{' '}
+                        <span className="font-semibold">
+                          {selectedTokenKYC
+                            ? getKYCLabel(selectedTokenKYC) ?? 'Not required'
+                            : selectedTokenInfo.config.requiresKYC ? 'Required' : 'Not required'}
+                        </span>
+                      </div>
+                    </div>
+                  )}
+                  {selectedTokenKYC?.required && !selectedTokenKYC.verified && (
+                    <div className="mt-2 bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm text-yellow-800">
+                      <div>
+                        ⚠️ This hub requires KYC verification to borrow against any token.
+                        {!kyc?.provider && ' The hub was deployed without a KYC provider, so borrowing is unavailable.'}
+                      </div>
+                      {kyc?.provider && !isReadOnly && (
+                        <div className="flex items-center space-x-3 mt-2">
+                          {kycFlow && (
+                            <button
+                              onClick={startVerification}
+                              disabled={isVerifying}
+                              className="bg-yellow-600 text-white px-3 py-1 rounded text-sm hover:bg-yellow-700 disabled:opacity-50"
+                            >
+                              {isVerifying ? 'Verifying...' : kycFlow.label}
+                            </button>
+                          )}
+                          <button onClick={refreshKYC} className="text-sm underline hover:text-yellow-900">
+                            Check again
+                          </button>
+                        </div>
+                      )}
+                      {kycError && <div className="text-red-600 mt-1">{kycError}</div>}
+                    </div>
+                  )}
                 </div>
 
                 {/* ✅ NEW: Get Test Tokens Section */}
-                {selectedRWA && (
+                {selectedRWA && !isReadOnly && (
                   <div className="bg-green-50 border border-green-200 rounded-lg p-4">
                     <h3 className="font-semibold text-green-800 mb-2">🪙 Need Test Tokens?</h3>
                     <p className="text-sm text-green-700 mb-3">
@@ -710,6 +1013,9 @@ export default function Home() {
                     className="input-field"
                     disabled={!networkStatus.isSupported}
                   />
+                  {collateralAmount && fieldErrors.collateralAmount && (
+                    <p className="text-sm text-red-600 mt-1">{fieldErrors.collateralAmount}</p>
+                  )}
                 </div>
 
                 {/* Borrow Amount */}
@@ -725,8 +1031,32 @@ export default function Home() {
                     className="input-field"
                     disabled={!networkStatus.isSupported}
                   />
+                  {borrowAmount && fieldErrors.borrowAmount && (
+                    <p className="text-sm text-red-600 mt-1">{fieldErrors.borrowAmount}</p>
+                  )}
                 </div>
 
+                {/* Execution Route */}
+                {isLiveMode && bundlerAvailable && (
+                  <label className="flex items-start space-x-3 bg-gray-50 border border-gray-200 rounded-lg p-4 text-sm cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={useBundler}
+                      onChange={(e) => setUseBundler(e.target.checked)}
+                      className="mt-1"
+                    />
+                    <span>
+                      <span className="font-medium text-gray-800">Open position directly on Morpho Blue</span>
+                      <span className="block text-xs text-gray-600">
+                        Supplies and borrows in one bundler transaction; the hub never holds your collateral.
+                        Your wallet asks for signatures first, and the transaction is simulated once they are in.
+                        The bundler adapter is authorized on your Morpho account only for this transaction and
+                        revoked at its end; an authorization you granted it before stays in place.
+                      </span>
+                    </span>
+                  </label>
+                )}
+
                 {/* Transaction Summary */}
                 {collateralAmount && borrowAmount && (
                   <div className="bg-gradient-to-r from-blue-50 to-indigo-50 rounded-lg p-4 border border-blue-200">
@@ -746,12 +1076,37 @@ export default function Home() {
                       </div>
                       <div className="border-t pt-2 text-xs">
                         <div>Mode: <span className={isLiveMode ? 'text-green-600' : 'text-blue-600'}>{isLiveMode ? 'Live Blockchain' : 'Demo'}</span></div>
-                        <div>Contract: <code>{truncateAddress(CONTRACT_ADDRESS)}</code></div>
+                        <div>Contract: <code>{truncateAddress(useBundler && deployment.bundler ? deployment.bundler : deployment.hub)}</code></div>
                       </div>
                     </div>
                   </div>
                 )}
 
+                {/* Pre-flight Simulation */}
+                {isLiveMode && (
+                  <TransactionPreview
+                    simulation={transactionStatus.simulation ?? simulation}
+                    collateralSymbol={supportedTokens.find(t => t.address === selectedRWA)?.symbol || 'RWA'}
+                    collateralDecimals={supportedTokens.find(t => t.address === selectedRWA)?.decimals}
+                    isLoading={isSimulating && !transactionStatus.isLoading}
+                  />
+                )}
+
+                {/* Hub State */}
+                {formBlockers.length > 0 && (
+                  <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700 space-y-1">
+                    {formBlockers.map(blocker => <div key={blocker}>⛔ {blocker}</div>)}
+                  </div>
+                )}
+
+                {/* Oracle Price */}
+                <OracleGuardNotice
+                  guard={oracleGuard.guard}
+                  isUpdating={oracleGuard.isUpdating}
+                  updateError={oracleGuard.updateError}
+                  onUpdate={oracleGuard.updatePrice}
+                />
+
                 {/* ✅ NEW: Transaction Status Display */}
                 {getTransactionStatusDisplay()}
 
@@ -761,21 +1116,27 @@ export default function Home() {
                   disabled={
                     isLoading || 
                     transactionStatus.isLoading || 
+                    isReadOnly ||
                     !networkStatus.isSupported || 
                     !selectedRWA || 
                     !collateralAmount || 
-                    !borrowAmount
+                    !borrowAmount ||
+                    hasValidationErrors
                   }
                   className="btn-primary w-full"
                 >
                   {isLoading || transactionStatus.isLoading ? (
                     <span className="flex items-center justify-center">
                       <div className="spinner mr-2"></div>
-                      {transactionStatus.stage === 'approval' ? 'Approving Token...' :
+                      {transactionStatus.stage === 'simulating' ? 'Simulating...' :
+                       transactionStatus.stage === 'signing' ? 'Awaiting Signature...' :
+                       transactionStatus.stage === 'approval' ? 'Approving Token...' :
                        transactionStatus.stage === 'transaction' ? 'Executing...' :
                        transactionStatus.stage === 'confirming' ? 'Confirming...' :
                        'Processing...'}
                     </span>
+                  ) : isReadOnly ? (
+                    'Connect Wallet to Transact'
                   ) : !networkStatus.isSupported ? (
                     'Switch to Sepolia First'
                   ) : isLiveMode ? (
@@ -788,6 +1149,36 @@ export default function Home() {
             </div>
           </div>
 
+          {/* Manage Position */}
+          {isLiveMode && selectedRWA && supportedTokens.some(t => t.address === selectedRWA) && (
+            <div className="mt-8 grid grid-cols-1 xl:grid-cols-2 gap-8">
+              <AddCollateralPanel
+                token={supportedTokens.find(t => t.address === selectedRWA)}
+                account={account}
+                disabled={isReadOnly || !networkStatus.isSupported}
+                onComplete={fetchPositionData}
+              />
+              <RepayWithdrawPanel
+                token={supportedTokens.find(t => t.address === selectedRWA)}
+                account={account}
+                disabled={isReadOnly || !networkStatus.isSupported}
+                onComplete={fetchPositionData}
+              />
+            </div>
+          )}
+
+          {/* Stress Test */}
+          {positionData && selectedRWA && supportedTokens.some(t => t.address === selectedRWA) && (
+            <div className="mt-8">
+              <StressTestPanel
+                position={positionData}
+                token={supportedTokens.find(t => t.address === selectedRWA)}
+                account={account}
+                isLiveMode={isLiveMode}
+              />
+            </div>
+          )}
+
           {/* Safety Notice */}
           <div className="mt-8 bg-gradient-to-r from-yellow-50 to-orange-50 border border-yellow-200 rounded-xl p-6 animate-fade-in">
             <div className="flex">
@@ -816,6 +1207,13 @@ export default function Home() {
           </div>
         </div>
       </div>
+
+      <TransactionHistoryDrawer
+        isOpen={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+        transactions={transactions}
+        onClear={clearHistory}
+      />
     </>
   );
 }
\ No newline at end of file
@@ -0,0 +1,341 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { DEFAULT_SETTINGS, formatBigInt, formatCurrency, getHealthFactorStatus, truncateAddress } from '@/utils';
+import { useWeb3 } from '@/hooks/useWeb3';
+import TransactionPreview from '@/components/TransactionPreview';
+import { LiquidationCandidate, LiquidationQuote } from '@/utils/liquidation';
+import { DEFAULT_CHAIN_ID, getRegistry, requireRegistry } from '@/utils/registry';
+
+const STAGE_LABELS = {
+  simulating: 'Simulating...',
+  approval: 'Approving USDC...',
+  transaction: 'Executing...',
+  confirming: 'Confirming...'
+} as const;
+
+// Profit can be negative, which formatCurrency does not handle
+const formatSignedUSD = (value: bigint): string =>
+  value < 0n ? `-${formatCurrency(-value, 18)}` : formatCurrency(value, 18);
+
+const candidateKey = ({ borrower, rwaToken }: LiquidationCandidate) => `${borrower}:${rwaToken}`;
+
+// Where the hub's health factor and Morpho's own check disagree; Morpho decides
+const disagreement = ({ hubLiquidatable, morphoLiquidatable }: LiquidationCandidate): string | null => {
+  if (hubLiquidatable && !morphoLiquidatable) return 'Below the hub threshold, but healthy on Morpho Blue';
+  if (morphoLiquidatable && !hubLiquidatable) return 'Liquidatable on Morpho Blue, above the hub threshold';
+  return null;
+};
+
+export default function Liquidator() {
+  const [account, setAccount] = useState<string>('');
+  const [chainId, setChainId] = useState<string>('');
+
+  const [candidates, setCandidates] = useState<LiquidationCandidate[]>([]);
+  const [isScanning, setIsScanning] = useState<boolean>(false);
+  const [lastScan, setLastScan] = useState<number | null>(null);
+
+  const [selected, setSelected] = useState<LiquidationCandidate | null>(null);
+  const [quote, setQuote] = useState<LiquidationQuote | null>(null);
+  const [isQuoting, setIsQuoting] = useState<boolean>(false);
+  const [nativePriceUSD, setNativePriceUSD] = useState<string>(DEFAULT_SETTINGS.NATIVE_PRICE_USD.toString());
+
+  const {
+    transactionStatus,
+    fetchLiquidationCandidates,
+    fetchLiquidationQuote,
+    executeLiquidation,
+    resetTransactionStatus
+  } = useWeb3();
+
+  const deployment = (chainId && getRegistry(chainId)) || requireRegistry(DEFAULT_CHAIN_ID);
+  const tokenFor = (address: string) =>
+    deployment.rwaTokens.find(token => token.address.toLowerCase() === address.toLowerCase());
+
+  useEffect(() => {
+    if (!window.ethereum) return;
+
+    window.ethereum.request({ method: 'eth_accounts' }).then((accounts: string[]) => setAccount(accounts[0] || ''));
+    window.ethereum.request({ method: 'eth_chainId' }).then(setChainId);
+
+    const handleAccountsChanged = (accounts: string[]) => setAccount(accounts[0] || '');
+    const handleChainChanged = () => window.location.reload();
+    window.ethereum.on('accountsChanged', handleAccountsChanged);
+    window.ethereum.on('chainChanged', handleChainChanged);
+
+    return () => {
+      window.ethereum.removeListener('accountsChanged', handleAccountsChanged);
+      window.ethereum.removeListener('chainChanged', handleChainChanged);
+    };
+  }, []);
+
+  const connectWallet = async () => {
+    if (!window.ethereum) {
+      alert('Please install MetaMask or another Web3 wallet');
+      return;
+    }
+    try {
+      const accounts = await window.ethereum.request({ method: 'eth_requestAccounts' });
+      setAccount(accounts[0]);
+    } catch (error) {
+      console.error('Error connecting wallet:', error);
+    }
+  };
+
+  const scan = useCallback(async () => {
+    setIsScanning(true);
+    try {
+      setCandidates(await fetchLiquidationCandidates());
+      setLastScan(Date.now());
+    } finally {
+      setIsScanning(false);
+    }
+  }, [fetchLiquidationCandidates]);
+
+  useEffect(() => {
+    scan();
+    const interval = setInterval(scan, DEFAULT_SETTINGS.REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [scan]);
+
+  // Re-quote the selected position when it, the liquidator or the gas token price changes
+  useEffect(() => {
+    setQuote(null);
+    if (!selected) return;
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      setIsQuoting(true);
+      try {
+        const result = await fetchLiquidationQuote(selected.borrower, selected.rwaToken, {
+          liquidator: account || undefined,
+          nativePriceUSD: Number(nativePriceUSD) || DEFAULT_SETTINGS.NATIVE_PRICE_USD
+        });
+        if (!cancelled) setQuote(result);
+      } finally {
+        if (!cancelled) setIsQuoting(false);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [selected, account, nativePriceUSD]);
+
+  const select = (candidate: LiquidationCandidate) => {
+    resetTransactionStatus();
+    setSelected(candidate);
+  };
+
+  const handleLiquidate = async () => {
+    if (!quote) return;
+    const success = await executeLiquidation(quote);
+    if (success) {
+      setSelected(null);
+      await scan();
+    }
+  };
+
+  const selectedToken = selected ? tokenFor(selected.rwaToken) : undefined;
+  const isBusy = transactionStatus.isLoading;
+
+  return (
+    <>
+      <Head>
+        <title>Liquidator - Morpho RWA Liquidity Hub</title>
+      </Head>
+
+      <div className="min-h-screen p-6">
+        <div className="max-w-6xl mx-auto">
+          <header className="mb-8 animate-slide-in flex flex-col lg:flex-row lg:items-center lg:justify-between">
+            <div>
+              <h1 className="text-4xl font-bold text-gradient mb-2">Liquidator Console</h1>
+              <p className="text-gray-600">
+                Positions below the hub&apos;s liquidation threshold or unhealthy on Morpho Blue, on {deployment.network}
+              </p>
+            </div>
+            <div className="flex items-center space-x-3 mt-4 lg:mt-0">
+              <Link href="/" className="text-sm text-blue-600 hover:text-blue-800 underline">
+                Back to dashboard
+              </Link>
+              {account ? (
+                <span className="card px-4 py-2 font-mono text-sm">{truncateAddress(account)}</span>
+              ) : (
+                <button onClick={connectWallet} className="wallet-button">Connect Wallet</button>
+              )}
+            </div>
+          </header>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            {/* Liquidatable Positions */}
+            <div className="card animate-fade-in">
+              <div className="flex items-center justify-between mb-6">
+                <h2 className="text-2xl font-semibold">Liquidatable Positions</h2>
+                <button
+                  onClick={scan}
+                  disabled={isScanning}
+                  className="text-sm text-blue-600 hover:text-blue-800 underline disabled:opacity-50"
+                >
+                  {isScanning ? 'Scanning...' : 'Rescan'}
+                </button>
+              </div>
+
+              {candidates.length === 0 ? (
+                <div className="text-sm text-gray-500 text-center py-8">
+                  {isScanning && !lastScan ? 'Scanning borrowers...' : 'No liquidatable positions'}
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {candidates.map(candidate => {
+                    const token = tokenFor(candidate.rwaToken);
+                    const status = getHealthFactorStatus(candidate.analytics.healthFactor);
+                    const isSelected = selected && candidateKey(selected) === candidateKey(candidate);
+                    const mismatch = disagreement(candidate);
+
+                    return (
+                      <button
+                        key={candidateKey(candidate)}
+                        onClick={() => select(candidate)}
+                        className={`w-full text-left border rounded-lg p-3 text-sm ${
+                          isSelected ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                        }`}
+                      >
+                        <div className="flex items-center justify-between mb-1">
+                          <span className="font-mono font-medium">{truncateAddress(candidate.borrower)}</span>
+                          <span className={`font-semibold ${status.color}`}>
+                            HF {formatBigInt(candidate.analytics.healthFactor, 4, 2)}
+                          </span>
+                        </div>
+                        <div className="flex justify-between text-xs text-gray-500">
+                          <span>
+                            {formatBigInt(candidate.analytics.collateralAmount, token?.decimals ?? 18, 4)}{' '}
+                            {token?.symbol ?? truncateAddress(candidate.rwaToken)}
+                          </span>
+                          <span>Debt {formatCurrency(candidate.analytics.borrowedValueUSD, 18)}</span>
+                        </div>
+                        <div className="flex justify-between text-xs text-gray-500 mt-1">
+                          <span>Morpho HF {formatBigInt(candidate.morphoHealthFactor, 18, 2)}</span>
+                          {mismatch && <span className="text-yellow-700">⚠️ {mismatch}</span>}
+                        </div>
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+
+            {/* Liquidation Quote */}
+            <div className="card animate-fade-in">
+              <h2 className="text-2xl font-semibold mb-6">Liquidation</h2>
+
+              {!selected ? (
+                <div className="text-sm text-gray-500 text-center py-8">Select a position to quote</div>
+              ) : (
+                <div className="space-y-6">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Gas token price (USD)
+                    </label>
+                    <input
+                      type="number"
+                      value={nativePriceUSD}
+                      onChange={(e) => setNativePriceUSD(e.target.value)}
+                      className="input-field"
+                    />
+                  </div>
+
+                  {isQuoting && !quote && (
+                    <div className="flex items-center text-sm text-gray-500">
+                      <div className="spinner mr-2"></div>
+                      Quoting...
+                    </div>
+                  )}
+
+                  {quote && (
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="stat-card">
+                        <div className="text-sm text-gray-600 mb-1">Collateral Seized</div>
+                        <div className="text-lg font-bold">
+                          {formatBigInt(quote.seizedAssets, selectedToken?.decimals ?? 18, 4)} {selectedToken?.symbol}
+                        </div>
+                        <div className="text-xs text-gray-500">{formatCurrency(quote.seizedValueUSD, 18)}</div>
+                      </div>
+                      <div className="stat-card">
+                        <div className="text-sm text-gray-600 mb-1">Debt Repaid</div>
+                        <div className="text-lg font-bold">{formatBigInt(quote.repaidAssets, 6, 2)} USDC</div>
+                        <div className="text-xs text-gray-500">{quote.repaidShares.toString()} shares</div>
+                      </div>
+                      <div className="stat-card">
+                        <div className="text-sm text-gray-600 mb-1">Incentive</div>
+                        <div className="text-lg font-bold">{formatBigInt(quote.liquidationIncentiveFactor, 18, 4)}x</div>
+                        <div className="text-xs text-gray-500">
+                          Gas {formatCurrency(quote.gasCostUSD, 18)} ({quote.gasLimit.toString()} units)
+                        </div>
+                      </div>
+                      <div className="stat-card">
+                        <div className="text-sm text-gray-600 mb-1">Net Profit</div>
+                        <div className={`text-lg font-bold ${quote.profitUSD > 0n ? 'text-green-600' : 'text-red-600'}`}>
+                          {formatSignedUSD(quote.profitUSD)}
+                        </div>
+                      </div>
+                    </div>
+                  )}
+
+                  {quote?.morphoHealthy && (
+                    <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm text-yellow-800">
+                      ⚠️ Morpho Blue considers this position healthy, so its liquidate() reverts even
+                      though the hub&apos;s health factor is below its threshold.
+                    </div>
+                  )}
+
+                  {quote?.badDebt && (
+                    <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm text-yellow-800">
+                      ⚠️ The collateral does not cover the debt. All of it is seized and Morpho
+                      writes off the remaining debt as bad debt.
+                    </div>
+                  )}
+
+                  <TransactionPreview
+                    simulation={transactionStatus.simulation}
+                    collateralSymbol={selectedToken?.symbol ?? ''}
+                    collateralDecimals={selectedToken?.decimals ?? 18}
+                  />
+
+                  {transactionStatus.stage === 'success' && (
+                    <div className="p-3 rounded-lg text-sm bg-green-50 text-green-800 border border-green-200 flex justify-between">
+                      <span>✅ Position liquidated!</span>
+                      <button onClick={resetTransactionStatus} className="underline">Dismiss</button>
+                    </div>
+                  )}
+                  {transactionStatus.stage === 'error' && (
+                    <div className="p-3 rounded-lg text-sm bg-red-50 text-red-800 border border-red-200">
+                      ❌ {transactionStatus.error}
+                    </div>
+                  )}
+
+                  <button
+                    onClick={handleLiquidate}
+                    disabled={!account || !quote || quote.morphoHealthy || isBusy}
+                    className="btn-primary w-full"
+                  >
+                    {isBusy ? (
+                      <span className="flex items-center justify-center">
+                        <div className="spinner mr-2"></div>
+                        {STAGE_LABELS[transactionStatus.stage as keyof typeof STAGE_LABELS] || 'Processing...'}
+                      </span>
+                    ) : !account ? (
+                      'Connect a wallet to liquidate'
+                    ) : (
+                      'Liquidate on Morpho Blue'
+                    )}
+                  </button>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
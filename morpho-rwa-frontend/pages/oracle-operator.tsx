@@ -0,0 +1,356 @@
+import React, { useState, useEffect } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { ethers } from 'ethers';
+import { formatBigInt, formatDuration, toBigInt, truncateAddress } from '@/utils';
+import { useWeb3 } from '@/hooks/useWeb3';
+import { useOracleOperator } from '@/hooks/useOracleOperator';
+import SafeBatchPanel from '@/components/SafeBatchPanel';
+import { MIN_CONFIDENCE, ORACLE_PRICE_DECIMALS } from '@/utils/oracle';
+import { formatUpdateRecord, OracleUpdateCandidate, OracleUpdateRoute, validateManualPrice } from '@/utils/oracleOperator';
+import { DEFAULT_CHAIN_ID, getRegistry, requireRegistry } from '@/utils/registry';
+import { queueSafeTransaction, toSafeContractTransactions } from '@/utils/safe';
+
+const ROUTE_LABELS: Record<OracleUpdateRoute, string> = {
+  chainlink: 'Chainlink',
+  backup: 'Backup feed',
+  manual: 'Manual',
+  none: 'No source'
+};
+
+interface ManualPriceFormProps {
+  candidate: OracleUpdateCandidate;
+  disabled: boolean;
+  onSubmit: (price: bigint, confidence: bigint) => void;
+}
+
+function ManualPriceForm({ candidate, disabled, onSubmit }: ManualPriceFormProps) {
+  const [price, setPrice] = useState<string>('');
+  const [confidence, setConfidence] = useState<string>('90');
+
+  const priceWei = toBigInt(price, ORACLE_PRICE_DECIMALS);
+  const confidenceValue = /^\d+$/.test(confidence) ? BigInt(confidence) : 0n;
+  const error = price ? validateManualPrice(candidate.config, priceWei, confidenceValue) : null;
+
+  return (
+    <div className="flex flex-wrap items-start gap-2">
+      <input
+        type="number"
+        value={price}
+        onChange={(e) => setPrice(e.target.value)}
+        placeholder="Price (USD)"
+        className="input-field w-32 py-1 text-sm"
+        disabled={disabled}
+      />
+      <input
+        type="number"
+        value={confidence}
+        onChange={(e) => setConfidence(e.target.value)}
+        placeholder="Confidence"
+        min={Number(MIN_CONFIDENCE)}
+        max={100}
+        className="input-field w-24 py-1 text-sm"
+        disabled={disabled}
+      />
+      <button
+        onClick={() => onSubmit(priceWei, confidenceValue)}
+        disabled={disabled || !price || !!error}
+        className="text-xs px-3 py-1 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+      >
+        Submit
+      </button>
+      {error && <div className="w-full text-xs text-red-600">{error}</div>}
+    </div>
+  );
+}
+
+export default function OracleOperator() {
+  const [account, setAccount] = useState<string>('');
+  const [chainId, setChainId] = useState<string>('');
+  const [symbols, setSymbols] = useState<Record<string, string>>({});
+  const [selected, setSelected] = useState<string[]>([]);
+  const [updater, setUpdater] = useState<string>('');
+
+  const { fetchTokens } = useWeb3();
+  const operator = useOracleOperator(account, chainId);
+
+  const deployment = (chainId && getRegistry(chainId)) || requireRegistry(DEFAULT_CHAIN_ID);
+
+  useEffect(() => {
+    if (!window.ethereum) return;
+
+    window.ethereum.request({ method: 'eth_accounts' }).then((accounts: string[]) => setAccount(accounts[0] || ''));
+    window.ethereum.request({ method: 'eth_chainId' }).then(setChainId);
+
+    const handleAccountsChanged = (accounts: string[]) => setAccount(accounts[0] || '');
+    const handleChainChanged = () => window.location.reload();
+    window.ethereum.on('accountsChanged', handleAccountsChanged);
+    window.ethereum.on('chainChanged', handleChainChanged);
+
+    return () => {
+      window.ethereum.removeListener('accountsChanged', handleAccountsChanged);
+      window.ethereum.removeListener('chainChanged', handleChainChanged);
+    };
+  }, []);
+
+  useEffect(() => {
+    fetchTokens().then(tokens => {
+      const list = tokens || deployment.rwaTokens;
+      setSymbols(Object.fromEntries(list.map(token => [token.address.toLowerCase(), token.symbol])));
+    });
+  }, [deployment, fetchTokens]);
+
+  // Preselect the Chainlink-fed tokens that are due
+  useEffect(() => {
+    setSelected(
+      (operator.candidates || [])
+        .filter(candidate => candidate.needsUpdate && candidate.route === 'chainlink')
+        .map(candidate => candidate.token)
+    );
+  }, [operator.candidates]);
+
+  const connectWallet = async () => {
+    if (!window.ethereum) {
+      alert('Please install MetaMask or another Web3 wallet');
+      return;
+    }
+    try {
+      const accounts = await window.ethereum.request({ method: 'eth_requestAccounts' });
+      setAccount(accounts[0]);
+    } catch (error) {
+      console.error('Error connecting wallet:', error);
+    }
+  };
+
+  const symbolOf = (token: string) => symbols[token.toLowerCase()] || truncateAddress(token);
+  const toggleSelected = (token: string) =>
+    setSelected(prev => (prev.includes(token) ? prev.filter(t => t !== token) : [...prev, token]));
+
+  const { candidates, role, isSubmitting } = operator;
+  const canUpdate = !!role && (role.isOwner || role.isUpdater);
+
+  // A Safe owner signs elsewhere: queue the call for the batch of the oracle's owner
+  const changeUpdater = (authorized: boolean) => {
+    if (!role) return;
+    if (role.isOwner) {
+      operator.setUpdater(updater, authorized);
+      return;
+    }
+    toSafeContractTransactions(deployment, { type: 'setOracleUpdater', updater: ethers.getAddress(updater), authorized })
+      .forEach(entry => queueSafeTransaction(deployment.chainId, role.owner, entry));
+    setUpdater('');
+  };
+
+  const dueCount = candidates?.filter(candidate => candidate.needsUpdate).length ?? 0;
+  const now = Math.floor(Date.now() / 1000);
+
+  return (
+    <>
+      <Head>
+        <title>Oracle Operator - Morpho RWA Liquidity Hub</title>
+      </Head>
+
+      <div className="min-h-screen p-6">
+        <div className="max-w-6xl mx-auto">
+          <header className="mb-8 animate-slide-in flex flex-col lg:flex-row lg:items-center lg:justify-between">
+            <div>
+              <h1 className="text-4xl font-bold text-gradient mb-2">Oracle Operator</h1>
+              <p className="text-gray-600">Refresh and appraise RWA prices on {deployment.network}</p>
+            </div>
+            <div className="flex items-center space-x-3 mt-4 lg:mt-0">
+              <Link href="/oracle" className="text-sm text-blue-600 hover:text-blue-800 underline">
+                Oracle prices
+              </Link>
+              <Link href="/" className="text-sm text-blue-600 hover:text-blue-800 underline">
+                Back to dashboard
+              </Link>
+              {account ? (
+                <span className="card px-4 py-2 font-mono text-sm">{truncateAddress(account)}</span>
+              ) : (
+                <button onClick={connectWallet} className="wallet-button">Connect Wallet</button>
+              )}
+            </div>
+          </header>
+
+          <div className="space-y-8">
+            {/* Role */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="stat-card">
+                <div className="text-sm text-gray-600 mb-1">Your Role</div>
+                <div className="text-xl font-bold">
+                  {!account ? 'Not connected' : !role ? '—' : role.isOwner ? 'Owner' : role.isUpdater ? 'Authorized updater' : 'None'}
+                </div>
+              </div>
+              <div className="stat-card">
+                <div className="text-sm text-gray-600 mb-1">Due for Update</div>
+                <div className={`text-xl font-bold ${dueCount > 0 ? 'text-yellow-600' : 'text-green-600'}`}>
+                  {candidates ? `${dueCount} / ${candidates.length}` : '—'}
+                </div>
+              </div>
+              <div className="stat-card flex items-center justify-center">
+                <button onClick={operator.refresh} disabled={operator.isLoading} className="btn-primary">
+                  {operator.isLoading ? 'Refreshing...' : 'Refresh'}
+                </button>
+              </div>
+            </div>
+
+            {operator.error && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">❌ {operator.error}</div>
+            )}
+
+            {/* Tokens */}
+            <div className="card animate-fade-in">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-2xl font-semibold">Oracle Tokens</h2>
+                <button
+                  onClick={() => operator.batchUpdate(selected)}
+                  disabled={isSubmitting || selected.length === 0}
+                  className="btn-primary"
+                >
+                  {isSubmitting ? 'Submitting...' : `Batch update ${selected.length} selected`}
+                </button>
+              </div>
+
+              {!candidates ? (
+                <div className="text-center text-gray-500 py-8">
+                  {operator.isLoading ? 'Reading oracle...' : 'Could not read the oracle'}
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-600 border-b">
+                        <th className="py-2 pr-2"></th>
+                        <th className="py-2 pr-4">Token</th>
+                        <th className="py-2 pr-4">Source</th>
+                        <th className="py-2 pr-4">Price</th>
+                        <th className="py-2 pr-4">Confidence</th>
+                        <th className="py-2 pr-4">Updated</th>
+                        <th className="py-2">Action</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {candidates.map(candidate => (
+                        <tr key={candidate.token} className="border-b last:border-0 align-top">
+                          <td className="py-2 pr-2">
+                            {candidate.route === 'chainlink' && (
+                              <input
+                                type="checkbox"
+                                checked={selected.includes(candidate.token)}
+                                onChange={() => toggleSelected(candidate.token)}
+                                disabled={isSubmitting}
+                              />
+                            )}
+                          </td>
+                          <td className="py-2 pr-4">
+                            <div className="font-medium">{symbolOf(candidate.token)}</div>
+                            {candidate.needsUpdate && (
+                              <span className="text-xs px-2 py-0.5 rounded bg-yellow-100 text-yellow-800">Update due</span>
+                            )}
+                          </td>
+                          <td className="py-2 pr-4">{ROUTE_LABELS[candidate.route]}</td>
+                          <td className="py-2 pr-4">
+                            {candidate.metadata ? `$${formatBigInt(candidate.metadata.price, ORACLE_PRICE_DECIMALS, 2)}` : '—'}
+                          </td>
+                          <td className="py-2 pr-4">
+                            {candidate.metadata ? `${candidate.metadata.confidence.toString()}/100` : '—'}
+                          </td>
+                          <td className="py-2 pr-4">
+                            {candidate.metadata
+                              ? `${formatDuration(Math.max(0, now - Number(candidate.metadata.timestamp)))} ago`
+                              : 'Never'}
+                          </td>
+                          <td className="py-2">
+                            {candidate.config?.requiresManualUpdate && canUpdate ? (
+                              <ManualPriceForm
+                                candidate={candidate}
+                                disabled={isSubmitting}
+                                onSubmit={(price, confidence) => operator.updateManually(candidate.token, price, confidence)}
+                              />
+                            ) : candidate.config?.requiresManualUpdate ? (
+                              <span className="text-xs text-gray-500">Authorized updaters only</span>
+                            ) : candidate.config?.backupFeed && candidate.config.backupFeed !== ethers.ZeroAddress ? (
+                              <button
+                                onClick={() => operator.updateFromBackup(candidate.token)}
+                                disabled={isSubmitting}
+                                className="text-xs text-blue-600 hover:text-blue-800 underline"
+                              >
+                                Use backup feed
+                              </button>
+                            ) : null}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+
+            {/* Updaters */}
+            {(role?.isOwner || role?.ownerIsContract) && (
+              <div className="card animate-fade-in">
+                <h2 className="text-2xl font-semibold mb-4">Authorized Updaters</h2>
+                {!role.isOwner && (
+                  <p className="text-sm text-gray-600 mb-3">
+                    The oracle owner is a multisig, so changes are added to its Safe batch below, which
+                    the <Link href="/admin" className="text-blue-600 hover:text-blue-800 underline">admin page</Link> also shows.
+                  </p>
+                )}
+                <div className="flex flex-wrap gap-2">
+                  <input
+                    type="text"
+                    value={updater}
+                    onChange={(e) => setUpdater(e.target.value)}
+                    placeholder="Updater address"
+                    className="input-field flex-1 min-w-[16rem] font-mono text-sm"
+                    disabled={isSubmitting}
+                  />
+                  <button
+                    onClick={() => changeUpdater(true)}
+                    disabled={isSubmitting || !ethers.isAddress(updater)}
+                    className="btn-primary"
+                  >
+                    Authorize
+                  </button>
+                  <button
+                    onClick={() => changeUpdater(false)}
+                    disabled={isSubmitting || !ethers.isAddress(updater)}
+                    className="px-4 py-2 rounded-lg border border-red-300 text-red-700 hover:bg-red-50 disabled:opacity-50"
+                  >
+                    Revoke
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {role?.ownerIsContract && !role.isOwner && (
+              <SafeBatchPanel registry={deployment} safeAddress={role.owner} contracts={['oracle']} />
+            )}
+
+            {/* Update Log */}
+            <div className="card animate-fade-in">
+              <h2 className="text-2xl font-semibold mb-4">Update Log</h2>
+              {operator.log.length === 0 ? (
+                <div className="text-sm text-gray-500">No updates sent from this browser yet</div>
+              ) : (
+                <div className="space-y-3">
+                  {operator.log.map(record => (
+                    <pre
+                      key={record.txHash}
+                      className={`text-xs whitespace-pre-wrap rounded-lg p-3 ${
+                        record.status === 'confirmed' ? 'bg-gray-50' : 'bg-red-50 text-red-800'
+                      }`}
+                    >
+                      {formatUpdateRecord(record, symbols).join('\n')}
+                    </pre>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
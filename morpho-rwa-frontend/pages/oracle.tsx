@@ -0,0 +1,222 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { ethers } from 'ethers';
+import { DEFAULT_SETTINGS, formatBigInt, formatDuration, truncateAddress } from '@/utils';
+import { useWeb3 } from '@/hooks/useWeb3';
+import PriceHistoryChart from '@/components/PriceHistoryChart';
+import { MIN_CONFIDENCE, ORACLE_PRICE_DECIMALS, OracleDashboard, OracleTokenReport } from '@/utils/oracle';
+import { DEFAULT_CHAIN_ID, getRegistry, requireRegistry } from '@/utils/registry';
+import { DeploymentToken } from '@/types';
+
+const formatOraclePrice = (price: bigint | null): string =>
+  price === null ? '—' : `$${formatBigInt(price, ORACLE_PRICE_DECIMALS, 2)}`;
+
+const getConfidenceColor = (confidence: bigint): string =>
+  confidence >= 80n ? 'text-green-600' : confidence >= MIN_CONFIDENCE ? 'text-yellow-600' : 'text-red-600';
+
+function OracleTokenCard({ token, report }: { token: DeploymentToken; report: OracleTokenReport }) {
+  const { config, metadata, hubPrice } = report;
+
+  return (
+    <div className="card animate-fade-in">
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h3 className="text-xl font-semibold">{token.symbol}</h3>
+          <div className="text-xs text-gray-500">{token.name}</div>
+        </div>
+        <div className="flex flex-wrap justify-end gap-2 text-xs">
+          {config && !config.isActive && (
+            <span className="px-2 py-1 rounded bg-gray-100 text-gray-700">Inactive</span>
+          )}
+          {report.isStale && <span className="px-2 py-1 rounded bg-red-100 text-red-700">Stale</span>}
+          {report.needsUpdate && <span className="px-2 py-1 rounded bg-yellow-100 text-yellow-800">Update due</span>}
+          {config?.requiresManualUpdate && (
+            <span className="px-2 py-1 rounded bg-blue-100 text-blue-700">Manual updates</span>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+        <div className="stat-card">
+          <div className="text-sm text-gray-600 mb-1">Spot</div>
+          <div className="text-xl font-bold">{formatOraclePrice(report.spotPrice)}</div>
+          {report.spotError && <div className="text-xs text-red-600 mt-1">{report.spotError}</div>}
+        </div>
+        <div className="stat-card">
+          <div className="text-sm text-gray-600 mb-1">TWAP</div>
+          <div className="text-xl font-bold">{formatOraclePrice(report.twapPrice)}</div>
+          {report.twapDeviationBps !== null && (
+            <div className="text-xs text-gray-500 mt-1">
+              Spot {formatBigInt(report.twapDeviationBps, 2, 2)}% from TWAP
+            </div>
+          )}
+        </div>
+        <div className="stat-card">
+          <div className="text-sm text-gray-600 mb-1">Confidence</div>
+          <div className={`text-xl font-bold ${metadata ? getConfidenceColor(metadata.confidence) : ''}`}>
+            {metadata ? `${metadata.confidence.toString()}/100` : '—'}
+          </div>
+          <div className="text-xs text-gray-500 mt-1">Minimum {MIN_CONFIDENCE.toString()}</div>
+        </div>
+        <div className="stat-card">
+          <div className="text-sm text-gray-600 mb-1">Last Update</div>
+          <div className={`text-xl font-bold ${report.isStale ? 'text-red-600' : ''}`}>
+            {report.age === null ? '—' : `${formatDuration(report.age)} ago`}
+          </div>
+          {config && (
+            <div className="text-xs text-gray-500 mt-1">Max age {formatDuration(Number(config.maxPriceAge))}</div>
+          )}
+        </div>
+      </div>
+
+      <PriceHistoryChart history={report.history} twapPrice={report.twapPrice} />
+
+      {/* How the hub values this collateral */}
+      <div className="mt-4 bg-gray-50 rounded-lg p-3 text-sm text-gray-700">
+        {hubPrice ? (
+          <>
+            The hub values {token.symbol} collateral at{' '}
+            <span className="font-semibold">${formatBigInt(hubPrice.price, Number(hubPrice.feedDecimals), 2)}</span>{' '}
+            per token, from its configured price feed.
+          </>
+        ) : (
+          <>
+            The hub&apos;s price feed for {token.symbol} could not be read.
+            {report.hubPriceError && <div className="text-xs text-red-600 mt-1">{report.hubPriceError}</div>}
+          </>
+        )}
+        {config && config.chainlinkFeed !== ethers.ZeroAddress && (
+          <div className="text-xs text-gray-500 mt-1">
+            Oracle sources: Chainlink <code>{truncateAddress(config.chainlinkFeed)}</code>
+            {config.backupFeed !== ethers.ZeroAddress && <>, backup <code>{truncateAddress(config.backupFeed)}</code></>}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function Oracle() {
+  const [chainId, setChainId] = useState<string>('');
+  const [tokens, setTokens] = useState<DeploymentToken[]>([]);
+  const [dashboard, setDashboard] = useState<OracleDashboard | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+
+  const { fetchTokens, fetchOracleDashboard } = useWeb3();
+
+  const deployment = (chainId && getRegistry(chainId)) || requireRegistry(DEFAULT_CHAIN_ID);
+
+  useEffect(() => {
+    if (!window.ethereum) return;
+
+    window.ethereum.request({ method: 'eth_chainId' }).then(setChainId);
+
+    const handleChainChanged = () => window.location.reload();
+    window.ethereum.on('chainChanged', handleChainChanged);
+
+    return () => {
+      window.ethereum.removeListener('chainChanged', handleChainChanged);
+    };
+  }, []);
+
+  const loadDashboard = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const discovered = (await fetchTokens()) || deployment.rwaTokens;
+      setTokens(discovered);
+      setDashboard(await fetchOracleDashboard(discovered.map(token => token.address)));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [deployment, fetchTokens, fetchOracleDashboard]);
+
+  useEffect(() => {
+    loadDashboard();
+    const interval = setInterval(loadDashboard, DEFAULT_SETTINGS.REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [loadDashboard]);
+
+  const health = dashboard?.health;
+  const unhealthySymbols = health?.unhealthyTokens.map(address =>
+    tokens.find(token => token.address.toLowerCase() === address.toLowerCase())?.symbol ||
+    truncateAddress(address)
+  );
+
+  return (
+    <>
+      <Head>
+        <title>Oracles - Morpho RWA Liquidity Hub</title>
+      </Head>
+
+      <div className="min-h-screen p-6">
+        <div className="max-w-6xl mx-auto">
+          <header className="mb-8 animate-slide-in flex flex-col lg:flex-row lg:items-center lg:justify-between">
+            <div>
+              <h1 className="text-4xl font-bold text-gradient mb-2">Oracle Prices</h1>
+              <p className="text-gray-600">How RWA collateral is priced on {deployment.network}</p>
+            </div>
+            <div className="flex items-center space-x-3 mt-4 lg:mt-0">
+              <Link href="/oracle-operator" className="text-sm text-blue-600 hover:text-blue-800 underline">
+                Operator
+              </Link>
+              <Link href="/" className="text-sm text-blue-600 hover:text-blue-800 underline">
+                Back to dashboard
+              </Link>
+              <button onClick={loadDashboard} disabled={isLoading} className="btn-primary">
+                {isLoading ? 'Refreshing...' : 'Refresh'}
+              </button>
+            </div>
+          </header>
+
+          {!dashboard ? (
+            <div className="card flex items-center justify-center text-gray-500 py-12">
+              {isLoading ? (
+                <>
+                  <div className="spinner mr-2"></div>
+                  Reading oracle...
+                </>
+              ) : (
+                'Could not read the oracle'
+              )}
+            </div>
+          ) : (
+            <div className="space-y-8">
+              {/* Overall Health */}
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="stat-card">
+                  <div className="text-sm text-gray-600 mb-1">Healthy Feeds</div>
+                  <div className={`text-xl font-bold ${
+                    health && health.healthyCount === health.totalCount ? 'text-green-600' : 'text-yellow-600'
+                  }`}>
+                    {health ? `${health.healthyCount.toString()} / ${health.totalCount.toString()}` : '—'}
+                  </div>
+                </div>
+                <div className="stat-card">
+                  <div className="text-sm text-gray-600 mb-1">Update Interval</div>
+                  <div className="text-xl font-bold">
+                    {health?.updateInterval ? formatDuration(Number(health.updateInterval)) : '—'}
+                  </div>
+                </div>
+                <div className="stat-card">
+                  <div className="text-sm text-gray-600 mb-1">Unhealthy</div>
+                  <div className="text-xl font-bold">
+                    {unhealthySymbols && unhealthySymbols.length > 0 ? unhealthySymbols.join(', ') : 'None'}
+                  </div>
+                </div>
+              </div>
+
+              {/* Per-token Prices */}
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                {tokens.map(token => {
+                  const report = dashboard.tokens[token.address];
+                  return report ? <OracleTokenCard key={token.address} token={token} report={report} /> : null;
+                })}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,246 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { ethers } from 'ethers';
+import { DEFAULT_SETTINGS, formatBigInt, formatCurrency, formatPercentage, getHealthFactorStatus, truncateAddress } from '@/utils';
+import { useWeb3 } from '@/hooks/useWeb3';
+import { buildPortfolio, Portfolio, PortfolioPosition, sortByRisk } from '@/utils/portfolio';
+import { DEFAULT_CHAIN_ID, getRegistry, requireRegistry } from '@/utils/registry';
+
+type SortKey = 'risk' | 'collateral' | 'debt';
+
+const SORTS: Record<SortKey, { label: string; sort: (positions: PortfolioPosition[]) => PortfolioPosition[] }> = {
+  risk: { label: 'Risk', sort: sortByRisk },
+  collateral: {
+    label: 'Collateral',
+    sort: positions => [...positions].sort((a, b) =>
+      a.analytics.collateralValueUSD === b.analytics.collateralValueUSD ? 0
+        : a.analytics.collateralValueUSD > b.analytics.collateralValueUSD ? -1 : 1)
+  },
+  debt: {
+    label: 'Debt',
+    sort: positions => [...positions].sort((a, b) =>
+      a.analytics.borrowedValueUSD === b.analytics.borrowedValueUSD ? 0
+        : a.analytics.borrowedValueUSD > b.analytics.borrowedValueUSD ? -1 : 1)
+  }
+};
+
+// Signed USD difference, which formatCurrency does not handle
+const formatDiffUSD = (value: bigint): string =>
+  value < 0n ? `-${formatCurrency(-value, 18)}` : `+${formatCurrency(value, 18)}`;
+
+const formatHealthFactor = (healthFactor: bigint): string =>
+  healthFactor === ethers.MaxUint256 ? '∞' : formatBigInt(healthFactor, 4, 2);
+
+export default function PortfolioPage() {
+  const [account, setAccount] = useState<string>('');
+  const [chainId, setChainId] = useState<string>('');
+  const [portfolio, setPortfolio] = useState<Portfolio | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [sortKey, setSortKey] = useState<SortKey>('risk');
+
+  const { fetchTokens, fetchSnapshot } = useWeb3();
+
+  const deployment = (chainId && getRegistry(chainId)) || requireRegistry(DEFAULT_CHAIN_ID);
+
+  useEffect(() => {
+    if (!window.ethereum) return;
+
+    window.ethereum.request({ method: 'eth_accounts' }).then((accounts: string[]) => setAccount(accounts[0] || ''));
+    window.ethereum.request({ method: 'eth_chainId' }).then(setChainId);
+
+    const handleAccountsChanged = (accounts: string[]) => setAccount(accounts[0] || '');
+    const handleChainChanged = () => window.location.reload();
+    window.ethereum.on('accountsChanged', handleAccountsChanged);
+    window.ethereum.on('chainChanged', handleChainChanged);
+
+    return () => {
+      window.ethereum.removeListener('accountsChanged', handleAccountsChanged);
+      window.ethereum.removeListener('chainChanged', handleChainChanged);
+    };
+  }, []);
+
+  const connectWallet = async () => {
+    if (!window.ethereum) {
+      alert('Please install MetaMask or another Web3 wallet');
+      return;
+    }
+    try {
+      const accounts = await window.ethereum.request({ method: 'eth_requestAccounts' });
+      setAccount(accounts[0]);
+    } catch (error) {
+      console.error('Error connecting wallet:', error);
+    }
+  };
+
+  const loadPortfolio = useCallback(async () => {
+    if (!account) return;
+
+    setIsLoading(true);
+    try {
+      const tokens = (await fetchTokens()) || deployment.rwaTokens;
+      const snapshot = await fetchSnapshot(account, tokens.map(token => token.address));
+      setPortfolio(snapshot ? buildPortfolio(snapshot, tokens) : null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [account, deployment, fetchTokens, fetchSnapshot]);
+
+  useEffect(() => {
+    setPortfolio(null);
+    loadPortfolio();
+    const interval = setInterval(loadPortfolio, DEFAULT_SETTINGS.REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [loadPortfolio]);
+
+  const positions = portfolio ? SORTS[sortKey].sort(portfolio.positions) : [];
+  const totalStatus = portfolio ? getHealthFactorStatus(portfolio.totals.healthFactor) : null;
+
+  return (
+    <>
+      <Head>
+        <title>Portfolio - Morpho RWA Liquidity Hub</title>
+      </Head>
+
+      <div className="min-h-screen p-6">
+        <div className="max-w-6xl mx-auto">
+          <header className="mb-8 animate-slide-in flex flex-col lg:flex-row lg:items-center lg:justify-between">
+            <div>
+              <h1 className="text-4xl font-bold text-gradient mb-2">Portfolio</h1>
+              <p className="text-gray-600">All of your RWA positions on {deployment.network}</p>
+            </div>
+            <div className="flex items-center space-x-3 mt-4 lg:mt-0">
+              <Link href="/" className="text-sm text-blue-600 hover:text-blue-800 underline">
+                Back to dashboard
+              </Link>
+              {account ? (
+                <span className="card px-4 py-2 font-mono text-sm">{truncateAddress(account)}</span>
+              ) : (
+                <button onClick={connectWallet} className="wallet-button">Connect Wallet</button>
+              )}
+            </div>
+          </header>
+
+          {!account ? (
+            <div className="card text-center text-gray-500 py-12">Connect a wallet to view your portfolio</div>
+          ) : !portfolio ? (
+            <div className="card flex items-center justify-center text-gray-500 py-12">
+              {isLoading ? (
+                <>
+                  <div className="spinner mr-2"></div>
+                  Loading positions...
+                </>
+              ) : (
+                'Could not load positions'
+              )}
+            </div>
+          ) : (
+            <div className="space-y-8">
+              {/* Totals */}
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="stat-card">
+                  <div className="text-sm text-gray-600 mb-1">Total Collateral</div>
+                  <div className="text-xl font-bold">{formatCurrency(portfolio.totals.collateralValueUSD, 18)}</div>
+                </div>
+                <div className="stat-card">
+                  <div className="text-sm text-gray-600 mb-1">Total Debt</div>
+                  <div className="text-xl font-bold">{formatCurrency(portfolio.totals.borrowedValueUSD, 18)}</div>
+                </div>
+                <div className="stat-card">
+                  <div className="text-sm text-gray-600 mb-1">Portfolio LTV</div>
+                  <div className="text-xl font-bold">{formatPercentage(portfolio.totals.ltv)}</div>
+                </div>
+                <div className="stat-card">
+                  <div className="text-sm text-gray-600 mb-1">Portfolio Health Factor</div>
+                  <div className={`text-xl font-bold ${totalStatus?.color}`}>
+                    {formatHealthFactor(portfolio.totals.healthFactor)}
+                  </div>
+                </div>
+              </div>
+
+              {/* Reconciliation */}
+              {portfolio.reconciliation === null ? (
+                <div className="text-sm text-gray-500">Could not read the hub&apos;s position totals.</div>
+              ) : portfolio.reconciliation.isReconciled ? (
+                <div className="text-sm text-green-700">✅ Totals match the hub&apos;s recorded position</div>
+              ) : (
+                <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm text-yellow-800">
+                  ⚠️ The hub&apos;s recorded totals differ from the per-token sums by{' '}
+                  {formatDiffUSD(portfolio.reconciliation.collateralDiffUSD)} collateral and{' '}
+                  {formatDiffUSD(portfolio.reconciliation.borrowedDiffUSD)} debt. The hub refreshes its
+                  totals only when you transact, so prices may have moved since.
+                </div>
+              )}
+
+              {/* Positions */}
+              <div className="card animate-fade-in">
+                <div className="flex items-center justify-between mb-6">
+                  <h2 className="text-2xl font-semibold">Positions</h2>
+                  <label className="flex items-center space-x-2 text-sm text-gray-700">
+                    <span>Sort by</span>
+                    <select
+                      value={sortKey}
+                      onChange={(e) => setSortKey(e.target.value as SortKey)}
+                      className="border border-gray-300 rounded px-2 py-1"
+                    >
+                      {Object.entries(SORTS).map(([key, { label }]) => (
+                        <option key={key} value={key}>{label}</option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+
+                {positions.length === 0 ? (
+                  <div className="text-sm text-gray-500 text-center py-8">No open positions</div>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500 border-b">
+                        <th className="py-2">Token</th>
+                        <th className="py-2 text-right">Collateral</th>
+                        <th className="py-2 text-right">Debt</th>
+                        <th className="py-2 text-right">LTV</th>
+                        <th className="py-2 text-right">Health Factor</th>
+                        <th className="py-2"></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {positions.map(({ token, analytics }) => {
+                        const status = getHealthFactorStatus(analytics.healthFactor);
+                        return (
+                          <tr key={token.address} className="border-b last:border-0">
+                            <td className="py-3">
+                              <div className="font-medium">{token.symbol}</div>
+                              <div className="text-xs text-gray-500">{token.type}</div>
+                            </td>
+                            <td className="py-3 text-right">
+                              <div>{formatBigInt(analytics.collateralAmount, token.decimals, 4)}</div>
+                              <div className="text-xs text-gray-500">{formatCurrency(analytics.collateralValueUSD, 18)}</div>
+                            </td>
+                            <td className="py-3 text-right">{formatCurrency(analytics.borrowedValueUSD, 18)}</td>
+                            <td className="py-3 text-right">{formatPercentage(analytics.currentLTV)}</td>
+                            <td className={`py-3 text-right font-semibold ${status.color}`}>
+                              {formatHealthFactor(analytics.healthFactor)}
+                            </td>
+                            <td className="py-3 text-right">
+                              <Link
+                                href={{ pathname: '/', query: { token: token.address } }}
+                                className="text-blue-600 hover:text-blue-800 underline"
+                              >
+                                Manage
+                              </Link>
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,276 @@
+// scripts/check-morpho-math.ts
+// Checks utils/morphoMath.ts against the Morpho Blue market snapshots in
+// morpho-math-fixtures.json. Run from the repository root with the Hardhat task, or
+// from morpho-rwa-frontend with tsx:
+//
+//   npx hardhat morpho-math [--capture <txHash>]
+//   npx tsx scripts/check-morpho-math.ts
+//   npx tsx scripts/check-morpho-math.ts capture <txHash>
+//
+// `capture` adds a snapshot from a real transaction that accrued interest on Morpho Blue:
+// the market state in the block before it, and the borrow rate, interest and fee shares
+// from its AccrueInterest event. CHAIN_ID picks the network (default Sepolia) and RPC_URL
+// overrides its RPC endpoint, so mainnet markets can be captured with a mainnet RPC_URL.
+import fs from 'fs';
+import path from 'path';
+import { ethers } from 'ethers';
+import { connectMorpho } from '../utils/bindings';
+import {
+  accrueInterest,
+  getBorrowAssets,
+  getBorrowCapacity,
+  getHealthFactor,
+  getMaxBorrow,
+  getSupplyAssets,
+  isHealthy,
+  toAssetsDown,
+  toAssetsUp,
+  toSharesDown,
+  toSharesUp,
+  wTaylorCompounded
+} from '../utils/morphoMath';
+import { DEFAULT_CHAIN_ID } from '../utils/registry';
+import { getReadProvider } from '../utils/web3';
+import { Market } from '../types';
+
+const FIXTURES_FILE = path.join(__dirname, 'morpho-math-fixtures.json');
+
+// Not part of the IMorpho binding: Morpho emits it from EventsLib
+const morphoEvents = new ethers.Interface([
+  'event AccrueInterest(bytes32 indexed id, uint256 prevBorrowRate, uint256 interest, uint256 feeShares)'
+]);
+
+type Fixture<T> = { [K in keyof T]: T[K] extends bigint ? string : T[K] };
+
+interface ConversionCase {
+  assets: string;
+  shares: string;
+  expected: {
+    toSharesDown: string;
+    toSharesUp: string;
+    toAssetsDown: string;
+    toAssetsUp: string;
+  };
+}
+
+interface PositionCase {
+  name: string;
+  supplyShares: string;
+  borrowShares: string;
+  collateral: string;
+  expected: {
+    borrowAssets: string;
+    supplyAssets: string;
+    maxBorrow: string;
+    healthFactor: string;
+    isHealthy: boolean;
+    borrowCapacity: string;
+  };
+}
+
+// Conversions run against the borrow side and positions against the market after accrual.
+// Captured cases only carry what the AccrueInterest event proves.
+interface MarketCase {
+  name: string;
+  source: string;
+  market: Fixture<Market>;
+  borrowRate: string;
+  timestamp: string;
+  price?: string;
+  lltv: string;
+  expected: {
+    compounded?: string;
+    interest: string;
+    feeShares: string;
+  };
+  conversions?: ConversionCase[];
+  positions?: PositionCase[];
+}
+
+interface Fixtures {
+  description: string;
+  cases: MarketCase[];
+}
+
+const USAGE = `Usage: check-morpho-math [capture <txHash>]
+
+  (no command)        Check utils/morphoMath.ts against every fixture
+  capture <txHash>    Add a fixture from a transaction that accrued interest on Morpho Blue`;
+
+const readFixtures = (): Fixtures => JSON.parse(fs.readFileSync(FIXTURES_FILE, 'utf8'));
+
+const toMarket = (market: Fixture<Market>): Market => ({
+  totalSupplyAssets: BigInt(market.totalSupplyAssets),
+  totalSupplyShares: BigInt(market.totalSupplyShares),
+  totalBorrowAssets: BigInt(market.totalBorrowAssets),
+  totalBorrowShares: BigInt(market.totalBorrowShares),
+  lastUpdate: BigInt(market.lastUpdate),
+  fee: BigInt(market.fee)
+});
+
+/**
+ * Run every check in one fixture, returning a line per mismatch
+ */
+const checkCase = (fixture: MarketCase): { checks: number; failures: string[] } => {
+  let checks = 0;
+  const failures: string[] = [];
+  const expect = (label: string, actual: bigint | boolean, expected: string | boolean) => {
+    checks++;
+    if (actual.toString() !== expected.toString()) {
+      failures.push(`${fixture.name}: ${label} expected ${expected}, got ${actual}`);
+    }
+  };
+
+  const market = toMarket(fixture.market);
+  const borrowRate = BigInt(fixture.borrowRate);
+  const timestamp = BigInt(fixture.timestamp);
+
+  if (fixture.expected.compounded !== undefined) {
+    expect('wTaylorCompounded', wTaylorCompounded(borrowRate, timestamp - market.lastUpdate), fixture.expected.compounded);
+  }
+
+  const accrued = accrueInterest(market, borrowRate, timestamp);
+  expect('interest', accrued.totalBorrowAssets - market.totalBorrowAssets, fixture.expected.interest);
+  expect('supply interest', accrued.totalSupplyAssets - market.totalSupplyAssets, fixture.expected.interest);
+  expect('fee shares', accrued.totalSupplyShares - market.totalSupplyShares, fixture.expected.feeShares);
+
+  for (const conversion of fixture.conversions ?? []) {
+    const assets = BigInt(conversion.assets);
+    const shares = BigInt(conversion.shares);
+    const { totalBorrowAssets, totalBorrowShares } = accrued;
+    expect(`toSharesDown(${assets})`, toSharesDown(assets, totalBorrowAssets, totalBorrowShares), conversion.expected.toSharesDown);
+    expect(`toSharesUp(${assets})`, toSharesUp(assets, totalBorrowAssets, totalBorrowShares), conversion.expected.toSharesUp);
+    expect(`toAssetsDown(${shares})`, toAssetsDown(shares, totalBorrowAssets, totalBorrowShares), conversion.expected.toAssetsDown);
+    expect(`toAssetsUp(${shares})`, toAssetsUp(shares, totalBorrowAssets, totalBorrowShares), conversion.expected.toAssetsUp);
+  }
+
+  if (fixture.positions?.length && fixture.price === undefined) {
+    failures.push(`${fixture.name}: positions need a price`);
+    return { checks, failures };
+  }
+  const price = BigInt(fixture.price ?? 0);
+  const lltv = BigInt(fixture.lltv);
+
+  for (const { name, expected, ...raw } of fixture.positions ?? []) {
+    const position = {
+      supplyShares: BigInt(raw.supplyShares),
+      borrowShares: BigInt(raw.borrowShares),
+      collateral: BigInt(raw.collateral)
+    };
+    expect(`${name} borrow assets`, getBorrowAssets(position, accrued), expected.borrowAssets);
+    expect(`${name} supply assets`, getSupplyAssets(position, accrued), expected.supplyAssets);
+    expect(`${name} max borrow`, getMaxBorrow(position.collateral, price, lltv), expected.maxBorrow);
+    expect(`${name} health factor`, getHealthFactor(position, accrued, price, lltv), expected.healthFactor);
+    expect(`${name} healthy`, isHealthy(position, accrued, price, lltv), expected.isHealthy);
+    expect(`${name} borrow capacity`, getBorrowCapacity(position, accrued, price, lltv), expected.borrowCapacity);
+  }
+
+  return { checks, failures };
+};
+
+/**
+ * Build a fixture from the AccrueInterest event in a transaction, with the market read
+ * from the block before so it is the state the contract accrued from
+ */
+const captureCase = async (provider: ethers.Provider, txHash: string): Promise<MarketCase> => {
+  const receipt = await provider.getTransactionReceipt(txHash);
+  if (!receipt) {
+    throw new Error(`Transaction ${txHash} not found or not mined`);
+  }
+
+  const log = receipt.logs.find(entry => morphoEvents.parseLog(entry)?.name === 'AccrueInterest');
+  if (!log) {
+    throw new Error(`Transaction ${txHash} did not accrue interest on a Morpho Blue market`);
+  }
+  const event = morphoEvents.parseLog(log)!;
+  const id: string = event.args.id;
+
+  const morpho = connectMorpho(log.address, provider);
+  const blockTag = receipt.blockNumber - 1;
+  const [market, marketParams, block, network] = await Promise.all([
+    morpho.market(id, { blockTag }),
+    morpho.idToMarketParams(id, { blockTag }),
+    provider.getBlock(receipt.blockNumber),
+    provider.getNetwork()
+  ]);
+  if (!block) {
+    throw new Error(`Block ${receipt.blockNumber} not found`);
+  }
+
+  return {
+    name: `market ${id} at block ${receipt.blockNumber}`,
+    source: `chain ${network.chainId} tx ${receipt.hash}`,
+    market: {
+      totalSupplyAssets: market.totalSupplyAssets.toString(),
+      totalSupplyShares: market.totalSupplyShares.toString(),
+      totalBorrowAssets: market.totalBorrowAssets.toString(),
+      totalBorrowShares: market.totalBorrowShares.toString(),
+      lastUpdate: market.lastUpdate.toString(),
+      fee: market.fee.toString()
+    },
+    borrowRate: event.args.prevBorrowRate.toString(),
+    timestamp: block.timestamp.toString(),
+    lltv: marketParams.lltv.toString(),
+    expected: {
+      interest: event.args.interest.toString(),
+      feeShares: event.args.feeShares.toString()
+    }
+  };
+};
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  if (command === 'help' || command === '--help') {
+    console.log(USAGE);
+    return;
+  }
+
+  const fixtures = readFixtures();
+
+  if (command === 'capture') {
+    const txHash = args[0];
+    if (!txHash || !ethers.isHexString(txHash, 32)) {
+      throw new Error('Usage: capture <txHash>');
+    }
+
+    const chainId = process.env.CHAIN_ID || DEFAULT_CHAIN_ID;
+    const provider = process.env.RPC_URL
+      ? new ethers.JsonRpcProvider(process.env.RPC_URL)
+      : getReadProvider(chainId);
+
+    const captured = await captureCase(provider, txHash);
+    const { failures } = checkCase(captured);
+    fixtures.cases = [...fixtures.cases.filter(fixture => fixture.source !== captured.source), captured];
+    fs.writeFileSync(FIXTURES_FILE, JSON.stringify(fixtures, null, 2) + '\n');
+
+    console.log(`Captured ${captured.name} (${captured.source})`);
+    failures.forEach(line => console.log(`FAIL ${line}`));
+    if (failures.length > 0) process.exitCode = 1;
+    return;
+  }
+
+  if (command) {
+    console.log(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+
+  let checks = 0;
+  const failures: string[] = [];
+  for (const fixture of fixtures.cases) {
+    const result = checkCase(fixture);
+    checks += result.checks;
+    failures.push(...result.failures);
+  }
+
+  failures.forEach(line => console.log(`FAIL ${line}`));
+  console.log(`${checks - failures.length}/${checks} checks passed across ${fixtures.cases.length} snapshots`);
+  if (failures.length > 0) process.exitCode = 1;
+}
+
+main()
+  .then(() => process.exit(process.exitCode ?? 0))
+  .catch((error) => {
+    console.error('❌ Morpho math check failed:', error.shortMessage || error.message || error);
+    process.exit(1);
+  });
@@ -0,0 +1,155 @@
+// scripts/oracle-operator.ts
+// Command-line entry for utils/oracleOperator.ts, for running oracle updates from a
+// server or cron job. Run from morpho-rwa-frontend:
+//
+//   npx tsx scripts/oracle-operator.ts status
+//   npx tsx scripts/oracle-operator.ts update [token...]
+//   npx tsx scripts/oracle-operator.ts backup <token>
+//   npx tsx scripts/oracle-operator.ts manual <token> <priceUSD> <confidence>
+//   npx tsx scripts/oracle-operator.ts authorize|revoke <updater>
+//
+// Environment: PRIVATE_KEY signs transactions (not needed for status), CHAIN_ID picks the
+// deployment (default Sepolia), RPC_URL overrides the chain's RPC endpoint and
+// ORACLE_UPDATE_LOG is the JSON-lines file every update is appended to.
+import fs from 'fs';
+import { ethers } from 'ethers';
+import { connectOracle } from '../utils/bindings';
+import { MIN_CONFIDENCE, ORACLE_PRICE_DECIMALS } from '../utils/oracle';
+import {
+  batchUpdatePrices,
+  formatUpdateRecord,
+  getOperatorRole,
+  getUpdateCandidates,
+  OracleUpdateRecord,
+  refreshDuePrices,
+  setAuthorizedUpdater,
+  updatePriceFromBackup,
+  updatePriceManually
+} from '../utils/oracleOperator';
+import { DEFAULT_CHAIN_ID, requireRegistry } from '../utils/registry';
+import { getReadProvider } from '../utils/web3';
+
+const LOG_FILE = process.env.ORACLE_UPDATE_LOG || 'oracle-updates.log';
+
+const USAGE = `Usage: oracle-operator <command>
+
+  status                                 Show which tokens need a price update
+  update [token...]                      Batch update the given tokens, or every due Chainlink-fed token
+  backup <token>                         Update a token from its backup feed
+  manual <token> <priceUSD> <confidence> Submit an appraised price (confidence ${MIN_CONFIDENCE}-100)
+  authorize <updater>                    Let an address submit manual prices (owner only)
+  revoke <updater>                       Revoke an updater (owner only)`;
+
+const requireAddress = (value: string | undefined, label: string): string => {
+  if (!value || !ethers.isAddress(value)) {
+    throw new Error(`Invalid ${label}: ${value ?? '(missing)'}`);
+  }
+  return ethers.getAddress(value);
+};
+
+const logRecord = (record: OracleUpdateRecord, symbols: Record<string, string>): void => {
+  formatUpdateRecord(record, symbols).forEach(line => console.log(line));
+  fs.appendFileSync(LOG_FILE, JSON.stringify(record) + '\n');
+};
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  if (!command || command === 'help' || command === '--help') {
+    console.log(USAGE);
+    return;
+  }
+
+  const chainId = process.env.CHAIN_ID || DEFAULT_CHAIN_ID;
+  const registry = requireRegistry(chainId);
+  const provider = process.env.RPC_URL
+    ? new ethers.JsonRpcProvider(process.env.RPC_URL, Number(registry.chainId), { staticNetwork: true })
+    : getReadProvider(registry.chainId);
+  const symbols = Object.fromEntries(registry.rwaTokens.map(token => [token.address.toLowerCase(), token.symbol]));
+
+  const readOracle = connectOracle(registry.oracle, provider);
+
+  if (command === 'status') {
+    const candidates = await getUpdateCandidates(readOracle);
+    console.log(`Oracle ${registry.oracle} on ${registry.network}\n`);
+    for (const candidate of candidates) {
+      const price = candidate.metadata
+        ? `$${ethers.formatUnits(candidate.metadata.price, ORACLE_PRICE_DECIMALS)} (confidence ${candidate.metadata.confidence})`
+        : 'no price';
+      const name = symbols[candidate.token.toLowerCase()] || candidate.token;
+      console.log(`${candidate.needsUpdate ? 'DUE' : 'ok '} ${name} via ${candidate.route}: ${price}`);
+    }
+    return;
+  }
+
+  if (!process.env.PRIVATE_KEY) {
+    throw new Error('Set PRIVATE_KEY to send oracle transactions');
+  }
+  const wallet = new ethers.Wallet(process.env.PRIVATE_KEY, provider);
+  const oracle = connectOracle(registry.oracle, wallet);
+
+  const role = await getOperatorRole(readOracle, wallet.address);
+  console.log(`Operator ${wallet.address} (${role.isOwner ? 'owner' : role.isUpdater ? 'authorized updater' : 'no role'})\n`);
+
+  const onSent = (tx: ethers.ContractTransactionResponse) => console.log(`Sent ${tx.hash}`);
+
+  switch (command) {
+    case 'update': {
+      if (args.length > 0) {
+        const tokens = args.map(arg => requireAddress(arg, 'token'));
+        logRecord(await batchUpdatePrices(oracle, tokens, onSent), symbols);
+        break;
+      }
+
+      const { record, skipped } = await refreshDuePrices(oracle, await getUpdateCandidates(readOracle), onSent);
+      if (record) {
+        logRecord(record, symbols);
+      } else {
+        console.log('No Chainlink-fed tokens are due for an update');
+      }
+      for (const candidate of skipped) {
+        console.log(`Skipped ${symbols[candidate.token.toLowerCase()] || candidate.token}: ${candidate.route} updates need their own command`);
+      }
+      break;
+    }
+
+    case 'backup':
+      logRecord(await updatePriceFromBackup(oracle, requireAddress(args[0], 'token'), onSent), symbols);
+      break;
+
+    case 'manual': {
+      const [token, price, confidence] = args;
+      if (!price || !/^\d+$/.test(confidence ?? '')) {
+        throw new Error('Usage: manual <token> <priceUSD> <confidence>');
+      }
+      logRecord(
+        await updatePriceManually(
+          oracle,
+          requireAddress(token, 'token'),
+          ethers.parseUnits(price, ORACLE_PRICE_DECIMALS),
+          BigInt(confidence),
+          onSent
+        ),
+        symbols
+      );
+      break;
+    }
+
+    case 'authorize':
+    case 'revoke':
+      logRecord(
+        await setAuthorizedUpdater(oracle, requireAddress(args[0], 'updater'), command === 'authorize', onSent),
+        symbols
+      );
+      break;
+
+    default:
+      throw new Error(`Unknown command: ${command}\n\n${USAGE}`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('❌ Oracle operator failed:', error.shortMessage || error.message || error);
+    process.exit(1);
+  });
@@ -83,6 +83,83 @@ export interface PositionAnalytics {
   availableToWithdraw: bigint;
 }
 
+export interface ComprehensiveMarketInfo {
+  marketId: string;
+  config: RWAConfig;
+  marketState: Market;
+  totalSupply: bigint;
+  totalBorrow: bigint;
+  utilizationRate: bigint;
+}
+
+export interface OraclePriceData {
+  price: bigint;
+  timestamp: bigint;
+  confidence: bigint;
+}
+
+// RWAOracle.OracleConfig
+export interface OracleConfig {
+  chainlinkFeed: string;
+  backupFeed: string;
+  maxPriceAge: bigint;
+  priceDeviation: bigint;
+  decimals: number;
+  isActive: boolean;
+  requiresManualUpdate: boolean;
+}
+
+// RWAOracle.PriceData, as stored in the price history
+export interface OraclePricePoint {
+  price: bigint;
+  timestamp: bigint;
+  confidence: bigint;
+  source: string;
+  isValid: boolean;
+}
+
+export interface BundlerOperations {
+  supplyCollateralData: string;
+  borrowData: string;
+}
+
+// Deployment Types
+export type DeploymentContract =
+  | 'hub'
+  | 'oracle'
+  | 'monitor'
+  | 'rewards'
+  | 'allocator'
+  | 'dataProvider'
+  | 'bundler'
+  | 'bundlerAdapter'
+  | 'morpho'
+  | 'usdc';
+
+// Contracts every deployment must provide; the rest may be null
+export type RequiredDeploymentContract = 'hub' | 'oracle' | 'morpho' | 'usdc';
+
+export type DeploymentToken = Omit<RWAToken, 'isActive' | 'config'>;
+
+// Shape of deployments/<network>.json as written by scripts/deploy.js
+export interface DeploymentManifest {
+  network: string;
+  chainId: number | string;
+  deployer?: string;
+  deployedBlock?: number;
+  contracts: Partial<Record<DeploymentContract, string | null>>;
+  rwaTokens: DeploymentToken[];
+}
+
+export type ContractRegistry = {
+  chainId: string;
+  network: string;
+  // Block the hub was deployed at, where event scans start; null if unknown
+  deployedBlock: number | null;
+  rwaTokens: DeploymentToken[];
+} & Record<RequiredDeploymentContract, string>
+  & Record<Exclude<DeploymentContract, RequiredDeploymentContract>, string | null>;
+
 // Transaction Types
 export interface TransactionRequest {
   to: string;
@@ -100,11 +177,28 @@ export interface TransactionReceipt {
   status: string;
 }
 
+export type TransactionType = 'approve' | 'supply' | 'borrow' | 'repay' | 'withdraw' | 'liquidate' | 'update-price' | 'admin';
+
+// Final states are reached once a receipt exists or the nonce was used by something else
+export type TransactionState = 'pending' | 'confirmed' | 'failed' | 'dropped' | 'cancelled' | 'replaced';
+
 export interface PendingTransaction {
   hash: string;
-  type: 'supply' | 'borrow' | 'repay' | 'withdraw' | 'liquidate';
+  type: TransactionType;
   timestamp: number;
   description: string;
+  account: string;
+  chainId: string;
+  nonce: number;
+  to: string | null;
+  // keccak256 of the calldata, to tell a sped-up copy from a different transaction
+  dataHash: string;
+  // Latest block when the transaction was sent; replacement searches start here
+  submittedBlock: number;
+  status: TransactionState;
+  // Transaction that took this nonce instead (sped up, cancelled or replaced)
+  replacedBy: string | null;
+  settledAt: number | null;
 }
 
 // UI State Types
@@ -192,20 +286,21 @@ export interface PositionLiquidatedEvent extends ContractEvent {
 }
 
 // Constants and Configuration
+// rpcUrl is the read-only endpoint used for view calls; override per chain via env
 export const SUPPORTED_NETWORKS: Record<string, NetworkInfo> = {
   '0x1': {
-    chainId: '0xaa36a7',
+    chainId: '0x1',
     name: 'Ethereum',
     symbol: 'ETH',
-    rpcUrl: 'https://eth-mainnet.alchemyapi.io/v2/',
+    rpcUrl: process.env.NEXT_PUBLIC_ETHEREUM_RPC_URL || 'https://ethereum-rpc.publicnode.com',
     blockExplorer: 'https://etherscan.io',
     isTestnet: false,
   },
   '0x2105': {
-    chainId: '0xaa36a7',
+    chainId: '0x2105',
     name: 'Base',
     symbol: 'ETH',
-    rpcUrl: 'https://base-mainnet.g.alchemy.com/v2/',
+    rpcUrl: process.env.NEXT_PUBLIC_BASE_RPC_URL || 'https://mainnet.base.org',
     blockExplorer: 'https://basescan.org',
     isTestnet: false,
   },
@@ -213,15 +308,15 @@ export const SUPPORTED_NETWORKS: Record<string, NetworkInfo> = {
     chainId: '0xaa36a7',
     name: 'Sepolia',
     symbol: 'ETH',
-    rpcUrl: 'https://eth-sepolia.g.alchemy.com/v2/',
+    rpcUrl: process.env.NEXT_PUBLIC_SEPOLIA_RPC_URL || 'https://ethereum-sepolia-rpc.publicnode.com',
     blockExplorer: 'https://sepolia.etherscan.io',
     isTestnet: true,
   },
   '0x14a33': {
-    chainId: '0xaa36a7',
+    chainId: '0x14a33',
     name: 'Base Sepolia',
     symbol: 'ETH',
-    rpcUrl: 'https://base-sepolia.g.alchemy.com/v2/',
+    rpcUrl: process.env.NEXT_PUBLIC_BASE_SEPOLIA_RPC_URL || 'https://sepolia.base.org',
     blockExplorer: 'https://sepolia.basescan.org',
     isTestnet: true,
   },
@@ -244,9 +339,12 @@ export const DECIMAL_PRECISION = {
 
 export const GAS_LIMITS = {
   SUPPLY_COLLATERAL_AND_BORROW: 300000,
+  BUNDLED_SUPPLY_AND_BORROW: 450000,
   REPAY_AND_WITHDRAW: 250000,
   ADD_COLLATERAL: 150000,
   LIQUIDATE: 350000,
+  UPDATE_PRICE: 200000,
+  ADMIN_ACTION: 500000,
   APPROVE: 50000,
 } as const;
 
@@ -262,11 +360,19 @@ export interface Web3Error {
   data?: any;
 }
 
+export type ContractErrorSource = 'hub' | 'oracle' | 'morpho' | 'token' | 'wallet' | 'evm' | 'unknown';
+
+// message holds the user-facing explanation; reason is the raw revert string or error name
 export interface ContractError extends Error {
   code?: string;
   reason?: string;
   method?: string;
   transaction?: any;
+  source?: ContractErrorSource;
+  errorName?: string;
+  args?: any[];
+  data?: string;
+  suggestion?: string;
 }
 
 // Hook Return Types
@@ -0,0 +1,284 @@
+// utils/admin.ts
+// Owner-side hub management: reads the hub's admin state, turns RWAConfig form input into
+// a config, diffs a proposed config against the on-chain one and simulates each admin
+// call (createRWAMarket, updateRWAConfig, setEmergencyPause, setFeeRecipient,
+// setKYCRequirement) before it is sent.
+import { ethers } from 'ethers';
+import { MorphoRWALiquidityHub } from './bindings';
+import { toRWAConfig } from './contracts';
+import { decodeContractError } from './errors';
+import { formatBigInt, formatPercentage, isValidNumber, toBigInt, truncateAddress } from './index';
+import { ContractError, RWAConfig } from '@/types';
+
+// MorphoRWALiquidityHub.MAX_LLTV, in basis points
+export const MAX_LLTV_BPS = 8000n;
+
+export interface HubAdminState {
+  owner: string;
+  emergencyAdmin: string;
+  feeRecipient: string;
+  requireKYCDefault: boolean;
+  paused: boolean;
+  // The coinbaseVerifications contract the hub was deployed with
+  kycProvider: string;
+  // A contract owner (a Safe) cannot sign from the browser; its calls are exported as batches
+  ownerIsContract: boolean;
+}
+
+export interface HubAdminRole {
+  isOwner: boolean;
+  // The emergency admin may only pause and unpause
+  isEmergencyAdmin: boolean;
+}
+
+export type HubAdminAction =
+  | { type: 'createMarket'; token: string; config: RWAConfig }
+  | { type: 'updateConfig'; token: string; config: RWAConfig }
+  | { type: 'setPause'; paused: boolean }
+  | { type: 'setFeeRecipient'; recipient: string }
+  | { type: 'setKYCRequirement'; required: boolean };
+
+export interface AdminSimulation {
+  success: boolean;
+  error: ContractError | null;
+}
+
+// Form input for an RWAConfig: flags stay booleans, everything else is edited as text
+export type RWAConfigForm = {
+  [K in keyof RWAConfig]: RWAConfig[K] extends boolean ? boolean : string;
+};
+
+export interface ConfigChange {
+  field: keyof RWAConfig;
+  label: string;
+  from: string;
+  to: string;
+}
+
+export const RWA_CONFIG_LABELS: Record<keyof RWAConfig, string> = {
+  isSupported: 'Supported',
+  name: 'Name',
+  assetType: 'Asset type',
+  oracle: 'Price feed',
+  irm: 'Interest rate model',
+  lltv: 'LLTV',
+  minCollateral: 'Minimum collateral',
+  maxSinglePosition: 'Max position',
+  decimals: 'Decimals',
+  requiresKYC: 'Requires KYC',
+  isActive: 'Active'
+};
+
+export const ASSET_TYPES = ['real-estate', 'treasury', 'commodities', 'private-credit', 'equity'];
+
+// Morpho Blue market params are immutable: the hub's market for a token is keyed by them,
+// so changing any of these on an existing config would point it at a different market
+export const MARKET_PARAM_FIELDS: ReadonlyArray<keyof RWAConfig> = ['oracle', 'irm', 'lltv'];
+
+export const getHubAdminState = async (hub: MorphoRWALiquidityHub): Promise<HubAdminState> => {
+  const [owner, emergencyAdmin, feeRecipient, requireKYCDefault, paused, kycProvider] = await Promise.all([
+    hub.owner(),
+    hub.emergencyAdmin(),
+    hub.feeRecipient(),
+    hub.requireKYCDefault(),
+    hub.paused(),
+    hub.coinbaseVerifications()
+  ]);
+  const ownerCode = await hub.runner?.provider?.getCode(owner);
+
+  return {
+    owner,
+    emergencyAdmin,
+    feeRecipient,
+    requireKYCDefault,
+    paused,
+    kycProvider,
+    ownerIsContract: !!ownerCode && ownerCode !== '0x'
+  };
+};
+
+export const getHubAdminRole = (state: HubAdminState, account: string): HubAdminRole => ({
+  isOwner: !!account && state.owner.toLowerCase() === account.toLowerCase(),
+  isEmergencyAdmin: !!account && state.emergencyAdmin.toLowerCase() === account.toLowerCase()
+});
+
+export const getRWAConfig = async (hub: MorphoRWALiquidityHub, token: string): Promise<RWAConfig> =>
+  toRWAConfig(await hub.rwaConfigs(token));
+
+// ============ CONFIG FORMS ============
+
+export const EMPTY_CONFIG_FORM: RWAConfigForm = {
+  isSupported: true,
+  name: '',
+  assetType: ASSET_TYPES[0],
+  oracle: '',
+  irm: '',
+  lltv: '',
+  minCollateral: '',
+  maxSinglePosition: '',
+  decimals: '18',
+  requiresKYC: false,
+  isActive: true
+};
+
+/**
+ * Form values for an existing config; LLTV is edited as a percentage, amounts in token units
+ * and a zero limit as a blank field
+ */
+export const toConfigForm = (config: RWAConfig): RWAConfigForm => ({
+  isSupported: config.isSupported,
+  name: config.name,
+  assetType: config.assetType,
+  oracle: config.oracle,
+  irm: config.irm,
+  lltv: ethers.formatUnits(config.lltv, 2),
+  minCollateral: config.minCollateral === 0n ? '' : ethers.formatUnits(config.minCollateral, config.decimals),
+  maxSinglePosition: config.maxSinglePosition === 0n ? '' : ethers.formatUnits(config.maxSinglePosition, config.decimals),
+  decimals: config.decimals.toString(),
+  requiresKYC: config.requiresKYC,
+  isActive: config.isActive
+});
+
+/**
+ * Parse form input into an RWAConfig, or the errors keyed by field. With the `current`
+ * config of an existing market, a change to its market params is an error.
+ */
+export const parseConfigForm = (
+  form: RWAConfigForm,
+  current: RWAConfig | null = null
+): { config: RWAConfig | null; errors: Partial<Record<keyof RWAConfig, string>> } => {
+  const errors: Partial<Record<keyof RWAConfig, string>> = {};
+
+  if (!form.name.trim()) errors.name = 'Name is required';
+  if (!form.assetType.trim()) errors.assetType = 'Asset type is required';
+  if (!ethers.isAddress(form.oracle) || form.oracle === ethers.ZeroAddress) errors.oracle = 'Enter the price feed address';
+  if (!ethers.isAddress(form.irm) || form.irm === ethers.ZeroAddress) errors.irm = 'Enter the interest rate model address';
+
+  const decimals = Number(form.decimals);
+  if (!Number.isInteger(decimals) || decimals < 0 || decimals > 36) errors.decimals = 'Decimals must be 0-36';
+
+  if (!isValidNumber(form.lltv) || !/^\d+(\.\d{0,2})?$/.test(form.lltv)) {
+    errors.lltv = 'Enter the LLTV as a percentage with at most 2 decimals';
+  } else if (toBigInt(form.lltv, 2) > MAX_LLTV_BPS) {
+    errors.lltv = `LLTV cannot exceed ${formatPercentage(MAX_LLTV_BPS)}`;
+  }
+
+  for (const field of ['minCollateral', 'maxSinglePosition'] as const) {
+    if (form[field] !== '' && !isValidNumber(form[field])) errors[field] = 'Enter a token amount';
+  }
+
+  if (current) {
+    const fixed = (field: keyof RWAConfig) => `${RWA_CONFIG_LABELS[field]} is fixed by the existing Morpho Blue market`;
+    if (!errors.oracle && form.oracle.toLowerCase() !== current.oracle.toLowerCase()) errors.oracle = fixed('oracle');
+    if (!errors.irm && form.irm.toLowerCase() !== current.irm.toLowerCase()) errors.irm = fixed('irm');
+    if (!errors.lltv && toBigInt(form.lltv, 2) !== current.lltv) errors.lltv = fixed('lltv');
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { config: null, errors };
+  }
+
+  return {
+    config: {
+      isSupported: form.isSupported,
+      name: form.name.trim(),
+      assetType: form.assetType.trim(),
+      oracle: ethers.getAddress(form.oracle),
+      irm: ethers.getAddress(form.irm),
+      lltv: toBigInt(form.lltv, 2),
+      minCollateral: toBigInt(form.minCollateral, decimals),
+      maxSinglePosition: toBigInt(form.maxSinglePosition, decimals),
+      decimals,
+      requiresKYC: form.requiresKYC,
+      isActive: form.isActive
+    },
+    errors
+  };
+};
+
+const formatConfigValue = (field: keyof RWAConfig, config: RWAConfig): string => {
+  const value = config[field];
+  switch (field) {
+    case 'lltv':
+      return formatPercentage(config.lltv);
+    case 'minCollateral':
+    case 'maxSinglePosition':
+      return value === 0n ? 'None' : formatBigInt(value as bigint, config.decimals, 4);
+    case 'oracle':
+    case 'irm':
+      return truncateAddress(value as string);
+    default:
+      return typeof value === 'boolean' ? (value ? 'Yes' : 'No') : String(value);
+  }
+};
+
+/**
+ * Fields of `proposed` that differ from `current`; every field when there is no current config
+ */
+export const diffRWAConfig = (current: RWAConfig | null, proposed: RWAConfig): ConfigChange[] =>
+  (Object.keys(RWA_CONFIG_LABELS) as Array<keyof RWAConfig>)
+    .filter(field => {
+      if (!current) return true;
+      // Addresses may differ only in checksum casing
+      return field === 'oracle' || field === 'irm'
+        ? current[field].toLowerCase() !== proposed[field].toLowerCase()
+        : current[field] !== proposed[field];
+    })
+    .map(field => ({
+      field,
+      label: RWA_CONFIG_LABELS[field],
+      from: current ? formatConfigValue(field, current) : '—',
+      to: formatConfigValue(field, proposed)
+    }));
+
+// ============ ACTIONS ============
+
+export const describeAdminAction = (action: HubAdminAction): string => {
+  switch (action.type) {
+    case 'createMarket':
+      return `Create ${action.config.name || truncateAddress(action.token)} market`;
+    case 'updateConfig':
+      return `Update ${action.config.name || truncateAddress(action.token)} config`;
+    case 'setPause':
+      return action.paused ? 'Pause the hub' : 'Unpause the hub';
+    case 'setFeeRecipient':
+      return `Set fee recipient to ${truncateAddress(action.recipient)}`;
+    case 'setKYCRequirement':
+      return action.required ? 'Require KYC for all tokens' : 'Stop requiring KYC by default';
+  }
+};
+
+/**
+ * The hub function and arguments `action` calls
+ */
+export const getAdminCall = (action: HubAdminAction): { method: string; args: unknown[] } => {
+  switch (action.type) {
+    case 'createMarket':
+      return { method: 'createRWAMarket', args: [action.token, action.config] };
+    case 'updateConfig':
+      return { method: 'updateRWAConfig', args: [action.token, action.config] };
+    case 'setPause':
+      return { method: 'setEmergencyPause', args: [action.paused] };
+    case 'setFeeRecipient':
+      return { method: 'setFeeRecipient', args: [action.recipient] };
+    case 'setKYCRequirement':
+      return { method: 'setKYCRequirement', args: [action.required] };
+  }
+};
+
+/**
+ * eth_call `action` from `from`; catches the same reverts the hub would raise on-chain
+ */
+export const simulateAdminAction = async (
+  hub: MorphoRWALiquidityHub,
+  action: HubAdminAction,
+  from: string
+): Promise<AdminSimulation> => {
+  const { method, args } = getAdminCall(action);
+  try {
+    await hub.getFunction(method).staticCall(...args, { from });
+    return { success: true, error: null };
+  } catch (error) {
+    return { success: false, error: decodeContractError(error, method) };
+  }
+};
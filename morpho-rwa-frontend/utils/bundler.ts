@@ -0,0 +1,295 @@
+// utils/bundler.ts
+// Atomic supply-and-borrow straight on Morpho Blue through Bundler3 and GeneralAdapter1.
+// The hub only provides the Morpho calldata (prepareBundlerOperations); it never holds
+// the collateral or the position.
+import { ethers } from 'ethers';
+import { connectMorpho, CONTRACT_INTERFACES, IMorpho, MorphoRWALiquidityHub } from './bindings';
+import { getBorrowAssets, VIRTUAL_ASSETS, VIRTUAL_SHARES } from './morphoMath';
+import { CollateralPermit, getPermitDomain, SupplyAndBorrowCall } from './permit';
+import { ContractRegistry } from '@/types';
+
+const BUNDLER3_ABI = [
+  "function multicall(tuple(address to, bytes data, uint256 value, bool skipRevert, bytes32 callbackHash)[] bundle) payable"
+];
+
+const MARKET_PARAMS = 'tuple(address loanToken, address collateralToken, address oracle, address irm, uint256 lltv)';
+
+const GENERAL_ADAPTER_ABI = [
+  "function erc20TransferFrom(address token, address receiver, uint256 amount)",
+  `function morphoSupplyCollateral(${MARKET_PARAMS} marketParams, uint256 assets, address onBehalf, bytes data)`,
+  `function morphoBorrow(${MARKET_PARAMS} marketParams, uint256 assets, uint256 shares, uint256 minSharePriceE27, address receiver)`
+];
+
+const TOKEN_ABI = [
+  "function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)",
+  "function allowance(address owner, address spender) view returns (uint256)"
+];
+
+const MORPHO_AUTHORIZATION_TYPES = {
+  Authorization: [
+    { name: 'authorizer', type: 'address' },
+    { name: 'authorized', type: 'address' },
+    { name: 'isAuthorized', type: 'bool' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' }
+  ]
+};
+
+const bundlerInterface = new ethers.Interface(BUNDLER3_ABI);
+const adapterInterface = new ethers.Interface(GENERAL_ADAPTER_ABI);
+const tokenInterface = new ethers.Interface(TOKEN_ABI);
+
+// Accept up to 0.5% more borrow shares than the current share price implies
+const BORROW_SLIPPAGE_BPS = 50n;
+
+// Authorization signatures stay valid for 30 minutes
+const AUTHORIZATION_VALIDITY_SECONDS = 30 * 60;
+
+export interface BundlerAddresses {
+  bundler: string;
+  adapter: string;
+  morpho: string;
+}
+
+// One entry of a Bundler3 multicall
+export interface BundlerCall {
+  to: string;
+  data: string;
+  value: bigint;
+  // Failed steps are skipped instead of reverting the bundle (e.g. a front-run permit)
+  skipRevert: boolean;
+  callbackHash: string;
+}
+
+export interface MorphoAuthorization {
+  authorization: {
+    authorizer: string;
+    authorized: string;
+    isAuthorized: boolean;
+    nonce: bigint;
+    deadline: bigint;
+  };
+  signature: { v: number; r: string; s: string };
+}
+
+// What the user has to provide before the bundle can execute
+export interface BundleRequirements {
+  // How the adapter gets to pull the collateral; null if it already can
+  approval: 'permit' | 'approve' | null;
+  // The adapter borrows on the user's behalf, which Morpho only allows once authorized
+  authorization: boolean;
+}
+
+// The adapter is only authorized for one bundle: the grant runs first and the revocation last
+export interface BundleAuthorization {
+  grant: MorphoAuthorization;
+  revoke: MorphoAuthorization;
+}
+
+export interface BundleSignatures {
+  permit?: CollateralPermit | null;
+  authorization?: BundleAuthorization | null;
+}
+
+const toCall = (to: string, data: string, skipRevert = false): BundlerCall => ({
+  to,
+  data,
+  value: 0n,
+  skipRevert,
+  callbackHash: ethers.ZeroHash
+});
+
+/**
+ * Get the bundler contracts for a chain, or null if the deployment has none
+ */
+export const getBundlerAddresses = (registry: ContractRegistry): BundlerAddresses | null => {
+  if (!registry.bundler || !registry.bundlerAdapter) return null;
+  return { bundler: registry.bundler, adapter: registry.bundlerAdapter, morpho: registry.morpho };
+};
+
+/**
+ * Check which approvals and signatures `owner` still needs for a bundled supply of `amount`
+ */
+export const getBundleRequirements = async (
+  runner: ethers.ContractRunner,
+  addresses: BundlerAddresses,
+  tokenAddress: string,
+  owner: string,
+  amount: bigint
+): Promise<BundleRequirements> => {
+  const token = new ethers.Contract(tokenAddress, TOKEN_ABI, runner);
+  const morpho = connectMorpho(addresses.morpho, runner);
+
+  const [allowance, isAuthorized]: [bigint, boolean] = await Promise.all([
+    amount > 0n ? token.allowance(owner, addresses.adapter) : Promise.resolve(0n),
+    morpho.isAuthorized(owner, addresses.adapter)
+  ]);
+
+  let approval: BundleRequirements['approval'] = null;
+  if (amount > 0n && allowance < amount) {
+    approval = (await getPermitDomain(tokenAddress, runner)) ? 'permit' : 'approve';
+  }
+
+  return { approval, authorization: !isAuthorized };
+};
+
+/**
+ * Ask the wallet to authorize `authorized` to manage its Morpho Blue positions for one
+ * bundle, and to revoke it again; the revocation takes the nonce after the grant's
+ */
+export const signMorphoAuthorization = async (
+  signer: ethers.Signer,
+  morphoAddress: string,
+  authorized: string
+): Promise<BundleAuthorization> => {
+  const authorizer = await signer.getAddress();
+  const morpho = connectMorpho(morphoAddress, signer);
+  const [nonce, { chainId }] = await Promise.all([
+    morpho.nonce(authorizer),
+    signer.provider!.getNetwork()
+  ]);
+  const deadline = BigInt(Math.floor(Date.now() / 1000) + AUTHORIZATION_VALIDITY_SECONDS);
+
+  const sign = async (isAuthorized: boolean, authorizationNonce: bigint): Promise<MorphoAuthorization> => {
+    const authorization = { authorizer, authorized, isAuthorized, nonce: authorizationNonce, deadline };
+
+    // Morpho's EIP-712 domain has no name or version
+    const signature = await signer.signTypedData(
+      { chainId, verifyingContract: morphoAddress },
+      MORPHO_AUTHORIZATION_TYPES,
+      authorization
+    );
+    const { v, r, s } = ethers.Signature.from(signature);
+
+    return { authorization, signature: { v, r, s } };
+  };
+
+  const grant = await sign(true, nonce);
+  const revoke = await sign(false, nonce + 1n);
+  return { grant, revoke };
+};
+
+// Lowest borrow share price (in 1e27) the adapter should accept for this market
+const getMinBorrowSharePrice = async (
+  morpho: IMorpho,
+  marketParams: ethers.Result
+): Promise<bigint> => {
+  const marketId = ethers.keccak256(
+    ethers.AbiCoder.defaultAbiCoder().encode([MARKET_PARAMS], [marketParams])
+  );
+  const { totalBorrowAssets, totalBorrowShares } = await morpho.market(marketId);
+
+  const sharePrice = ((totalBorrowAssets + VIRTUAL_ASSETS) * 10n ** 27n) / (totalBorrowShares + VIRTUAL_SHARES);
+  return (sharePrice * (10000n - BORROW_SLIPPAGE_BPS)) / 10000n;
+};
+
+/**
+ * Build the Bundler3 multicall for supplying collateral and borrowing on Morpho Blue.
+ * The Morpho calldata comes from hub.prepareBundlerOperations and is re-targeted at
+ * GeneralAdapter1; signed permits and authorizations run first in the same transaction,
+ * and a signed authorization is revoked as the last step.
+ */
+export const buildBundledSupplyAndBorrow = async (
+  hub: MorphoRWALiquidityHub,
+  addresses: BundlerAddresses,
+  user: string,
+  rwaToken: string,
+  collateralAmount: bigint,
+  borrowAmount: bigint,
+  { permit = null, authorization = null }: BundleSignatures = {}
+): Promise<SupplyAndBorrowCall> => {
+  const runner = hub.runner!;
+  const morphoInterface = CONTRACT_INTERFACES.MORPHO_BLUE;
+
+  const { supplyCollateralData, borrowData } = await hub.prepareBundlerOperations(
+    user,
+    rwaToken,
+    collateralAmount,
+    borrowAmount
+  );
+  const [marketParams, , onBehalf] = morphoInterface.decodeFunctionData('supplyCollateral', supplyCollateralData);
+  const [, , , , receiver] = morphoInterface.decodeFunctionData('borrow', borrowData);
+
+  const calls: BundlerCall[] = [];
+  const setAuthorization = ({ authorization, signature }: MorphoAuthorization, skipRevert: boolean) => toCall(
+    addresses.morpho,
+    morphoInterface.encodeFunctionData('setAuthorizationWithSig', [authorization, signature]),
+    skipRevert
+  );
+
+  // A front-run grant still uses up its nonce, so the revocation stays valid
+  if (authorization) {
+    calls.push(setAuthorization(authorization.grant, true));
+  }
+
+  if (collateralAmount > 0n) {
+    if (permit?.type === 'permit') {
+      calls.push(toCall(
+        rwaToken,
+        tokenInterface.encodeFunctionData('permit', [
+          user,
+          addresses.adapter,
+          collateralAmount,
+          permit.deadline,
+          permit.v,
+          permit.r,
+          permit.s
+        ]),
+        true
+      ));
+    }
+
+    calls.push(
+      toCall(addresses.adapter, adapterInterface.encodeFunctionData('erc20TransferFrom', [
+        rwaToken,
+        addresses.adapter,
+        collateralAmount
+      ])),
+      toCall(addresses.adapter, adapterInterface.encodeFunctionData('morphoSupplyCollateral', [
+        marketParams,
+        collateralAmount,
+        onBehalf,
+        '0x'
+      ]))
+    );
+  }
+
+  if (borrowAmount > 0n) {
+    const minSharePrice = await getMinBorrowSharePrice(connectMorpho(addresses.morpho, runner), marketParams);
+    calls.push(toCall(addresses.adapter, adapterInterface.encodeFunctionData('morphoBorrow', [
+      marketParams,
+      borrowAmount,
+      0n,
+      minSharePrice,
+      receiver
+    ])));
+  }
+
+  // Must not be skipped: the adapter would otherwise stay authorized after the bundle
+  if (authorization) {
+    calls.push(setAuthorization(authorization.revoke, false));
+  }
+
+  const bundler = new ethers.Contract(addresses.bundler, bundlerInterface, runner);
+  return {
+    method: 'multicall',
+    staticCall: (overrides = {}) => bundler.multicall.staticCall(calls, overrides),
+    estimateGas: () => bundler.multicall.estimateGas(calls),
+    send: (overrides = {}) => bundler.multicall(calls, overrides)
+  };
+};
+
+/**
+ * Read a user's Morpho Blue position in the hub's market for `rwaToken`
+ */
+export const getMorphoPosition = async (
+  hub: MorphoRWALiquidityHub,
+  user: string,
+  rwaToken: string
+): Promise<{ collateral: bigint; borrowAssets: bigint }> => {
+  const [morphoAddress, marketId] = await Promise.all([hub.morpho(), hub.rwaMarketIds(rwaToken)]);
+  const morpho = connectMorpho(morphoAddress, hub.runner!);
+  const [position, market] = await Promise.all([morpho.position(marketId, user), morpho.market(marketId)]);
+
+  return { collateral: position.collateral, borrowAssets: getBorrowAssets(position, market) };
+};
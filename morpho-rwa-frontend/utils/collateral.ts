@@ -0,0 +1,113 @@
+// utils/collateral.ts
+// Collateral valuation using the same price feed and formula as the hub's _getTokenValueUSD
+import { ethers } from 'ethers';
+import { MorphoRWALiquidityHub } from './bindings';
+import { HEALTH_FACTOR_THRESHOLDS } from '@/types';
+
+// Price feed the hub reads in _getTokenValueUSD
+const PRICE_FEED_ABI = [
+  "function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)",
+  "function decimals() view returns (uint8)"
+];
+
+// Hub health factors are in basis points (10000 = 1.0)
+export const BASIS_POINTS = 10000n;
+
+export interface CollateralPrice {
+  price: bigint;
+  feedDecimals: bigint;
+  tokenDecimals: bigint;
+}
+
+export interface RescueQuote {
+  healthFactor: bigint;
+  targetHealthFactor: bigint;
+  // Collateral to add to reach the target; 0 if the position already meets it
+  amount: bigint;
+}
+
+/**
+ * Convert a health factor threshold (e.g. HEALTH_FACTOR_THRESHOLDS.SAFE) to basis points
+ */
+export const toHealthFactorBps = (healthFactor: number): bigint =>
+  BigInt(Math.round(healthFactor * Number(BASIS_POINTS)));
+
+/**
+ * Read the collateral's price feed as configured on the hub, at `blockTag` (the latest
+ * block by default)
+ */
+export const getCollateralPrice = async (
+  hub: MorphoRWALiquidityHub,
+  rwaToken: string,
+  blockTag?: ethers.BlockTag
+): Promise<CollateralPrice> => {
+  const config = await hub.rwaConfigs(rwaToken, { blockTag });
+  const feed = new ethers.Contract(config.oracle, PRICE_FEED_ABI, hub.runner);
+  const [{ answer }, feedDecimals] = await Promise.all([
+    feed.latestRoundData({ blockTag }),
+    feed.decimals({ blockTag })
+  ]);
+
+  return {
+    price: BigInt(answer),
+    feedDecimals: BigInt(feedDecimals),
+    tokenDecimals: BigInt(config.decimals)
+  };
+};
+
+/**
+ * USD value (18 decimals) of a collateral amount at an already-read price
+ */
+export const toCollateralValueUSD = ({ price, feedDecimals, tokenDecimals }: CollateralPrice, amount: bigint): bigint =>
+  (amount * price * 10n ** 18n) / 10n ** (tokenDecimals + feedDecimals);
+
+/**
+ * USD value (18 decimals) of a collateral amount, computed the same way as the hub
+ */
+export const getCollateralValueUSD = async (
+  hub: MorphoRWALiquidityHub,
+  rwaToken: string,
+  amount: bigint
+): Promise<bigint> => {
+  if (amount === 0n) return 0n;
+
+  return toCollateralValueUSD(await getCollateralPrice(hub, rwaToken), amount);
+};
+
+/**
+ * Smallest collateral amount worth at least `valueUSD` (18 decimals)
+ */
+export const getCollateralForValueUSD = async (
+  hub: MorphoRWALiquidityHub,
+  rwaToken: string,
+  valueUSD: bigint
+): Promise<bigint> => {
+  if (valueUSD <= 0n) return 0n;
+
+  const { price, feedDecimals, tokenDecimals } = await getCollateralPrice(hub, rwaToken);
+  if (price <= 0n) {
+    throw new Error('Invalid collateral price');
+  }
+
+  const numerator = valueUSD * 10n ** (tokenDecimals + feedDecimals);
+  const denominator = price * 10n ** 18n;
+  return (numerator + denominator - 1n) / denominator;
+};
+
+/**
+ * Work out how much collateral brings a position back to `targetHealthFactor` (basis points)
+ */
+export const getRescueQuote = async (
+  hub: MorphoRWALiquidityHub,
+  user: string,
+  rwaToken: string,
+  targetHealthFactor: bigint = toHealthFactorBps(HEALTH_FACTOR_THRESHOLDS.SAFE)
+): Promise<RescueQuote> => {
+  const { collateralValueUSD, borrowedValueUSD, healthFactor } = await hub.getPositionAnalytics(user, rwaToken);
+
+  // HF = collateralValue * 10000 / debtValue, so the target needs this much collateral value
+  const requiredValueUSD = (targetHealthFactor * borrowedValueUSD + BASIS_POINTS - 1n) / BASIS_POINTS;
+  const amount = await getCollateralForValueUSD(hub, rwaToken, requiredValueUSD - collateralValueUSD);
+
+  return { healthFactor, targetHealthFactor, amount };
+};
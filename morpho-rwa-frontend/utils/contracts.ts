@@ -1,35 +1,353 @@
+import { ethers } from 'ethers';
 import { CONTRACT_ADDRESSES } from './index';
-
-// Import the ABIs
-import MorphoRWALiquidityHubABI from '../contracts/MorphoRWALiquidityHub.json';
-import RWAOracleABI from '../contracts/RWAOracle.json';
+import { CONTRACT_ABIS, connectHub, MorphoRWALiquidityHub, RWAOracle } from './bindings';
+import { requireRegistry } from './registry';
+import { getFieldErrors, getSupplyBorrowBlockers, getSupplyBorrowFields, SupplyBorrowContext } from './validation';
+import {
+  BundlerOperations,
+  ComprehensiveMarketInfo,
+  Market,
+  MarketParams,
+  OracleConfig,
+  OraclePricePoint,
+  Position,
+  PositionAnalytics,
+  RWAConfig,
+  UserPosition
+} from '@/types';
 
 // Contract configuration
 export const CONTRACTS = {
   RWA_HUB: {
-    address: CONTRACT_ADDRESSES.RWA_HUB,
-    abi: MorphoRWALiquidityHubABI.abi,
+    get address() {
+      return CONTRACT_ADDRESSES.RWA_HUB;
+    },
+    abi: CONTRACT_ABIS.RWA_HUB,
   },
   RWA_ORACLE: {
-    address: CONTRACT_ADDRESSES.RWA_ORACLE,
-    abi: RWAOracleABI.abi,
+    get address() {
+      return CONTRACT_ADDRESSES.RWA_ORACLE;
+    },
+    abi: CONTRACT_ABIS.RWA_ORACLE,
   },
 };
 
 // Helper function to get contract instance
-export const getContract = (contractName: keyof typeof CONTRACTS, ethereum: any) => {
+export const getContract = (
+  contractName: keyof typeof CONTRACTS,
+  runner: ethers.ContractRunner
+): ethers.Contract => {
   const contract = CONTRACTS[contractName];
   if (!contract) {
     throw new Error(`Contract ${contractName} not found`);
   }
-  
+
+  return new ethers.Contract(contract.address, contract.abi, runner);
+};
+
+// ============ RESULT DECODERS ============
+
+// Inputs are typed against the generated struct outputs, so a renamed or
+// retyped field in the contract fails type-checking here.
+
+export const toMarketParams = (raw: MarketParams): MarketParams => ({
+  loanToken: raw.loanToken,
+  collateralToken: raw.collateralToken,
+  oracle: raw.oracle,
+  irm: raw.irm,
+  lltv: raw.lltv
+});
+
+export const toMarket = (raw: Market): Market => ({
+  totalSupplyAssets: raw.totalSupplyAssets,
+  totalSupplyShares: raw.totalSupplyShares,
+  totalBorrowAssets: raw.totalBorrowAssets,
+  totalBorrowShares: raw.totalBorrowShares,
+  lastUpdate: raw.lastUpdate,
+  fee: raw.fee
+});
+
+export const toPosition = (raw: Position): Position => ({
+  supplyShares: raw.supplyShares,
+  borrowShares: raw.borrowShares,
+  collateral: raw.collateral
+});
+
+export const toRWAConfig = (raw: MorphoRWALiquidityHub.RWAConfigStructOutput): RWAConfig => ({
+  isSupported: raw.isSupported,
+  name: raw.name,
+  assetType: raw.assetType,
+  oracle: raw.oracle,
+  irm: raw.irm,
+  lltv: raw.lltv,
+  minCollateral: raw.minCollateral,
+  maxSinglePosition: raw.maxSinglePosition,
+  decimals: Number(raw.decimals),
+  requiresKYC: raw.requiresKYC,
+  isActive: raw.isActive
+});
+
+export const toUserPosition = (raw: MorphoRWALiquidityHub.UserPositionStructOutput): UserPosition => ({
+  totalCollateralUSD: raw.totalCollateralUSD,
+  totalBorrowedUSD: raw.totalBorrowedUSD,
+  healthFactor: raw.healthFactor,
+  lastUpdate: raw.lastUpdate,
+  isActive: raw.isActive
+});
+
+export const toPositionAnalytics = (raw: PositionAnalytics): PositionAnalytics => ({
+  collateralAmount: raw.collateralAmount,
+  collateralValueUSD: raw.collateralValueUSD,
+  borrowedAssets: raw.borrowedAssets,
+  borrowedValueUSD: raw.borrowedValueUSD,
+  healthFactor: raw.healthFactor,
+  currentLTV: raw.currentLTV,
+  liquidationPrice: raw.liquidationPrice,
+  availableToBorrow: raw.availableToBorrow,
+  availableToWithdraw: raw.availableToWithdraw
+});
+
+export const toOracleConfig = (raw: RWAOracle.OracleConfigStructOutput): OracleConfig => ({
+  chainlinkFeed: raw.chainlinkFeed,
+  backupFeed: raw.backupFeed,
+  maxPriceAge: raw.maxPriceAge,
+  priceDeviation: raw.priceDeviation,
+  decimals: Number(raw.decimals),
+  isActive: raw.isActive,
+  requiresManualUpdate: raw.requiresManualUpdate
+});
+
+export const toOraclePricePoint = (raw: RWAOracle.PriceDataStructOutput): OraclePricePoint => ({
+  price: raw.price,
+  timestamp: raw.timestamp,
+  confidence: raw.confidence,
+  source: raw.source,
+  isValid: raw.isValid
+});
+
+// ============ HUB CLIENT ============
+
+/**
+ * Typed client for MorphoRWALiquidityHub.
+ * Pass a provider for read-only access or a signer to send transactions.
+ */
+export const createHubClient = (
+  runner: ethers.ContractRunner,
+  address: string = CONTRACTS.RWA_HUB.address
+) => {
+  const contract = connectHub(address, runner);
+
   return {
-    address: contract.address,
-    abi: contract.abi,
-    // Add web3 instance creation here when implementing
+    address,
+    contract,
+
+    // ============ USER ACTIONS ============
+
+    supplyCollateralAndBorrow: (
+      rwaToken: string,
+      collateralAmount: bigint,
+      borrowAmount: bigint,
+      overrides: ethers.Overrides = {}
+    ): Promise<ethers.ContractTransactionResponse> =>
+      contract.supplyCollateralAndBorrow(rwaToken, collateralAmount, borrowAmount, overrides),
+
+    getInstantLiquidity: (
+      rwaToken: string,
+      collateralAmount: bigint,
+      borrowAmount: bigint,
+      overrides: ethers.Overrides = {}
+    ): Promise<ethers.ContractTransactionResponse> =>
+      contract.getInstantLiquidity(rwaToken, collateralAmount, borrowAmount, overrides),
+
+    repayAllAndWithdraw: (
+      rwaToken: string,
+      collateralAmount: bigint,
+      overrides: ethers.Overrides = {}
+    ): Promise<ethers.ContractTransactionResponse> =>
+      contract.repayAllAndWithdraw(rwaToken, collateralAmount, overrides),
+
+    repayAndWithdraw: (
+      rwaToken: string,
+      repayAmount: bigint,
+      withdrawAmount: bigint,
+      fullRepayment: boolean,
+      overrides: ethers.Overrides = {}
+    ): Promise<ethers.ContractTransactionResponse> =>
+      contract.repayAndWithdraw(rwaToken, repayAmount, withdrawAmount, fullRepayment, overrides),
+
+    addCollateral: (
+      rwaToken: string,
+      amount: bigint,
+      overrides: ethers.Overrides = {}
+    ): Promise<ethers.ContractTransactionResponse> =>
+      contract.addCollateral(rwaToken, amount, overrides),
+
+    liquidatePosition: (
+      borrower: string,
+      rwaToken: string,
+      seizedAssets: bigint,
+      repaidShares: bigint,
+      overrides: ethers.Overrides = {}
+    ): Promise<ethers.ContractTransactionResponse> =>
+      contract.liquidatePosition(borrower, rwaToken, seizedAssets, repaidShares, overrides),
+
+    // ============ ADMIN ACTIONS ============
+
+    createRWAMarket: (
+      rwaToken: string,
+      config: RWAConfig,
+      overrides: ethers.Overrides = {}
+    ): Promise<ethers.ContractTransactionResponse> =>
+      contract.createRWAMarket(rwaToken, config, overrides),
+
+    updateRWAConfig: (
+      rwaToken: string,
+      config: RWAConfig,
+      overrides: ethers.Overrides = {}
+    ): Promise<ethers.ContractTransactionResponse> =>
+      contract.updateRWAConfig(rwaToken, config, overrides),
+
+    setEmergencyPause: (
+      paused: boolean,
+      overrides: ethers.Overrides = {}
+    ): Promise<ethers.ContractTransactionResponse> =>
+      contract.setEmergencyPause(paused, overrides),
+
+    setFeeRecipient: (
+      feeRecipient: string,
+      overrides: ethers.Overrides = {}
+    ): Promise<ethers.ContractTransactionResponse> =>
+      contract.setFeeRecipient(feeRecipient, overrides),
+
+    setKYCRequirement: (
+      requireKYC: boolean,
+      overrides: ethers.Overrides = {}
+    ): Promise<ethers.ContractTransactionResponse> =>
+      contract.setKYCRequirement(requireKYC, overrides),
+
+    emergencyWithdraw: (
+      token: string,
+      amount: bigint,
+      overrides: ethers.Overrides = {}
+    ): Promise<ethers.ContractTransactionResponse> =>
+      contract.emergencyWithdraw(token, amount, overrides),
+
+    transferOwnership: (
+      newOwner: string,
+      overrides: ethers.Overrides = {}
+    ): Promise<ethers.ContractTransactionResponse> =>
+      contract.transferOwnership(newOwner, overrides),
+
+    renounceOwnership: (
+      overrides: ethers.Overrides = {}
+    ): Promise<ethers.ContractTransactionResponse> =>
+      contract.renounceOwnership(overrides),
+
+    // ============ MARKET VIEWS ============
+
+    getMarketId: async (rwaToken: string): Promise<string> =>
+      contract.getMarketId(rwaToken),
+
+    getMarketParams: async (rwaToken: string): Promise<MarketParams> =>
+      toMarketParams(await contract.getMarketParams(rwaToken)),
+
+    getMarketState: async (rwaToken: string): Promise<Market> =>
+      toMarket(await contract.getMarketState(rwaToken)),
+
+    getComprehensiveMarketInfo: async (rwaToken: string): Promise<ComprehensiveMarketInfo> => {
+      const info = await contract.getComprehensiveMarketInfo(rwaToken);
+      return {
+        marketId: info.marketId,
+        config: toRWAConfig(info.config),
+        marketState: toMarket(info.marketState),
+        totalSupply: info.totalSupply,
+        totalBorrow: info.totalBorrow,
+        utilizationRate: info.utilizationRate
+      };
+    },
+
+    getSupportedRWATokens: async (): Promise<string[]> =>
+      [...(await contract.getSupportedRWATokens())],
+
+    rwaConfigs: async (rwaToken: string): Promise<RWAConfig> =>
+      toRWAConfig(await contract.rwaConfigs(rwaToken)),
+
+    marketVolume: async (rwaToken: string): Promise<bigint> =>
+      contract.marketVolume(rwaToken),
+
+    // ============ POSITION VIEWS ============
+
+    getUserPosition: async (user: string, rwaToken: string): Promise<Position> =>
+      toPosition(await contract.getUserPosition(user, rwaToken)),
+
+    getUserPositionInfo: async (user: string): Promise<UserPosition> =>
+      toUserPosition(await contract.getUserPositionInfo(user)),
+
+    getPositionAnalytics: async (user: string, rwaToken: string): Promise<PositionAnalytics> =>
+      toPositionAnalytics(await contract.getPositionAnalytics(user, rwaToken)),
+
+    getUserCollateral: async (user: string, rwaToken: string): Promise<bigint> =>
+      contract.getUserCollateral(user, rwaToken),
+
+    getCurrentDebt: async (user: string, rwaToken: string): Promise<bigint> =>
+      contract.getCurrentDebt(user, rwaToken),
+
+    getCurrentSupplyValue: async (user: string, rwaToken: string): Promise<bigint> =>
+      contract.getCurrentSupplyValue(user, rwaToken),
+
+    getMaxSafeBorrow: async (user: string, rwaToken: string): Promise<bigint> =>
+      contract.getMaxSafeBorrow(user, rwaToken),
+
+    getAvailableBorrowCapacity: async (user: string, rwaToken: string): Promise<bigint> =>
+      contract.getAvailableBorrowCapacityExternal(user, rwaToken),
+
+    checkHealthAfterBorrow: async (user: string, rwaToken: string, additionalBorrow: bigint): Promise<boolean> =>
+      contract.checkHealthAfterBorrow(user, rwaToken, additionalBorrow),
+
+    checkCanWithdrawCollateral: async (user: string, rwaToken: string, amount: bigint): Promise<boolean> =>
+      contract.checkCanWithdrawCollateral(user, rwaToken, amount),
+
+    prepareBundlerOperations: async (
+      user: string,
+      rwaToken: string,
+      collateralAmount: bigint,
+      borrowAmount: bigint
+    ): Promise<BundlerOperations> => {
+      const result = await contract.prepareBundlerOperations(user, rwaToken, collateralAmount, borrowAmount);
+      return {
+        supplyCollateralData: result.supplyCollateralData,
+        borrowData: result.borrowData
+      };
+    },
+
+    // ============ PLATFORM VIEWS ============
+
+    owner: async (): Promise<string> => contract.owner(),
+    paused: async (): Promise<boolean> => contract.paused(),
+    feeRecipient: async (): Promise<string> => contract.feeRecipient(),
+    emergencyAdmin: async (): Promise<string> => contract.emergencyAdmin(),
+    requireKYCDefault: async (): Promise<boolean> => contract.requireKYCDefault(),
+    coinbaseVerifications: async (): Promise<string> => contract.coinbaseVerifications(),
+    morpho: async (): Promise<string> => contract.morpho(),
+    usdc: async (): Promise<string> => contract.usdc(),
+    chainId: async (): Promise<bigint> => contract.chainId(),
+    totalVolumeUSD: async (): Promise<bigint> => contract.totalVolumeUSD(),
+    totalFeesCollected: async (): Promise<bigint> => contract.totalFeesCollected(),
+    totalActivePositions: async (): Promise<bigint> => contract.totalActivePositions()
   };
 };
 
+export type HubClient = ReturnType<typeof createHubClient>;
+
+// Hub client for the deployment on whichever chain the wallet is connected to
+const createWalletHubClient = async (
+  provider: ethers.BrowserProvider,
+  runner: ethers.ContractRunner = provider
+): Promise<HubClient> => {
+  const { chainId } = await provider.getNetwork();
+  return createHubClient(runner, requireRegistry(chainId).hub);
+};
+
 // Contract interaction functions
 export const contractInteractions = {
   // Supply collateral and borrow
@@ -39,20 +357,16 @@ export const contractInteractions = {
     borrowAmount: string,
     account: string,
     ethereum: any
-  ) => {
-    const contract = getContract('RWA_HUB', ethereum);
-    
-    // TODO: Implement actual contract call
-    console.log('Calling supplyCollateralAndBorrow:', {
-      contract: contract.address,
+  ): Promise<string> => {
+    const provider = new ethers.BrowserProvider(ethereum);
+    const hub = await createWalletHubClient(provider, await provider.getSigner(account));
+
+    const tx = await hub.supplyCollateralAndBorrow(
       rwaToken,
-      collateralAmount,
-      borrowAmount,
-      account
-    });
-    
-    // Return mock transaction hash for now
-    return `0x${Math.random().toString(16).slice(2)}`;
+      BigInt(collateralAmount),
+      BigInt(borrowAmount)
+    );
+    return tx.hash;
   },
 
   // Get position analytics
@@ -60,54 +374,26 @@ export const contractInteractions = {
     userAddress: string,
     rwaToken: string,
     ethereum: any
-  ) => {
-    const contract = getContract('RWA_HUB', ethereum);
-    
-    // TODO: Implement actual contract call
-    console.log('Calling getPositionAnalytics:', {
-      contract: contract.address,
-      userAddress,
-      rwaToken
-    });
-    
-    // Return mock data for now
-    return {
-      collateralAmount: '1000000000000000000000', // 1000 tokens
-      collateralValueUSD: '50000000000000000000000', // $50,000
-      borrowedAssets: '25000000000', // 25,000 USDC (6 decimals)
-      borrowedValueUSD: '25000000000000000000000', // $25,000
-      healthFactor: '20000', // 2.0 (4 decimals)
-      currentLTV: '5000', // 50% (4 decimals)
-      liquidationPrice: '40000000000000000000000', // $40,000
-      availableToBorrow: '15000000000', // 15,000 USDC
-      availableToWithdraw: '500000000000000000000' // 500 tokens
-    };
+  ): Promise<PositionAnalytics> => {
+    const hub = await createWalletHubClient(new ethers.BrowserProvider(ethereum));
+    return hub.getPositionAnalytics(userAddress, rwaToken);
   },
 
   // Get supported RWA tokens
-  getSupportedRWATokens: async (ethereum: any) => {
-    const contract = getContract('RWA_HUB', ethereum);
-    
-    // TODO: Implement actual contract call
-    console.log('Calling getSupportedRWATokens:', {
-      contract: contract.address
-    });
-    
-    // Return mock tokens for now
-    return [
-      '0x742d35Cc6Bf32f9B1C9c85c5e8C8f0d8Ba1F7B95',
-      '0x853d955aCEf822Db058eb8505911ED77F175b99e',
-      '0x956F47F50A910163D8BF957Cf5846D573E7f87CA'
-    ];
+  getSupportedRWATokens: async (ethereum: any): Promise<string[]> => {
+    const hub = await createWalletHubClient(new ethers.BrowserProvider(ethereum));
+    return hub.getSupportedRWATokens();
   }
 };
 
 // Validation helpers
 export const validateTransaction = {
+  // Pass the context from getSupplyBorrowContext to also check the hub's limits, balance, pause and KYC state
   supplyCollateralAndBorrow: (
     rwaToken: string,
     collateralAmount: string,
-    borrowAmount: string
+    borrowAmount: string,
+    context?: SupplyBorrowContext
   ) => {
     if (!rwaToken || rwaToken === '') {
       throw new Error('RWA token address is required');
@@ -120,6 +406,16 @@ export const validateTransaction = {
     if (!borrowAmount || Number(borrowAmount) <= 0) {
       throw new Error('Borrow amount must be greater than 0');
     }
+
+    if (context) {
+      const [error] = [
+        ...getSupplyBorrowBlockers(context),
+        ...Object.values(getFieldErrors(getSupplyBorrowFields(collateralAmount, borrowAmount, context)))
+      ];
+      if (error) {
+        throw new Error(error);
+      }
+    }
     
     return true;
   }
@@ -0,0 +1,467 @@
+// utils/errors.ts
+// Decode reverts from the hub, the oracle, Morpho Blue and ERC20 tokens into typed ContractErrors
+import { ethers } from 'ethers';
+import { CONTRACT_INTERFACES } from './bindings';
+import { ContractError, ContractErrorSource } from '@/types';
+
+// Error(string) and Panic(uint256) selectors
+const ERROR_STRING_SELECTOR = '0x08c379a0';
+const PANIC_SELECTOR = '0x4e487b71';
+
+// OpenZeppelin v5 ERC20InsufficientAllowance, which none of the hub ABIs declare
+const INSUFFICIENT_ALLOWANCE_SELECTOR = ethers.id('ERC20InsufficientAllowance(address,uint256,uint256)').slice(0, 10);
+
+// Reverts raised when the spender has not been approved, from the token itself or the
+// transfer helper that wraps it (Morpho Blue's SafeTransferLib, solmate in the bundler)
+const ALLOWANCE_REASONS = new Set([
+  'erc20: insufficient allowance',
+  'erc20: transfer amount exceeds allowance',
+  'erc20insufficientallowance',
+  'transferfrom reverted',
+  'transfer_from_failed'
+]);
+
+interface KnownError {
+  source: ContractErrorSource;
+  explanation: string;
+  suggestion?: string;
+}
+
+// Revert strings, keyed in lowercase. Hub and oracle strings come from the require
+// statements in contracts/, Morpho Blue strings from its ErrorsLib.
+const KNOWN_ERRORS: Record<string, KnownError> = {
+  // ============ HUB ============
+  'market does not exist': {
+    source: 'hub',
+    explanation: 'There is no market for this RWA token yet',
+    suggestion: 'Pick a supported RWA token'
+  },
+  'kyc verification required': {
+    source: 'hub',
+    explanation: 'This market requires KYC verification',
+    suggestion: 'Complete Coinbase verification for this wallet, then try again'
+  },
+  'kyc required': {
+    source: 'hub',
+    explanation: 'This market requires KYC verification',
+    suggestion: 'Complete Coinbase verification for this wallet, then try again'
+  },
+  'invalid rwa token': {
+    source: 'hub',
+    explanation: 'This RWA token is not supported or its market is inactive',
+    suggestion: 'Pick a different RWA token'
+  },
+  'below minimum collateral': {
+    source: 'hub',
+    explanation: 'The collateral amount is below the market minimum',
+    suggestion: 'Increase the collateral amount'
+  },
+  'invalid borrow amount': {
+    source: 'hub',
+    explanation: 'The borrow amount must be greater than zero',
+    suggestion: 'Enter a borrow amount'
+  },
+  'exceeds maximum ltv': {
+    source: 'hub',
+    explanation: 'This borrow would exceed the maximum loan-to-value for the market',
+    suggestion: 'Borrow less or add more collateral'
+  },
+  'position too large': {
+    source: 'hub',
+    explanation: 'This position is larger than the market allows',
+    suggestion: 'Reduce the collateral or borrow amount'
+  },
+  'no debt to repay': {
+    source: 'hub',
+    explanation: 'There is no outstanding debt on this position',
+    suggestion: 'Withdraw collateral without repaying'
+  },
+  'insufficient collateral': {
+    source: 'hub',
+    explanation: 'The position does not have enough collateral for this action',
+    suggestion: 'Withdraw less, repay part of the debt, or add collateral'
+  },
+  'invalid amount': {
+    source: 'hub',
+    explanation: 'The amount must be greater than zero',
+    suggestion: 'Enter an amount'
+  },
+  'no action specified': {
+    source: 'hub',
+    explanation: 'Nothing to repay or withdraw',
+    suggestion: 'Enter a repay or withdraw amount'
+  },
+  'cannot liquidate self': {
+    source: 'hub',
+    explanation: 'You cannot liquidate your own position',
+    suggestion: 'Repay or add collateral instead'
+  },
+  'position not liquidatable': {
+    source: 'hub',
+    explanation: 'This position is healthy and cannot be liquidated'
+  },
+  'token not supported': {
+    source: 'hub',
+    explanation: 'This token is not supported',
+    suggestion: 'Pick a supported RWA token'
+  },
+  'stale price': {
+    source: 'hub',
+    explanation: 'The collateral price is out of date',
+    suggestion: 'Wait for the next oracle update and try again'
+  },
+  'ltv too high': {
+    source: 'hub',
+    explanation: 'The LLTV is above the maximum the hub allows',
+    suggestion: 'Use a lower LLTV'
+  },
+  'market already exists': {
+    source: 'hub',
+    explanation: 'A market for this RWA token already exists',
+    suggestion: 'Update the existing market configuration instead'
+  },
+  'not authorized': {
+    source: 'hub',
+    explanation: 'This wallet is not authorized for this action',
+    suggestion: 'Switch to the owner or emergency admin wallet'
+  },
+
+  // ============ ORACLE ============
+  'no valid price': {
+    source: 'oracle',
+    explanation: 'The oracle has no valid price for this token',
+    suggestion: 'Wait for an oracle update and try again'
+  },
+  'price too old': {
+    source: 'oracle',
+    explanation: 'The oracle price is older than the maximum allowed age',
+    suggestion: 'Wait for the next oracle update and try again'
+  },
+  'price confidence too low': {
+    source: 'oracle',
+    explanation: 'The oracle price confidence is below the minimum',
+    suggestion: 'Wait for a higher-confidence price update'
+  },
+  'emergency paused': {
+    source: 'oracle',
+    explanation: 'The oracle is paused',
+    suggestion: 'Try again once the oracle is unpaused'
+  },
+  'invalid price': {
+    source: 'oracle',
+    explanation: 'The reported price is invalid'
+  },
+  'invalid confidence': {
+    source: 'oracle',
+    explanation: 'Confidence must be between the oracle minimum and 100'
+  },
+  'chainlink price too old': {
+    source: 'oracle',
+    explanation: 'The Chainlink feed has not updated recently',
+    suggestion: 'Wait for the feed to update or use the backup feed'
+  },
+
+  // ============ MORPHO BLUE ============
+  'insufficient liquidity': {
+    source: 'morpho',
+    explanation: 'The market does not have enough USDC to lend',
+    suggestion: 'Borrow a smaller amount or wait for more supply'
+  },
+  'unhealthy position': {
+    source: 'morpho',
+    explanation: 'This action would leave the position below the liquidation threshold',
+    suggestion: 'Borrow less, repay debt or add collateral'
+  },
+  'position is healthy': {
+    source: 'morpho',
+    explanation: 'This position is healthy and cannot be liquidated'
+  },
+  'market not created': {
+    source: 'morpho',
+    explanation: 'The Morpho Blue market has not been created',
+    suggestion: 'Create the market before using it'
+  },
+  'market already created': {
+    source: 'morpho',
+    explanation: 'This Morpho Blue market already exists'
+  },
+  'inconsistent input': {
+    source: 'morpho',
+    explanation: 'Exactly one of assets or shares must be non-zero'
+  },
+  'zero assets': {
+    source: 'morpho',
+    explanation: 'The amount must be greater than zero',
+    suggestion: 'Enter an amount'
+  },
+  'zero address': {
+    source: 'morpho',
+    explanation: 'The address cannot be the zero address'
+  },
+  'unauthorized': {
+    source: 'morpho',
+    explanation: 'The hub is not authorized to act for this wallet on Morpho Blue',
+    suggestion: 'Authorize the hub on Morpho Blue and try again'
+  },
+  'irm not enabled': {
+    source: 'morpho',
+    explanation: 'This interest rate model is not enabled on Morpho Blue'
+  },
+  'lltv not enabled': {
+    source: 'morpho',
+    explanation: 'This LLTV is not enabled on Morpho Blue'
+  },
+  'max uint128 exceeded': {
+    source: 'morpho',
+    explanation: 'The amount is too large'
+  },
+  'invalid signature': {
+    source: 'morpho',
+    explanation: 'The authorization signature is invalid',
+    suggestion: 'Sign the authorization again'
+  },
+  'signature expired': {
+    source: 'morpho',
+    explanation: 'The authorization signature has expired',
+    suggestion: 'Sign the authorization again'
+  },
+  'invalid nonce': {
+    source: 'morpho',
+    explanation: 'The authorization nonce is out of date',
+    suggestion: 'Sign the authorization again'
+  },
+  'transferfrom reverted': {
+    source: 'morpho',
+    explanation: 'The token transfer into Morpho Blue failed',
+    suggestion: 'Check your balance and token approval'
+  },
+  'transfer reverted': {
+    source: 'morpho',
+    explanation: 'The token transfer out of Morpho Blue failed'
+  },
+
+  // ============ TOKENS & ACCESS CONTROL ============
+  'erc20: insufficient allowance': {
+    source: 'token',
+    explanation: 'The hub is not approved to spend enough of this token',
+    suggestion: 'Approve the token and try again'
+  },
+  'erc20: transfer amount exceeds allowance': {
+    source: 'token',
+    explanation: 'The hub is not approved to spend enough of this token',
+    suggestion: 'Approve the token and try again'
+  },
+  'erc20: transfer amount exceeds balance': {
+    source: 'token',
+    explanation: 'Your token balance is too low',
+    suggestion: 'Reduce the amount or top up your balance'
+  },
+  'ownable: caller is not the owner': {
+    source: 'hub',
+    explanation: 'Only the contract owner can do this',
+    suggestion: 'Switch to the owner wallet'
+  },
+  'pausable: paused': {
+    source: 'hub',
+    explanation: 'The contract is paused',
+    suggestion: 'Try again once the contract is unpaused'
+  },
+  'reentrancyguard: reentrant call': {
+    source: 'hub',
+    explanation: 'The call re-entered the contract'
+  }
+};
+
+// Solidity panic codes
+const PANIC_REASONS: Record<number, string> = {
+  0x01: 'Assertion failed',
+  0x11: 'Arithmetic overflow or underflow',
+  0x12: 'Division by zero',
+  0x21: 'Invalid enum value',
+  0x22: 'Invalid storage byte array',
+  0x31: 'Pop on empty array',
+  0x32: 'Array index out of bounds',
+  0x41: 'Out of memory',
+  0x51: 'Call to an uninitialized function'
+};
+
+// Interfaces checked, in order, for custom error selectors
+const ERROR_INTERFACES: Array<{ source: ContractErrorSource; iface: ethers.Interface }> = [
+  { source: 'hub', iface: CONTRACT_INTERFACES.RWA_HUB },
+  { source: 'oracle', iface: CONTRACT_INTERFACES.RWA_ORACLE },
+  { source: 'hub', iface: CONTRACT_INTERFACES.POSITION_MONITOR },
+  { source: 'hub', iface: CONTRACT_INTERFACES.REWARDS_MANAGER },
+  { source: 'hub', iface: CONTRACT_INTERFACES.PUBLIC_ALLOCATOR },
+  { source: 'hub', iface: CONTRACT_INTERFACES.MARKET_DATA_PROVIDER }
+];
+
+export interface DecodedRevert {
+  source: ContractErrorSource;
+  reason: string;
+  errorName?: string;
+  args?: any[];
+}
+
+const isHexData = (value: unknown): value is string =>
+  typeof value === 'string' && ethers.isHexString(value) && (value === '0x' || value.length >= 10);
+
+/**
+ * Find raw revert data in an ethers or wallet error; providers nest it at different depths
+ */
+export const extractRevertData = (error: any): string | null => {
+  const candidates = [
+    error?.data,
+    error?.data?.data,
+    error?.error?.data,
+    error?.error?.data?.data,
+    error?.info?.error?.data,
+    error?.info?.error?.data?.data,
+    error?.error?.error?.data
+  ];
+
+  return candidates.find(isHexData) ?? null;
+};
+
+/**
+ * Decode revert data from a failed transaction, eth_call or multicall sub-call
+ */
+export const decodeRevertData = (data: string | null | undefined): DecodedRevert | null => {
+  if (!data) return null;
+
+  if (data === '0x') {
+    return { source: 'unknown', reason: 'Execution reverted without a reason' };
+  }
+
+  const selector = data.slice(0, 10).toLowerCase();
+
+  try {
+    if (selector === ERROR_STRING_SELECTOR) {
+      const [reason] = ethers.AbiCoder.defaultAbiCoder().decode(['string'], ethers.dataSlice(data, 4));
+      return { source: KNOWN_ERRORS[reason.toLowerCase()]?.source || 'unknown', reason };
+    }
+
+    if (selector === PANIC_SELECTOR) {
+      const [code] = ethers.AbiCoder.defaultAbiCoder().decode(['uint256'], ethers.dataSlice(data, 4));
+      return {
+        source: 'evm',
+        reason: PANIC_REASONS[Number(code)] || `Panic 0x${code.toString(16)}`,
+        errorName: 'Panic',
+        args: [code]
+      };
+    }
+  } catch {
+    // Malformed payload, fall through to custom errors
+  }
+
+  for (const { source, iface } of ERROR_INTERFACES) {
+    try {
+      const parsed = iface.parseError(data);
+      if (parsed) {
+        return { source, reason: parsed.name, errorName: parsed.name, args: [...parsed.args] };
+      }
+    } catch {
+      // Not an error of this contract
+    }
+  }
+
+  return { source: 'unknown', reason: `Unknown error ${selector}` };
+};
+
+const createContractError = (
+  message: string,
+  fields: Partial<ContractError> = {}
+): ContractError => Object.assign(new Error(message), { name: 'ContractError' }, fields);
+
+// Revert reason from error fields and messages when no raw data is available
+const extractReasonFromMessage = (error: any): string | null => {
+  if (typeof error?.reason === 'string' && error.reason) return error.reason;
+  if (error?.revert?.args?.[0] && typeof error.revert.args[0] === 'string') return error.revert.args[0];
+
+  const message: string = error?.info?.error?.message || error?.error?.message || error?.message || '';
+  const match = message.match(/(?:execution reverted|reverted with reason string):?\s*['"]?([^'"\n(]+)/i);
+  return match?.[1].trim() || null;
+};
+
+const fromRevert = (revert: DecodedRevert, fields: Partial<ContractError>): ContractError => {
+  const known = KNOWN_ERRORS[revert.reason.toLowerCase()];
+
+  return createContractError(known?.explanation || revert.reason, {
+    ...fields,
+    code: 'CALL_EXCEPTION',
+    reason: revert.reason,
+    source: known?.source || revert.source,
+    errorName: revert.errorName,
+    args: revert.args,
+    suggestion: known?.suggestion
+  });
+};
+
+/**
+ * Turn any error thrown by a wallet, provider or contract call (including a failed
+ * staticCall/estimateGas simulation) into a typed ContractError
+ */
+export const decodeContractError = (error: any, method?: string): ContractError => {
+  const transaction = error?.transaction;
+
+  if (
+    error?.code === 'ACTION_REJECTED' ||
+    error?.code === 4001 ||
+    error?.info?.error?.code === 4001 ||
+    /user (rejected|denied)/i.test(error?.message || '')
+  ) {
+    return createContractError('Transaction was rejected by user', {
+      code: 'ACTION_REJECTED',
+      source: 'wallet',
+      method,
+      transaction
+    });
+  }
+
+  if (error?.code === 'INSUFFICIENT_FUNDS' || /insufficient funds/i.test(error?.message || '')) {
+    return createContractError('Insufficient funds for gas fee', {
+      code: 'INSUFFICIENT_FUNDS',
+      source: 'wallet',
+      method,
+      transaction,
+      suggestion: 'Add ETH to this wallet to pay for gas'
+    });
+  }
+
+  const data = extractRevertData(error);
+  const revert = decodeRevertData(data);
+  if (revert && data !== '0x') {
+    return fromRevert(revert, { method, transaction, data: data || undefined });
+  }
+
+  const reason = extractReasonFromMessage(error);
+  if (reason) {
+    return fromRevert({ source: 'unknown', reason }, { method, transaction, data: data || undefined });
+  }
+
+  if (revert) {
+    return fromRevert(revert, { method, transaction, data: data || undefined });
+  }
+
+  return createContractError(error?.shortMessage || error?.message || 'Transaction failed', {
+    code: typeof error?.code === 'string' ? error.code : undefined,
+    source: 'unknown',
+    method,
+    transaction
+  });
+};
+
+/**
+ * Whether a decoded revert is only a missing token allowance, i.e. the call would go
+ * through once the pending approval is mined
+ */
+export const isAllowanceError = (error: ContractError): boolean =>
+  ALLOWANCE_REASONS.has((error.reason || '').toLowerCase()) ||
+  ALLOWANCE_REASONS.has((error.errorName || '').toLowerCase()) ||
+  !!error.data?.toLowerCase().startsWith(INSUFFICIENT_ALLOWANCE_SELECTOR);
+
+/**
+ * One-line message for a ContractError, with the suggested fix appended
+ */
+export const formatContractError = (error: ContractError): string => {
+  return error.suggestion ? `${error.message.replace(/\.$/, '')}. ${error.suggestion}.` : error.message;
+};
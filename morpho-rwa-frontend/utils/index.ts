@@ -6,8 +6,12 @@ import {
   HealthFactorStatus,
   HEALTH_FACTOR_THRESHOLDS,
   DECIMAL_PRECISION,
-  SUPPORTED_NETWORKS
+  SUPPORTED_NETWORKS,
+  DeploymentContract
 } from '@/types';
+import { ethers } from 'ethers';
+import { decodeContractError, formatContractError } from './errors';
+import { DEFAULT_CHAIN_ID, getRegistry, normalizeChainId, requireRegistry } from './registry';
 
 // ============ BIG NUMBER UTILITIES ============
 
@@ -262,20 +266,21 @@ export const isValidNumber = (value: string): boolean => {
 export const validateCollateralAmount = (
   amount: string,
   minCollateral: bigint = 0n,
-  maxCollateral: bigint = 0n
+  maxCollateral: bigint = 0n,
+  decimals: number = DECIMAL_PRECISION.RWA_DEFAULT
 ): string | null => {
   if (!isValidNumber(amount)) {
     return 'Please enter a valid amount';
   }
   
-  const amountBigInt = toBigInt(amount, 18);
+  const amountBigInt = toBigInt(amount, decimals);
   
   if (minCollateral > 0n && amountBigInt < minCollateral) {
-    return `Minimum collateral is ${formatBigInt(minCollateral, 18, 2)}`;
+    return `Minimum collateral is ${formatBigInt(minCollateral, decimals, 2)}`;
   }
   
   if (maxCollateral > 0n && amountBigInt > maxCollateral) {
-    return `Maximum collateral is ${formatBigInt(maxCollateral, 18, 2)}`;
+    return `Maximum collateral is ${formatBigInt(maxCollateral, decimals, 2)}`;
   }
   
   return null;
@@ -344,9 +349,12 @@ export const formatDuration = (seconds: number): string => {
 };
 
 // ============ CALCULATION UTILITIES ============
+// Estimates from USD values. Morpho decides health from borrow shares, the oracle
+// price and the market's LLTV; use utils/morphoMath.ts for that.
 
 /**
  * Calculate current LTV ratio
+ * @deprecated USD estimate; use getHealthFactor from utils/morphoMath.ts
  */
 export const calculateLTV = (borrowedValueUSD: bigint, collateralValueUSD: bigint): bigint => {
   if (collateralValueUSD === 0n) return 0n;
@@ -355,6 +363,7 @@ export const calculateLTV = (borrowedValueUSD: bigint, collateralValueUSD: bigin
 
 /**
  * Calculate available borrow capacity
+ * @deprecated USD estimate; use getBorrowCapacity (or getMaxBorrow) from utils/morphoMath.ts
  */
 export const calculateAvailableBorrow = (
   collateralValueUSD: bigint,
@@ -374,6 +383,8 @@ export const calculateAvailableBorrow = (
 
 /**
  * Calculate position health after additional borrow
+ * @deprecated USD estimate; use getHealthFactor from utils/morphoMath.ts with the new borrow
+ * added to the market and position
  */
 export const calculateHealthAfterBorrow = (
   currentCollateralUSD: bigint,
@@ -381,7 +392,7 @@ export const calculateHealthAfterBorrow = (
   additionalBorrowUSD: bigint
 ): bigint => {
   const newBorrowUSD = currentBorrowUSD + additionalBorrowUSD;
-  if (newBorrowUSD === 0n) return BigInt(Number.MAX_SAFE_INTEGER);
+  if (newBorrowUSD === 0n) return ethers.MaxUint256;
   
   return (currentCollateralUSD * 10000n) / newBorrowUSD;
 };
@@ -392,31 +403,8 @@ export const calculateHealthAfterBorrow = (
  * Parse Web3 error message
  */
 export const parseWeb3Error = (error: any): string => {
-  if (error?.code === 4001) {
-    return 'Transaction was rejected by user';
-  }
-  
-  if (error?.code === -32603) {
-    return 'Internal JSON-RPC error';
-  }
-  
-  if (error?.message?.includes('insufficient funds')) {
-    return 'Insufficient funds for gas fee';
-  }
-  
-  if (error?.message?.includes('user rejected')) {
-    return 'Transaction rejected by user';
-  }
-  
-  if (error?.reason) {
-    return error.reason;
-  }
-  
-  if (error?.message) {
-    return error.message;
-  }
-  
-  return 'Unknown error occurred';
+  if (!error) return 'Unknown error occurred';
+  return formatContractError(decodeContractError(error));
 };
 
 /**
@@ -464,9 +452,14 @@ export const storage = {
 // ============ DEPLOYED CONTRACT ADDRESSES ============
 
 export const CONTRACT_ADDRESSES = {
-  // ✅ DEPLOYED ON SEPOLIA TESTNET
-  RWA_ORACLE: process.env.NEXT_PUBLIC_RWA_ORACLE_ADDRESS || '0x0403F1a45e538eebF887afD1f7318fA3255f1273',
-  RWA_HUB: process.env.NEXT_PUBLIC_MORPHO_RWA_CONTRACT_ADDRESS || '0xC085e5E50872D597DE3e3195C74ca953e4a3851A',
+  // ✅ DEPLOYED ON THE DEFAULT CHAIN (see deployments/), resolved when read so a bad
+  // manifest only fails the code that needs these addresses
+  get RWA_ORACLE(): string {
+    return requireRegistry(DEFAULT_CHAIN_ID).oracle;
+  },
+  get RWA_HUB(): string {
+    return requireRegistry(DEFAULT_CHAIN_ID).hub;
+  },
   
   // Morpho Blue Protocol Addresses
   MORPHO_ETHEREUM: process.env.NEXT_PUBLIC_MORPHO_ETHEREUM || '0xbBbBBBbbBB9Cc5E90E3b6CA6c44b5a4e4a791BCf',
@@ -480,23 +473,26 @@ export const CONTRACT_ADDRESSES = {
 // ============ NETWORK-SPECIFIC CONTRACT HELPERS ============
 
 /**
- * Get contract address for current network
+ * Get a deployed contract address for a network (defaults to the default chain)
  */
-export const getContractAddress = (contractName: keyof typeof CONTRACT_ADDRESSES, chainId?: string): string => {
-  return CONTRACT_ADDRESSES[contractName] || '';
+export const getContractAddress = (
+  contractName: DeploymentContract,
+  chainId: string | number | bigint = DEFAULT_CHAIN_ID
+): string => {
+  return getRegistry(chainId)?.[contractName] || '';
 };
 
 /**
  * Get Morpho Blue address for network
  */
-export const getMorphoAddress = (chainId: string): string => {
-  switch (chainId) {
-    case '1': // Ethereum Mainnet
-      return CONTRACT_ADDRESSES.MORPHO_ETHEREUM;
-    case '8453': // Base
+export const getMorphoAddress = (chainId: string | number | bigint): string => {
+  const deployment = getRegistry(chainId);
+  if (deployment) return deployment.morpho;
+
+  switch (normalizeChainId(chainId)) {
+    case '0x2105': // Base
       return CONTRACT_ADDRESSES.MORPHO_BASE;
-    case '11155111': // Sepolia (use Ethereum address)
-      return CONTRACT_ADDRESSES.MORPHO_ETHEREUM;
+    case '0x1': // Ethereum Mainnet
     default:
       return CONTRACT_ADDRESSES.MORPHO_ETHEREUM;
   }
@@ -505,14 +501,14 @@ export const getMorphoAddress = (chainId: string): string => {
 /**
  * Get USDC address for network
  */
-export const getUSDCAddress = (chainId: string): string => {
-  switch (chainId) {
-    case '1': // Ethereum Mainnet
-      return CONTRACT_ADDRESSES.USDC_ETHEREUM;
-    case '8453': // Base
+export const getUSDCAddress = (chainId: string | number | bigint): string => {
+  const deployment = getRegistry(chainId);
+  if (deployment) return deployment.usdc;
+
+  switch (normalizeChainId(chainId)) {
+    case '0x2105': // Base
       return CONTRACT_ADDRESSES.USDC_BASE;
-    case '11155111': // Sepolia (use a testnet USDC)
-      return '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238'; // Sepolia USDC
+    case '0x1': // Ethereum Mainnet
     default:
       return CONTRACT_ADDRESSES.USDC_ETHEREUM;
   }
@@ -520,11 +516,22 @@ export const getUSDCAddress = (chainId: string): string => {
 
 // ============ DEFAULT SETTINGS ============
 
+// Positive whole-number setting; a blank, fractional or negative value falls back
+const envInteger = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return Number.isSafeInteger(parsed) && parsed > 0 ? parsed : fallback;
+};
+
 export const DEFAULT_SETTINGS = {
   REFRESH_INTERVAL: Number(process.env.NEXT_PUBLIC_REFRESH_INTERVAL) || 30000,
   TRANSACTION_TIMEOUT: Number(process.env.NEXT_PUBLIC_TRANSACTION_TIMEOUT) || 300000,
   SLIPPAGE_TOLERANCE: 0.005, // 0.5%
   GAS_PRICE_MULTIPLIER: Number(process.env.NEXT_PUBLIC_GAS_PRICE_MULTIPLIER) || 1.1,
+  NATIVE_PRICE_USD: Number(process.env.NEXT_PUBLIC_NATIVE_PRICE_USD) || 3000, // for gas cost estimates
+  KYC_VERIFICATION_URL: process.env.NEXT_PUBLIC_KYC_VERIFICATION_URL || '', // external verification page, if any
+  ORACLE_WARN_CONFIDENCE: envInteger(process.env.NEXT_PUBLIC_ORACLE_WARN_CONFIDENCE, 80), // out of 100
+  ORACLE_WARN_DEVIATION_BPS: envInteger(process.env.NEXT_PUBLIC_ORACLE_WARN_DEVIATION_BPS, 300), // spot vs TWAP
+  ORACLE_BLOCK_DEVIATION_BPS: envInteger(process.env.NEXT_PUBLIC_ORACLE_BLOCK_DEVIATION_BPS, 1000),
 };
 
 // ============ DEPLOYMENT INFO ============
@@ -0,0 +1,133 @@
+// utils/kyc.ts
+// KYC requirements as the hub enforces them in onlyVerifiedUser: required for every
+// token while requireKYCDefault is on, and answered by the coinbaseVerifications contract
+// the hub was deployed with. RWAConfig.requiresKYC is not checked by the hub.
+import { ethers } from 'ethers';
+import { connectCoinbaseVerifications, connectMockKYCProvider, MorphoRWALiquidityHub } from './bindings';
+import { DEFAULT_SETTINGS } from './index';
+import { getSigner } from './web3';
+
+export interface KYCStatus {
+  required: boolean;
+  verified: boolean;
+}
+
+export interface AccountKYC {
+  // null when the hub was deployed without a provider
+  provider: string | null;
+  requireKYCDefault: boolean;
+  // null when the provider could not be queried
+  verified: boolean | null;
+  tokens: Record<string, KYCStatus>;
+}
+
+/**
+ * An external verification flow; `start` resolves once the user has finished with it,
+ * after which the provider is read again
+ */
+export interface KYCVerificationFlow {
+  id: string;
+  label: string;
+  start: (account: string, provider: string) => Promise<void>;
+}
+
+/**
+ * The hub's KYC provider, or null if it was deployed without one. The hub ships with a
+ * zero-address placeholder, so the address counts as a provider only once it has code
+ * (scripts/deploy-mock-kyc.js installs MockKYCProvider there on a local node)
+ */
+export const getKYCProvider = async (hub: MorphoRWALiquidityHub): Promise<string | null> => {
+  const provider = await hub.coinbaseVerifications();
+  const code = await hub.runner!.provider!.getCode(provider);
+  return code === '0x' ? null : provider;
+};
+
+const isVerified = async (hub: MorphoRWALiquidityHub, provider: string | null, user: string): Promise<boolean> =>
+  provider !== null && connectCoinbaseVerifications(provider, hub.runner!).isVerified(user);
+
+/**
+ * Whether `user` passes the hub's onlyVerifiedUser check; throws when the requirement
+ * or the verification cannot be read
+ */
+export const getKYCStatus = async (hub: MorphoRWALiquidityHub, user: string): Promise<KYCStatus> => {
+  const required = await hub.requireKYCDefault();
+  if (!required) {
+    return { required, verified: true };
+  }
+
+  return { required, verified: await isVerified(hub, await getKYCProvider(hub), user) };
+};
+
+/**
+ * The account's verification and the KYC requirement of each token, which is the
+ * hub-wide requireKYCDefault for all of them
+ */
+export const getAccountKYC = async (
+  hub: MorphoRWALiquidityHub,
+  user: string,
+  rwaTokens: string[]
+): Promise<AccountKYC> => {
+  const [provider, requireKYCDefault] = await Promise.all([getKYCProvider(hub), hub.requireKYCDefault()]);
+  const verified = await isVerified(hub, provider, user).catch(() => null);
+  const status: KYCStatus = { required: requireKYCDefault, verified: !requireKYCDefault || !!verified };
+
+  return {
+    provider,
+    requireKYCDefault,
+    verified,
+    tokens: Object.fromEntries(rwaTokens.map(token => [token, status]))
+  };
+};
+
+// ============ VERIFICATION FLOWS ============
+
+/**
+ * Send the user to an external verification page, passing their address
+ */
+export const createRedirectFlow = (url: string): KYCVerificationFlow => ({
+  id: 'redirect',
+  label: 'Verify Identity',
+  start: async (account) => {
+    const target = new URL(url);
+    target.searchParams.set('address', account);
+    window.open(target.toString(), '_blank', 'noopener,noreferrer');
+  }
+});
+
+/**
+ * Verify through MockKYCProvider.verifySelf, for local and test deployments
+ */
+export const mockProviderFlow: KYCVerificationFlow = {
+  id: 'mock',
+  label: 'Verify (Test Provider)',
+  start: async (_account, provider) => {
+    const signer = await getSigner();
+    if (!signer) {
+      throw new Error('Connect a wallet to verify');
+    }
+
+    const tx = await connectMockKYCProvider(provider, signer).verifySelf();
+    await tx.wait();
+  }
+};
+
+/**
+ * The flow for a provider: the configured verification page if there is one, otherwise
+ * MockKYCProvider's self-verification when the provider allows it
+ */
+export const getDefaultKYCFlow = async (
+  runner: ethers.ContractRunner,
+  provider: string | null
+): Promise<KYCVerificationFlow | null> => {
+  if (DEFAULT_SETTINGS.KYC_VERIFICATION_URL) {
+    return createRedirectFlow(DEFAULT_SETTINGS.KYC_VERIFICATION_URL);
+  }
+  if (!provider) return null;
+
+  try {
+    return (await connectMockKYCProvider(provider, runner).allowSelfVerification()) ? mockProviderFlow : null;
+  } catch {
+    // Not a mock provider
+    return null;
+  }
+};
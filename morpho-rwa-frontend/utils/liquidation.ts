@@ -0,0 +1,334 @@
+// utils/liquidation.ts
+// Liquidation candidates and quotes for the liquidator console. Liquidations go straight to
+// Morpho Blue's liquidate(), which the hub's liquidatePosition cannot fund. Quotes follow it:
+// the incentive comes from the market LLTV, prices from the market oracle, and interest is
+// accrued with the market IRM's borrow rate.
+import { ethers } from 'ethers';
+import { connectIrm, connectMorpho, CONTRACT_INTERFACES, ContractOutput, IMorpho, MorphoRWALiquidityHub } from './bindings';
+import { getCollateralPrice, getCollateralValueUSD } from './collateral';
+import { toMarket, toMarketParams, toPosition, toPositionAnalytics } from './contracts';
+import { aggregate3 } from './multicall';
+import {
+  accrueInterest,
+  getHealthFactor,
+  isHealthy,
+  mulDivDown,
+  mulDivUp,
+  ORACLE_PRICE_SCALE,
+  toAssetsDown,
+  toAssetsUp,
+  toSharesUp,
+  WAD,
+  wDivUp,
+  wDivDown,
+  wMulDown
+} from './morphoMath';
+import { DEFAULT_SETTINGS } from './index';
+import { GAS_LIMITS, LiquidatePositionParams, Market, MarketParams, Position, PositionAnalytics } from '@/types';
+
+// Morpho Blue's liquidation incentive parameters (ConstantsLib)
+const MAX_LIQUIDATION_INCENTIVE_FACTOR = 1150000000000000000n; // 1.15
+const LIQUIDATION_CURSOR = 300000000000000000n; // 0.3
+
+// USDC has 6 decimals, USD values 18
+const USDC_TO_USD = 10n ** 12n;
+
+// Interest keeps accruing until the liquidation is mined; the USDC allowance covers this long
+const LIQUIDATION_ACCRUAL_MARGIN_SECONDS = 10n * 60n;
+
+// Most RPCs cap eth_getLogs ranges around 10k blocks
+const LOG_CHUNK_SIZE = 10000;
+// How far back to scan when the manifest has no deployment block
+const DEFAULT_LOOKBACK_BLOCKS = 200000;
+
+const ORACLE_ABI = ["function price() view returns (uint256)"];
+
+export interface LiquidationCandidate {
+  borrower: string;
+  rwaToken: string;
+  analytics: PositionAnalytics;
+  // Below the hub's LIQUIDATION_THRESHOLD by its own health factor
+  hubLiquidatable: boolean;
+  // Morpho's health factor (WAD) and isHealthy check with interest accrued to the latest
+  // block. Morpho only liquidates unhealthy positions, whatever the hub reports
+  morphoHealthFactor: bigint;
+  morphoLiquidatable: boolean;
+}
+
+export interface LiquidationQuote {
+  // Morpho's liquidate() arguments; exactly one of seizedAssets and repaidShares is set
+  params: LiquidatePositionParams;
+  morpho: string;
+  marketParams: MarketParams;
+  liquidationIncentiveFactor: bigint;
+  // Expected amounts with interest accrued to the latest block
+  seizedAssets: bigint;
+  repaidShares: bigint;
+  repaidAssets: bigint;
+  // USDC allowance Morpho needs from the liquidator, covering
+  // LIQUIDATION_ACCRUAL_MARGIN_SECONDS of interest after the latest block
+  repayAllowance: bigint;
+  seizedValueUSD: bigint;
+  repaidValueUSD: bigint;
+  gasLimit: bigint;
+  gasCostUSD: bigint;
+  // Seized value minus repayment and gas; negative when the liquidation loses money
+  profitUSD: bigint;
+  // True when the collateral does not cover the debt and Morpho writes the rest off
+  badDebt: boolean;
+  // Whether Morpho considers the position healthy, in which case liquidate() reverts
+  morphoHealthy: boolean;
+}
+
+// A hub market as Morpho sees it, before interest is accrued
+interface MarketState {
+  morpho: IMorpho;
+  marketId: string;
+  marketParams: MarketParams;
+  market: Market;
+  // Per-second borrow rate (WAD) from the market IRM
+  borrowRate: bigint;
+  // Oracle price, scaled by 1e36
+  price: bigint;
+}
+
+export interface QuoteOptions {
+  // Liquidator address, used to estimate gas
+  liquidator?: string;
+  // USD price of the native gas token
+  nativePriceUSD?: number;
+}
+
+/**
+ * Morpho Blue's liquidation incentive factor (WAD) for a market LLTV:
+ * min(1.15, 1 / (1 - 0.3 * (1 - lltv)))
+ */
+export const getLiquidationIncentiveFactor = (lltv: bigint): bigint => {
+  const factor = wDivDown(WAD, WAD - wMulDown(LIQUIDATION_CURSOR, WAD - lltv));
+  return factor < MAX_LIQUIDATION_INCENTIVE_FACTOR ? factor : MAX_LIQUIDATION_INCENTIVE_FACTOR;
+};
+
+/**
+ * Collateral price in loan-token units scaled by 1e36, as Morpho reads it from the market oracle.
+ * Falls back to converting the hub's Chainlink feed when the oracle has no price().
+ */
+const getOraclePrice = async (hub: MorphoRWALiquidityHub, oracle: string, rwaToken: string): Promise<bigint> => {
+  try {
+    return await new ethers.Contract(oracle, ORACLE_ABI, hub.runner).price();
+  } catch {
+    const { price, feedDecimals, tokenDecimals } = await getCollateralPrice(hub, rwaToken);
+    const exponent = 36n + 6n - tokenDecimals - feedDecimals;
+    return exponent >= 0n ? price * 10n ** exponent : price / 10n ** -exponent;
+  }
+};
+
+/**
+ * Read the Morpho market behind the hub's `rwaToken` market, with its IRM rate and oracle price
+ */
+const readMarketState = async (hub: MorphoRWALiquidityHub, rwaToken: string): Promise<MarketState> => {
+  const [morphoAddress, marketId] = await Promise.all([hub.morpho(), hub.rwaMarketIds(rwaToken)]);
+  const morpho = connectMorpho(morphoAddress, hub.runner!);
+
+  const [rawParams, rawMarket] = await Promise.all([morpho.idToMarketParams(marketId), morpho.market(marketId)]);
+  const marketParams = toMarketParams(rawParams);
+
+  const [borrowRate, price] = await Promise.all([
+    marketParams.irm === ethers.ZeroAddress
+      ? 0n
+      : connectIrm(marketParams.irm, hub.runner!).borrowRateView(marketParams, rawMarket),
+    getOraclePrice(hub, marketParams.oracle, rwaToken)
+  ]);
+
+  return { morpho, marketId, marketParams, market: toMarket(rawMarket), borrowRate, price };
+};
+
+const getLatestTimestamp = async (hub: MorphoRWALiquidityHub): Promise<bigint> => {
+  const block = await hub.runner!.provider!.getBlock('latest');
+  if (!block) {
+    throw new Error('Could not read the latest block');
+  }
+  return BigInt(block.timestamp);
+};
+
+/**
+ * Find every (borrower, token) pair that has borrowed through the hub, from its
+ * InstantLiquidityProvided events
+ */
+export const discoverBorrowers = async (
+  hub: MorphoRWALiquidityHub,
+  fromBlock: number | null
+): Promise<Array<{ borrower: string; rwaToken: string }>> => {
+  const provider = hub.runner!.provider!;
+  const latest = await provider.getBlockNumber();
+  const start = fromBlock ?? Math.max(0, latest - DEFAULT_LOOKBACK_BLOCKS);
+
+  const seen = new Map<string, { borrower: string; rwaToken: string }>();
+  for (let from = start; from <= latest; from += LOG_CHUNK_SIZE) {
+    const to = Math.min(from + LOG_CHUNK_SIZE - 1, latest);
+    const events = await hub.queryFilter(hub.filters.InstantLiquidityProvided(), from, to);
+
+    for (const { args } of events) {
+      seen.set(`${args.user}:${args.rwaToken}`.toLowerCase(), { borrower: args.user, rwaToken: args.rwaToken });
+    }
+  }
+
+  return Array.from(seen.values());
+};
+
+/**
+ * Borrowers that the hub or Morpho considers liquidatable, those Morpho can liquidate first,
+ * then riskiest first by Morpho's health factor. The two disagree when the hub's USD health
+ * factor and Morpho's oracle and LLTV check diverge
+ */
+export const getLiquidationCandidates = async (
+  hub: MorphoRWALiquidityHub,
+  fromBlock: number | null
+): Promise<LiquidationCandidate[]> => {
+  const hubInterface = CONTRACT_INTERFACES.RWA_HUB;
+  const morphoInterface = CONTRACT_INTERFACES.MORPHO_BLUE;
+  const target = await hub.getAddress();
+
+  const [borrowers, threshold, timestamp] = await Promise.all([
+    discoverBorrowers(hub, fromBlock),
+    hub.LIQUIDATION_THRESHOLD(),
+    getLatestTimestamp(hub)
+  ]);
+
+  const tokens = Array.from(new Set(borrowers.map(({ rwaToken }) => rwaToken)));
+  const states = new Map(
+    await Promise.all(tokens.map(async token => [token, await readMarketState(hub, token)] as const))
+  );
+
+  const [analyticsResults, positionResults] = await Promise.all([
+    aggregate3<PositionAnalytics>(hub.runner!, borrowers.map(({ borrower, rwaToken }) => ({
+      target,
+      callData: hubInterface.encodeFunctionData('getPositionAnalytics', [borrower, rwaToken]),
+      decode: (data: string) =>
+        toPositionAnalytics(
+          hubInterface.decodeFunctionResult('getPositionAnalytics', data) as ContractOutput<MorphoRWALiquidityHub['getPositionAnalytics']>
+        )
+    }))),
+    aggregate3<Position>(hub.runner!, borrowers.map(({ borrower, rwaToken }) => {
+      const { morpho, marketId } = states.get(rwaToken)!;
+      return {
+        target: morpho.target as string,
+        callData: morphoInterface.encodeFunctionData('position', [marketId, borrower]),
+        decode: (data: string) => toPosition(morphoInterface.decodeFunctionResult('position', data)[0])
+      };
+    }))
+  ]);
+
+  return borrowers
+    .map((pair, i): LiquidationCandidate | null => {
+      const analytics = analyticsResults[i].data;
+      const position = positionResults[i].data;
+      if (!analytics || !position || position.borrowShares === 0n) return null;
+
+      const { market, borrowRate, price, marketParams } = states.get(pair.rwaToken)!;
+      const accrued = accrueInterest(market, borrowRate, timestamp);
+      const morphoHealthFactor = getHealthFactor(position, accrued, price, marketParams.lltv);
+      const hubLiquidatable = analytics.borrowedAssets > 0n && analytics.healthFactor < threshold;
+      const morphoLiquidatable = !isHealthy(position, accrued, price, marketParams.lltv);
+
+      if (!hubLiquidatable && !morphoLiquidatable) return null;
+      return { ...pair, analytics, hubLiquidatable, morphoHealthFactor, morphoLiquidatable };
+    })
+    .filter((candidate): candidate is LiquidationCandidate => candidate !== null)
+    .sort((a, b) => {
+      if (a.morphoLiquidatable !== b.morphoLiquidatable) return a.morphoLiquidatable ? -1 : 1;
+      return a.morphoHealthFactor < b.morphoHealthFactor ? -1 : 1;
+    });
+};
+
+/**
+ * Quote the largest liquidation of `borrower` on Morpho: repay all borrow shares if the
+ * collateral covers the incentive, otherwise seize all collateral and leave the rest as bad debt
+ */
+export const getLiquidationQuote = async (
+  hub: MorphoRWALiquidityHub,
+  borrower: string,
+  rwaToken: string,
+  { liquidator, nativePriceUSD = DEFAULT_SETTINGS.NATIVE_PRICE_USD }: QuoteOptions = {}
+): Promise<LiquidationQuote> => {
+  const [{ morpho, marketId, marketParams, market, borrowRate, price }, timestamp] = await Promise.all([
+    readMarketState(hub, rwaToken),
+    getLatestTimestamp(hub)
+  ]);
+  if (price === 0n) {
+    throw new Error('Invalid collateral price');
+  }
+  const position = toPosition(await morpho.position(marketId, borrower));
+
+  const current = accrueInterest(market, borrowRate, timestamp);
+  const projected = accrueInterest(market, borrowRate, timestamp + LIQUIDATION_ACCRUAL_MARGIN_SECONDS);
+  const liquidationIncentiveFactor = getLiquidationIncentiveFactor(marketParams.lltv);
+
+  // Collateral Morpho hands over for repaying all borrow shares
+  const fullCloseSeized = mulDivDown(
+    wMulDown(toAssetsDown(position.borrowShares, current.totalBorrowAssets, current.totalBorrowShares), liquidationIncentiveFactor),
+    ORACLE_PRICE_SCALE,
+    price
+  );
+
+  let params: LiquidatePositionParams;
+  let seizedAssets: bigint;
+  // Shares Morpho burns for the seized collateral at a given accrual
+  let sharesFor: (state: Market) => bigint;
+
+  if (fullCloseSeized <= position.collateral) {
+    seizedAssets = fullCloseSeized;
+    params = { borrower, rwaToken, seizedAssets: 0n, repaidShares: position.borrowShares };
+    sharesFor = () => position.borrowShares;
+  } else {
+    seizedAssets = position.collateral;
+    params = { borrower, rwaToken, seizedAssets, repaidShares: 0n };
+    const seizedAssetsQuoted = mulDivUp(seizedAssets, price, ORACLE_PRICE_SCALE);
+    sharesFor = (state) =>
+      toSharesUp(wDivUp(seizedAssetsQuoted, liquidationIncentiveFactor), state.totalBorrowAssets, state.totalBorrowShares);
+  }
+
+  const repaidShares = sharesFor(current);
+  const repaidAssets = toAssetsUp(repaidShares, current.totalBorrowAssets, current.totalBorrowShares);
+  const repayAllowance = toAssetsUp(sharesFor(projected), projected.totalBorrowAssets, projected.totalBorrowShares);
+  const repaidValueUSD = repaidAssets * USDC_TO_USD;
+  const seizedValueUSD = await getCollateralValueUSD(hub, rwaToken, seizedAssets);
+
+  // Estimation reverts until the liquidator has approved Morpho; fall back to the default limit
+  let gasLimit = BigInt(GAS_LIMITS.LIQUIDATE);
+  if (liquidator) {
+    try {
+      gasLimit = await morpho.liquidate.estimateGas(
+        marketParams,
+        borrower,
+        params.seizedAssets,
+        params.repaidShares,
+        '0x',
+        { from: liquidator }
+      );
+    } catch {
+      // keep the default
+    }
+  }
+
+  const feeData = await hub.runner!.provider!.getFeeData();
+  const gasPrice = feeData.gasPrice ?? feeData.maxFeePerGas ?? 0n;
+  const gasCostUSD = wMulDown(gasLimit * gasPrice, ethers.parseUnits(nativePriceUSD.toFixed(6), 18));
+
+  return {
+    params,
+    morpho: morpho.target as string,
+    marketParams,
+    liquidationIncentiveFactor,
+    seizedAssets,
+    repaidShares,
+    repaidAssets,
+    repayAllowance,
+    seizedValueUSD,
+    repaidValueUSD,
+    gasLimit,
+    gasCostUSD,
+    profitUSD: seizedValueUSD - repaidValueUSD - gasCostUSD,
+    badDebt: repaidShares < position.borrowShares,
+    morphoHealthy: isHealthy(position, current, price, marketParams.lltv)
+  };
+};
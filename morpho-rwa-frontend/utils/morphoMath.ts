@@ -0,0 +1,147 @@
+// utils/morphoMath.ts
+// Port of Morpho Blue's MathLib, SharesMathLib and interest accrual, so debt, health and
+// borrow capacity can be computed offline from raw Position and Market structs.
+// Rounding matches the contracts: whatever favours the protocol.
+import { ethers } from 'ethers';
+import { Market, Position } from '@/types';
+
+// ============ CONSTANTS ============
+
+export const WAD = 10n ** 18n;
+
+// Scale of the collateral price returned by Morpho oracles (ConstantsLib)
+export const ORACLE_PRICE_SCALE = 10n ** 36n;
+
+// Virtual shares and assets that protect against share price manipulation (SharesMathLib)
+export const VIRTUAL_SHARES = 10n ** 6n;
+export const VIRTUAL_ASSETS = 1n;
+
+// ============ MathLib ============
+
+/**
+ * (x * y) / d rounded down
+ */
+export const mulDivDown = (x: bigint, y: bigint, d: bigint): bigint => (x * y) / d;
+
+/**
+ * (x * y) / d rounded up
+ */
+export const mulDivUp = (x: bigint, y: bigint, d: bigint): bigint => (x * y + (d - 1n)) / d;
+
+/**
+ * (x * y) / WAD rounded down
+ */
+export const wMulDown = (x: bigint, y: bigint): bigint => mulDivDown(x, y, WAD);
+
+/**
+ * (x * WAD) / y rounded down
+ */
+export const wDivDown = (x: bigint, y: bigint): bigint => mulDivDown(x, WAD, y);
+
+/**
+ * (x * WAD) / y rounded up
+ */
+export const wDivUp = (x: bigint, y: bigint): bigint => mulDivUp(x, WAD, y);
+
+/**
+ * First three terms of the Taylor expansion of e^(n * x) - 1, Morpho's approximation
+ * of continuously compounded interest for a per-second rate `x` over `n` seconds
+ */
+export const wTaylorCompounded = (x: bigint, n: bigint): bigint => {
+  const firstTerm = x * n;
+  const secondTerm = mulDivDown(firstTerm, firstTerm, 2n * WAD);
+  const thirdTerm = mulDivDown(secondTerm, firstTerm, 3n * WAD);
+
+  return firstTerm + secondTerm + thirdTerm;
+};
+
+/**
+ * max(x - y, 0) (UtilsLib)
+ */
+export const zeroFloorSub = (x: bigint, y: bigint): bigint => (x > y ? x - y : 0n);
+
+// ============ SharesMathLib ============
+
+export const toSharesDown = (assets: bigint, totalAssets: bigint, totalShares: bigint): bigint =>
+  mulDivDown(assets, totalShares + VIRTUAL_SHARES, totalAssets + VIRTUAL_ASSETS);
+
+export const toAssetsDown = (shares: bigint, totalAssets: bigint, totalShares: bigint): bigint =>
+  mulDivDown(shares, totalAssets + VIRTUAL_ASSETS, totalShares + VIRTUAL_SHARES);
+
+export const toSharesUp = (assets: bigint, totalAssets: bigint, totalShares: bigint): bigint =>
+  mulDivUp(assets, totalShares + VIRTUAL_SHARES, totalAssets + VIRTUAL_ASSETS);
+
+export const toAssetsUp = (shares: bigint, totalAssets: bigint, totalShares: bigint): bigint =>
+  mulDivUp(shares, totalAssets + VIRTUAL_ASSETS, totalShares + VIRTUAL_SHARES);
+
+// ============ INTEREST ============
+
+/**
+ * Market state after accruing interest up to `timestamp`, as Morpho's _accrueInterest does.
+ * `borrowRate` is the IRM's per-second rate (WAD), e.g. from borrowRateView.
+ */
+export const accrueInterest = (market: Market, borrowRate: bigint, timestamp: bigint): Market => {
+  const elapsed = timestamp - market.lastUpdate;
+  if (elapsed <= 0n) return market;
+
+  const interest = wMulDown(market.totalBorrowAssets, wTaylorCompounded(borrowRate, elapsed));
+  const totalSupplyAssets = market.totalSupplyAssets + interest;
+
+  // The fee is paid in supply shares, minted against the supply before the fee is added
+  let totalSupplyShares = market.totalSupplyShares;
+  if (market.fee !== 0n) {
+    const feeAmount = wMulDown(interest, market.fee);
+    totalSupplyShares += toSharesDown(feeAmount, totalSupplyAssets - feeAmount, market.totalSupplyShares);
+  }
+
+  return {
+    ...market,
+    totalSupplyAssets,
+    totalSupplyShares,
+    totalBorrowAssets: market.totalBorrowAssets + interest,
+    lastUpdate: timestamp
+  };
+};
+
+// ============ POSITION ============
+
+/**
+ * Debt of a position in loan-token units, rounded up as Morpho does for repayments and health checks
+ */
+export const getBorrowAssets = (position: Position, market: Market): bigint =>
+  toAssetsUp(position.borrowShares, market.totalBorrowAssets, market.totalBorrowShares);
+
+/**
+ * Supplied assets of a position in loan-token units, rounded down
+ */
+export const getSupplyAssets = (position: Position, market: Market): bigint =>
+  toAssetsDown(position.supplyShares, market.totalSupplyAssets, market.totalSupplyShares);
+
+/**
+ * Largest debt `collateral` supports before liquidation, for an oracle `price` (1e36 scale) and `lltv` (WAD)
+ */
+export const getMaxBorrow = (collateral: bigint, price: bigint, lltv: bigint): bigint =>
+  wMulDown(mulDivDown(collateral, price, ORACLE_PRICE_SCALE), lltv);
+
+/**
+ * Whether Morpho considers the position healthy (not liquidatable)
+ */
+export const isHealthy = (position: Position, market: Market, price: bigint, lltv: bigint): boolean =>
+  getMaxBorrow(position.collateral, price, lltv) >= getBorrowAssets(position, market);
+
+/**
+ * Morpho health factor in WAD: max borrow over debt, liquidatable below 1e18.
+ * ethers.MaxUint256 when there is no debt.
+ */
+export const getHealthFactor = (position: Position, market: Market, price: bigint, lltv: bigint): bigint => {
+  const borrowed = getBorrowAssets(position, market);
+  if (borrowed === 0n) return ethers.MaxUint256;
+
+  return wDivDown(getMaxBorrow(position.collateral, price, lltv), borrowed);
+};
+
+/**
+ * Additional loan-token amount the position can borrow before it becomes liquidatable
+ */
+export const getBorrowCapacity = (position: Position, market: Market, price: bigint, lltv: bigint): bigint =>
+  zeroFloorSub(getMaxBorrow(position.collateral, price, lltv), getBorrowAssets(position, market));
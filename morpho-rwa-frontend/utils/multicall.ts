@@ -0,0 +1,288 @@
+// utils/multicall.ts
+import { ethers } from 'ethers';
+import { CONTRACT_INTERFACES, ContractOutput, MorphoRWALiquidityHub } from './bindings';
+import { toMarket, toPositionAnalytics, toRWAConfig, toUserPosition } from './contracts';
+import { ERC20_ABI } from './web3';
+import { requireRegistry } from './registry';
+import { decodeRevertData } from './errors';
+import {
+  ComprehensiveMarketInfo,
+  ContractRegistry,
+  Market,
+  OraclePriceData,
+  PositionAnalytics,
+  UserPosition
+} from '@/types';
+
+// Multicall3 is deployed at the same address on every supported chain
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+export const MULTICALL3_ABI = [
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)",
+  "function getBlockNumber() view returns (uint256 blockNumber)"
+];
+
+const multicallInterface = new ethers.Interface(MULTICALL3_ABI);
+const erc20Interface = new ethers.Interface(ERC20_ABI);
+
+export interface MulticallRequest<T = unknown> {
+  target: string;
+  callData: string;
+  decode: (returnData: string) => T;
+}
+
+export interface MulticallResult<T = unknown> {
+  success: boolean;
+  data: T | null;
+  error: string | null;
+}
+
+// Return data of one call in a batch, before it is decoded
+export interface MulticallResponse {
+  success: boolean;
+  returnData: string;
+}
+
+export interface TokenSnapshot {
+  token: string;
+  analytics: PositionAnalytics | null;
+  marketState: Market | null;
+  marketInfo: ComprehensiveMarketInfo | null;
+  oraclePrice: OraclePriceData | null;
+  balance: bigint | null;
+  allowance: bigint | null;
+  errors: Record<string, string>;
+}
+
+export interface DashboardSnapshot {
+  chainId: bigint;
+  blockNumber: number;
+  user: string;
+  tokens: Record<string, TokenSnapshot>;
+  // Totals the hub tracks across all of the user's tokens; null if the call failed
+  userPosition: UserPosition | null;
+}
+
+/**
+ * Execute calls through Multicall3.aggregate3 with allowFailure set on each,
+ * so a single reverting call does not fail the whole batch. Responses come back
+ * in call order; decode each with the request that produced it
+ */
+export const aggregate3Raw = async (
+  runner: ethers.ContractRunner,
+  calls: Array<Pick<MulticallRequest, 'target' | 'callData'>>,
+  blockTag?: ethers.BlockTag
+): Promise<MulticallResponse[]> => {
+  if (calls.length === 0) return [];
+
+  const multicall = new ethers.Contract(MULTICALL3_ADDRESS, multicallInterface, runner);
+  const results: Array<{ success: boolean; returnData: string }> = await multicall.aggregate3.staticCall(
+    calls.map(({ target, callData }) => ({ target, allowFailure: true, callData })),
+    { blockTag }
+  );
+
+  return results.map(({ success, returnData }) => ({ success, returnData }));
+};
+
+/**
+ * Decode a response with its request; reverts and undecodable data become failed results
+ */
+export const decodeResult = <T>(request: MulticallRequest<T>, response: MulticallResponse): MulticallResult<T> => {
+  if (!response.success) {
+    return { success: false, data: null, error: decodeRevertData(response.returnData)?.reason || 'Call reverted' };
+  }
+
+  try {
+    return { success: true, data: request.decode(response.returnData), error: null };
+  } catch (error: any) {
+    return { success: false, data: null, error: error.message || 'Could not decode result' };
+  }
+};
+
+/**
+ * aggregate3Raw for requests that all decode to the same type
+ */
+export const aggregate3 = async <T>(
+  runner: ethers.ContractRunner,
+  requests: MulticallRequest<T>[],
+  blockTag?: ethers.BlockTag
+): Promise<MulticallResult<T>[]> => {
+  const responses = await aggregate3Raw(runner, requests, blockTag);
+  return responses.map((response, i) => decodeResult<T>(requests[i], response));
+};
+
+// ============ DASHBOARD SNAPSHOT ============
+
+type SnapshotField = Exclude<keyof TokenSnapshot, 'token' | 'errors'>;
+
+// One read per snapshot field, decoding to that field's type
+type TokenRequest = {
+  [F in SnapshotField]: { field: F; request: MulticallRequest<NonNullable<TokenSnapshot[F]>> };
+}[SnapshotField];
+
+const applyResult = <F extends SnapshotField>(
+  snapshot: TokenSnapshot,
+  { field, request }: { field: F; request: MulticallRequest<NonNullable<TokenSnapshot[F]>> },
+  response: MulticallResponse
+) => {
+  const result = decodeResult<NonNullable<TokenSnapshot[F]>>(request, response);
+  if (result.success && result.data !== null) {
+    snapshot[field] = result.data;
+  } else {
+    snapshot.errors[field] = result.error || 'Call failed';
+  }
+};
+
+const buildTokenRequests = (
+  registry: ContractRegistry,
+  user: string,
+  token: string
+): TokenRequest[] => {
+  const hub = CONTRACT_INTERFACES.RWA_HUB;
+  const oracle = CONTRACT_INTERFACES.RWA_ORACLE;
+
+  return [
+    {
+      field: 'analytics',
+      request: {
+        target: registry.hub,
+        callData: hub.encodeFunctionData('getPositionAnalytics', [user, token]),
+        decode: (data) => toPositionAnalytics(
+          hub.decodeFunctionResult('getPositionAnalytics', data) as ContractOutput<MorphoRWALiquidityHub['getPositionAnalytics']>
+        )
+      }
+    },
+    {
+      field: 'marketState',
+      request: {
+        target: registry.hub,
+        callData: hub.encodeFunctionData('getMarketState', [token]),
+        decode: (data) => toMarket(hub.decodeFunctionResult('getMarketState', data)[0])
+      }
+    },
+    {
+      field: 'marketInfo',
+      request: {
+        target: registry.hub,
+        callData: hub.encodeFunctionData('getComprehensiveMarketInfo', [token]),
+        decode: (data): ComprehensiveMarketInfo => {
+          const info = hub.decodeFunctionResult('getComprehensiveMarketInfo', data);
+          return {
+            marketId: info.marketId,
+            config: toRWAConfig(info.config),
+            marketState: toMarket(info.marketState),
+            totalSupply: info.totalSupply,
+            totalBorrow: info.totalBorrow,
+            utilizationRate: info.utilizationRate
+          };
+        }
+      }
+    },
+    {
+      field: 'oraclePrice',
+      request: {
+        target: registry.oracle,
+        callData: oracle.encodeFunctionData('getPriceWithMetadata', [token]),
+        decode: (data): OraclePriceData => {
+          const [price, timestamp, confidence] = oracle.decodeFunctionResult('getPriceWithMetadata', data);
+          return { price, timestamp, confidence };
+        }
+      }
+    },
+    {
+      field: 'balance',
+      request: {
+        target: token,
+        callData: erc20Interface.encodeFunctionData('balanceOf', [user]),
+        decode: (data): bigint => erc20Interface.decodeFunctionResult('balanceOf', data)[0]
+      }
+    },
+    {
+      field: 'allowance',
+      request: {
+        target: token,
+        callData: erc20Interface.encodeFunctionData('allowance', [user, registry.hub]),
+        decode: (data): bigint => erc20Interface.decodeFunctionResult('allowance', data)[0]
+      }
+    }
+  ];
+};
+
+const readDashboardSnapshot = async (
+  provider: ethers.Provider,
+  chainId: bigint,
+  user: string,
+  tokens: string[],
+  blockNumber: number
+): Promise<DashboardSnapshot> => {
+  const registry = requireRegistry(chainId);
+  const entries = tokens.map(token => ({ token, calls: buildTokenRequests(registry, user, token) }));
+  const hub = CONTRACT_INTERFACES.RWA_HUB;
+  const userPositionRequest: MulticallRequest<UserPosition> = {
+    target: registry.hub,
+    callData: hub.encodeFunctionData('getUserPositionInfo', [user]),
+    decode: (data) => toUserPosition(hub.decodeFunctionResult('getUserPositionInfo', data)[0])
+  };
+
+  const responses = await aggregate3Raw(
+    provider,
+    [...entries.flatMap(({ calls }) => calls.map(({ request }) => request)), userPositionRequest],
+    blockNumber
+  );
+
+  let cursor = 0;
+  const snapshots: Record<string, TokenSnapshot> = {};
+
+  for (const { token, calls } of entries) {
+    const snapshot: TokenSnapshot = {
+      token,
+      analytics: null,
+      marketState: null,
+      marketInfo: null,
+      oraclePrice: null,
+      balance: null,
+      allowance: null,
+      errors: {}
+    };
+
+    for (const call of calls) {
+      applyResult(snapshot, call, responses[cursor++]);
+    }
+
+    snapshots[token] = snapshot;
+  }
+
+  const userPosition = decodeResult<UserPosition>(userPositionRequest, responses[cursor]);
+  return { chainId, blockNumber, user, tokens: snapshots, userPosition: userPosition.success ? userPosition.data : null };
+};
+
+// One in-flight or settled snapshot per chain/user/token set, reused until a new block arrives
+const snapshotCache = new Map<string, { blockNumber: number; snapshot: Promise<DashboardSnapshot> }>();
+
+/**
+ * Read position analytics, market state, market info, oracle price and wallet
+ * balance/allowance for every token, plus the hub's position totals, in a single
+ * aggregate3 call per block
+ */
+export const fetchDashboardSnapshot = async (
+  provider: ethers.Provider,
+  user: string,
+  tokens: string[]
+): Promise<DashboardSnapshot> => {
+  const [{ chainId }, blockNumber] = await Promise.all([
+    provider.getNetwork(),
+    provider.getBlockNumber()
+  ]);
+
+  const key = [chainId, user, ...tokens].join(':').toLowerCase();
+  const cached = snapshotCache.get(key);
+  if (cached && cached.blockNumber === blockNumber) {
+    return cached.snapshot;
+  }
+
+  const snapshot = readDashboardSnapshot(provider, chainId, user, tokens, blockNumber);
+  snapshotCache.set(key, { blockNumber, snapshot });
+  snapshot.catch(() => snapshotCache.delete(key));
+
+  return snapshot;
+};
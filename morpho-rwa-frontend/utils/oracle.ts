@@ -0,0 +1,252 @@
+// utils/oracle.ts
+// Reads RWAOracle spot and TWAP prices, metadata, price history, update status and
+// overall health for a set of tokens in one multicall, next to the feed price the hub
+// actually values collateral at.
+import { ethers } from 'ethers';
+import { CONTRACT_INTERFACES, MorphoRWALiquidityHub } from './bindings';
+import { CollateralPrice, getCollateralPrice, BASIS_POINTS } from './collateral';
+import { toOracleConfig, toOraclePricePoint } from './contracts';
+import { decodeContractError } from './errors';
+import { aggregate3Raw, decodeResult, MulticallRequest, MulticallResponse, MulticallResult } from './multicall';
+import { ContractRegistry, OracleConfig, OraclePriceData, OraclePricePoint } from '@/types';
+
+// RWAOracle.PRICE_SCALE and MIN_CONFIDENCE
+export const ORACLE_PRICE_DECIMALS = 8;
+export const MIN_CONFIDENCE = 50n;
+
+// Price history entries read per token
+const HISTORY_LIMIT = 48;
+
+export interface OracleTokenReport {
+  token: string;
+  config: OracleConfig | null;
+  spotPrice: bigint | null;
+  // Why getPrice reverted, e.g. the price is too old or its confidence too low
+  spotError: string | null;
+  twapPrice: bigint | null;
+  metadata: OraclePriceData | null;
+  history: OraclePricePoint[];
+  needsUpdate: boolean | null;
+  // Seconds since the last update, at the latest block
+  age: number | null;
+  // Older than the token's maxPriceAge, so getPrice reverts
+  isStale: boolean;
+  // |spot - TWAP| / TWAP in basis points
+  twapDeviationBps: bigint | null;
+  // Feed the hub values collateral with (RWAConfig.oracle), at the same block as the oracle
+  hubPrice: CollateralPrice | null;
+  // Why the hub's feed could not be read, e.g. RWAConfig.oracle is not a price feed
+  hubPriceError: string | null;
+}
+
+export interface OracleHealth {
+  healthyCount: bigint;
+  totalCount: bigint;
+  unhealthyTokens: string[];
+  // globalPriceUpdateInterval, in seconds
+  updateInterval: bigint;
+}
+
+export interface OracleDashboard {
+  blockTimestamp: number;
+  health: OracleHealth | null;
+  tokens: Record<string, OracleTokenReport>;
+}
+
+// One read per oracle field of a token, decoding to that field's type
+interface TokenRequests {
+  config: MulticallRequest<OracleConfig>;
+  spotPrice: MulticallRequest<bigint>;
+  twapPrice: MulticallRequest<bigint>;
+  metadata: MulticallRequest<OraclePriceData>;
+  history: MulticallRequest<OraclePricePoint[]>;
+  needsUpdate: MulticallRequest<boolean>;
+}
+
+interface TokenResults {
+  config: MulticallResult<OracleConfig>;
+  spotPrice: MulticallResult<bigint>;
+  twapPrice: MulticallResult<bigint>;
+  metadata: MulticallResult<OraclePriceData>;
+  history: MulticallResult<OraclePricePoint[]>;
+  needsUpdate: MulticallResult<boolean>;
+}
+
+const buildTokenRequests = (oracleAddress: string, token: string): TokenRequests => {
+  const oracle = CONTRACT_INTERFACES.RWA_ORACLE;
+
+  return {
+    config: {
+      target: oracleAddress,
+      callData: oracle.encodeFunctionData('getOracleConfig', [token]),
+      decode: (data) => toOracleConfig(oracle.decodeFunctionResult('getOracleConfig', data)[0])
+    },
+    spotPrice: {
+      target: oracleAddress,
+      callData: oracle.encodeFunctionData('getPrice', [token]),
+      decode: (data): bigint => oracle.decodeFunctionResult('getPrice', data)[0]
+    },
+    twapPrice: {
+      target: oracleAddress,
+      callData: oracle.encodeFunctionData('getTWAPPrice', [token]),
+      decode: (data): bigint => oracle.decodeFunctionResult('getTWAPPrice', data)[0]
+    },
+    metadata: {
+      target: oracleAddress,
+      callData: oracle.encodeFunctionData('getPriceWithMetadata', [token]),
+      decode: (data): OraclePriceData => {
+        const [price, timestamp, confidence] = oracle.decodeFunctionResult('getPriceWithMetadata', data);
+        return { price, timestamp, confidence };
+      }
+    },
+    history: {
+      target: oracleAddress,
+      callData: oracle.encodeFunctionData('getPriceHistory', [token, HISTORY_LIMIT]),
+      decode: (data): OraclePricePoint[] =>
+        [...oracle.decodeFunctionResult('getPriceHistory', data)[0]].map(toOraclePricePoint)
+    },
+    needsUpdate: {
+      target: oracleAddress,
+      callData: oracle.encodeFunctionData('needsPriceUpdate', [token]),
+      decode: (data): boolean => oracle.decodeFunctionResult('needsPriceUpdate', data)[0]
+    }
+  };
+};
+
+const flattenTokenRequests = (requests: TokenRequests) => [
+  requests.config,
+  requests.spotPrice,
+  requests.twapPrice,
+  requests.metadata,
+  requests.history,
+  requests.needsUpdate
+];
+
+// Responses are in flattenTokenRequests order
+const decodeTokenResults = (requests: TokenRequests, responses: MulticallResponse[]): TokenResults => {
+  const [config, spotPrice, twapPrice, metadata, history, needsUpdate] = responses;
+  return {
+    config: decodeResult<OracleConfig>(requests.config, config),
+    spotPrice: decodeResult<bigint>(requests.spotPrice, spotPrice),
+    twapPrice: decodeResult<bigint>(requests.twapPrice, twapPrice),
+    metadata: decodeResult<OraclePriceData>(requests.metadata, metadata),
+    history: decodeResult<OraclePricePoint[]>(requests.history, history),
+    needsUpdate: decodeResult<boolean>(requests.needsUpdate, needsUpdate)
+  };
+};
+
+interface HubPriceResult {
+  price: CollateralPrice | null;
+  error: string | null;
+}
+
+const readHubPrice = (hub: MorphoRWALiquidityHub, token: string, blockTag: number): Promise<HubPriceResult> =>
+  getCollateralPrice(hub, token, blockTag).then(
+    price => ({ price, error: null }),
+    error => ({ price: null, error: decodeContractError(error).message })
+  );
+
+interface HealthRequests {
+  status: MulticallRequest<Omit<OracleHealth, 'updateInterval'>>;
+  updateInterval: MulticallRequest<bigint>;
+}
+
+const buildHealthRequests = (oracleAddress: string): HealthRequests => {
+  const oracle = CONTRACT_INTERFACES.RWA_ORACLE;
+
+  return {
+    status: {
+      target: oracleAddress,
+      callData: oracle.encodeFunctionData('getOracleHealthStatus'),
+      decode: (data) => {
+        const [healthyCount, totalCount, unhealthyTokens] = oracle.decodeFunctionResult('getOracleHealthStatus', data);
+        return { healthyCount, totalCount, unhealthyTokens: [...unhealthyTokens] };
+      }
+    },
+    updateInterval: {
+      target: oracleAddress,
+      callData: oracle.encodeFunctionData('globalPriceUpdateInterval'),
+      decode: (data): bigint => oracle.decodeFunctionResult('globalPriceUpdateInterval', data)[0]
+    }
+  };
+};
+
+const toTokenReport = (
+  token: string,
+  fields: TokenResults,
+  hubPrice: HubPriceResult,
+  blockTimestamp: number
+): OracleTokenReport => {
+  const config = fields.config.data ?? null;
+  const spotPrice = fields.spotPrice.data ?? null;
+  const twapPrice = fields.twapPrice.data ?? null;
+  const metadata = fields.metadata.data ?? null;
+
+  const age = metadata ? Math.max(0, blockTimestamp - Number(metadata.timestamp)) : null;
+  const deviation = spotPrice !== null && twapPrice ? (spotPrice > twapPrice ? spotPrice - twapPrice : twapPrice - spotPrice) : null;
+
+  return {
+    token,
+    config,
+    spotPrice,
+    spotError: fields.spotPrice.success ? null : fields.spotPrice.error,
+    twapPrice,
+    metadata,
+    history: fields.history.data ?? [],
+    needsUpdate: fields.needsUpdate.data ?? null,
+    age,
+    isStale: age !== null && config !== null && BigInt(age) > config.maxPriceAge,
+    twapDeviationBps: deviation !== null && twapPrice ? (deviation * BASIS_POINTS) / twapPrice : null,
+    hubPrice: hubPrice.price,
+    hubPriceError: hubPrice.error
+  };
+};
+
+/**
+ * Everything the oracle dashboard shows for `tokens`, including the hub's feed price,
+ * read at the latest block
+ */
+export const getOracleDashboard = async (
+  provider: ethers.Provider,
+  registry: ContractRegistry,
+  hub: MorphoRWALiquidityHub,
+  tokens: string[]
+): Promise<OracleDashboard> => {
+  const block = await provider.getBlock('latest');
+  if (!block) {
+    throw new Error('Could not read the latest block');
+  }
+
+  const entries = tokens.map(token => ({ token, requests: buildTokenRequests(registry.oracle, token) }));
+  const health = buildHealthRequests(registry.oracle);
+
+  const [responses, hubPrices] = await Promise.all([
+    aggregate3Raw(
+      provider,
+      [...entries.flatMap(({ requests }) => flattenTokenRequests(requests)), health.status, health.updateInterval],
+      block.number
+    ),
+    Promise.all(tokens.map(token => readHubPrice(hub, token, block.number)))
+  ]);
+
+  let cursor = 0;
+  const reports: Record<string, OracleTokenReport> = {};
+
+  entries.forEach(({ token, requests }, i) => {
+    const count = flattenTokenRequests(requests).length;
+    const fields = decodeTokenResults(requests, responses.slice(cursor, cursor + count));
+    cursor += count;
+    reports[token] = toTokenReport(token, fields, hubPrices[i], block.timestamp);
+  });
+
+  const healthResult = decodeResult<Omit<OracleHealth, 'updateInterval'>>(health.status, responses[cursor]);
+  const intervalResult = decodeResult<bigint>(health.updateInterval, responses[cursor + 1]);
+
+  return {
+    blockTimestamp: block.timestamp,
+    health: healthResult.data
+      ? { ...healthResult.data, updateInterval: intervalResult.data ?? 0n }
+      : null,
+    tokens: reports
+  };
+};
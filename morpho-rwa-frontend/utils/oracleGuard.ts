@@ -0,0 +1,171 @@
+// utils/oracleGuard.ts
+// Checks the RWAOracle price behind a token before collateral is borrowed against or
+// withdrawn: a stale price, low confidence or a spot price far from the TWAP either
+// warns or blocks, and authorized updaters can refresh the price from Chainlink first.
+import { ethers } from 'ethers';
+import { connectOracle, MorphoRWALiquidityHub } from './bindings';
+import { formatBigInt, formatDuration, DEFAULT_SETTINGS } from './index';
+import { getOracleDashboard, MIN_CONFIDENCE, OracleTokenReport } from './oracle';
+import { ContractRegistry } from '@/types';
+
+export type OracleGuardLevel = 'ok' | 'warn' | 'block';
+
+export type OracleIssueCode =
+  | 'unreadable'
+  | 'untracked'
+  | 'no-price'
+  | 'stale'
+  | 'update-due'
+  | 'low-confidence'
+  | 'twap-deviation';
+
+export interface OracleIssue {
+  code: OracleIssueCode;
+  severity: Exclude<OracleGuardLevel, 'ok'>;
+  message: string;
+}
+
+export interface OracleGuardSettings {
+  // Warn below this confidence; the oracle itself rejects prices below MIN_CONFIDENCE
+  warnConfidence: bigint;
+  // Spot vs TWAP deviation bands, in basis points
+  warnDeviationBps: bigint;
+  blockDeviationBps: bigint;
+}
+
+export interface OracleGuardResult {
+  level: OracleGuardLevel;
+  issues: OracleIssue[];
+  report: OracleTokenReport | null;
+  // The user may call updatePriceFromChainlink for this token
+  canUpdate: boolean;
+}
+
+export const DEFAULT_ORACLE_GUARD_SETTINGS: OracleGuardSettings = {
+  warnConfidence: BigInt(DEFAULT_SETTINGS.ORACLE_WARN_CONFIDENCE),
+  warnDeviationBps: BigInt(DEFAULT_SETTINGS.ORACLE_WARN_DEVIATION_BPS),
+  blockDeviationBps: BigInt(DEFAULT_SETTINGS.ORACLE_BLOCK_DEVIATION_BPS)
+};
+
+const formatBps = (bps: bigint): string => `${formatBigInt(bps, 2, 2)}%`;
+
+/**
+ * Issues with the oracle price in `report`, most severe first
+ */
+export const evaluateOracleReport = (
+  report: OracleTokenReport,
+  settings: OracleGuardSettings = DEFAULT_ORACLE_GUARD_SETTINGS
+): OracleIssue[] => {
+  const { config, metadata } = report;
+  const issues: OracleIssue[] = [];
+
+  if (!config) {
+    return [{ code: 'unreadable', severity: 'block', message: 'The oracle configuration for this token could not be read' }];
+  }
+
+  if (!config.isActive) {
+    return [{
+      code: 'untracked',
+      severity: 'warn',
+      message: 'The oracle does not track this token, so its price could not be cross-checked'
+    }];
+  }
+
+  if (!metadata) {
+    issues.push({ code: 'no-price', severity: 'block', message: 'The oracle has no valid price for this token' });
+  } else if (report.isStale) {
+    issues.push({
+      code: 'stale',
+      severity: 'block',
+      message: `The oracle price is ${formatDuration(report.age ?? 0)} old, beyond its ${formatDuration(Number(config.maxPriceAge))} limit`
+    });
+  } else if (report.needsUpdate) {
+    issues.push({
+      code: 'update-due',
+      severity: 'warn',
+      message: `The oracle price was last updated ${formatDuration(report.age ?? 0)} ago and is due for an update`
+    });
+  }
+
+  if (metadata && metadata.confidence < MIN_CONFIDENCE) {
+    issues.push({
+      code: 'low-confidence',
+      severity: 'block',
+      message: `Price confidence is ${metadata.confidence.toString()}/100, below the oracle's minimum of ${MIN_CONFIDENCE.toString()}`
+    });
+  } else if (metadata && metadata.confidence < settings.warnConfidence) {
+    issues.push({
+      code: 'low-confidence',
+      severity: 'warn',
+      message: `Price confidence is only ${metadata.confidence.toString()}/100`
+    });
+  }
+
+  const deviation = report.twapDeviationBps;
+  if (deviation !== null && deviation >= settings.blockDeviationBps) {
+    issues.push({
+      code: 'twap-deviation',
+      severity: 'block',
+      message: `The spot price is ${formatBps(deviation)} away from the TWAP, beyond the ${formatBps(settings.blockDeviationBps)} limit`
+    });
+  } else if (deviation !== null && deviation >= settings.warnDeviationBps) {
+    issues.push({
+      code: 'twap-deviation',
+      severity: 'warn',
+      message: `The spot price is ${formatBps(deviation)} away from the TWAP`
+    });
+  }
+
+  return issues.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'block' ? -1 : 1));
+};
+
+export const getOracleGuardLevel = (issues: OracleIssue[]): OracleGuardLevel =>
+  issues.some(issue => issue.severity === 'block') ? 'block' : issues.length > 0 ? 'warn' : 'ok';
+
+/**
+ * Guard result when the oracle could not be read at all; a price that cannot be
+ * checked blocks the transaction like a bad one
+ */
+export const unreadableOracleGuard = (message: string = 'The oracle could not be read'): OracleGuardResult => ({
+  level: 'block',
+  issues: [{ code: 'unreadable', severity: 'block', message }],
+  report: null,
+  canUpdate: false
+});
+
+/**
+ * Read and evaluate the oracle price for `token`. `user` is checked against the
+ * oracle's authorized updaters to offer a Chainlink refresh.
+ */
+export const getOracleGuard = async (
+  provider: ethers.Provider,
+  registry: ContractRegistry,
+  hub: MorphoRWALiquidityHub,
+  token: string,
+  user?: string,
+  settings: OracleGuardSettings = DEFAULT_ORACLE_GUARD_SETTINGS
+): Promise<OracleGuardResult> => {
+  const oracle = connectOracle(registry.oracle, provider);
+
+  const [dashboard, isUpdater, owner] = await Promise.all([
+    getOracleDashboard(provider, registry, hub, [token]),
+    user ? oracle.authorizedUpdaters(user).catch(() => false) : Promise.resolve(false),
+    user ? oracle.owner().catch(() => null) : Promise.resolve(null)
+  ]);
+
+  const report = dashboard.tokens[token];
+  if (!report) {
+    return unreadableOracleGuard();
+  }
+  const issues = evaluateOracleReport(report, settings);
+
+  const isOwner = !!user && !!owner && owner.toLowerCase() === user.toLowerCase();
+  const hasFeed = !!report.config?.isActive && report.config.chainlinkFeed !== ethers.ZeroAddress;
+
+  return {
+    level: getOracleGuardLevel(issues),
+    issues,
+    report,
+    canUpdate: hasFeed && (isUpdater || isOwner)
+  };
+};
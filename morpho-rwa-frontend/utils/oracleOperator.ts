@@ -0,0 +1,392 @@
+// utils/oracleOperator.ts
+// Operator actions on RWAOracle, shared by the /oracle-operator page and
+// scripts/oracle-operator.ts: find tokens whose price needs an update, refresh them in
+// one batchUpdatePrices call, submit appraised prices for manually priced tokens, and
+// manage authorized updaters. Every update is recorded with the PriceUpdated and
+// PriceDeviationAlert events it emitted.
+import { ethers } from 'ethers';
+import { CONTRACT_INTERFACES, RWAOracle } from './bindings';
+import { toOracleConfig } from './contracts';
+import { aggregate3Raw, decodeResult, MulticallRequest } from './multicall';
+import { MIN_CONFIDENCE, ORACLE_PRICE_DECIMALS } from './oracle';
+import { normalizeChainId } from './registry';
+import { storage } from './index';
+import { OracleConfig, OraclePriceData } from '@/types';
+
+const STORAGE_PREFIX = 'morpho-rwa:oracle-updates';
+
+// Oldest log entries are dropped past this many
+const MAX_LOG_ENTRIES = 100;
+
+// How a token's price is refreshed: batchUpdatePrices only covers tokens with a
+// Chainlink feed (falling back to the backup feed on-chain)
+export type OracleUpdateRoute = 'chainlink' | 'backup' | 'manual' | 'none';
+
+export type OracleOperatorAction = 'batch' | 'backup' | 'manual' | 'authorize' | 'revoke';
+
+export interface OracleUpdateCandidate {
+  token: string;
+  config: OracleConfig | null;
+  needsUpdate: boolean;
+  metadata: OraclePriceData | null;
+  route: OracleUpdateRoute;
+}
+
+export interface OperatorRole {
+  owner: string;
+  isOwner: boolean;
+  isUpdater: boolean;
+  // Owner calls of a contract owner (a Safe) are queued for a Safe batch instead of sent
+  ownerIsContract: boolean;
+}
+
+// Event values are decimal strings so records survive JSON storage
+export type OraclePriceEvent =
+  | {
+      type: 'PriceUpdated';
+      token: string;
+      oldPrice: string;
+      newPrice: string;
+      confidence: string;
+      source: string;
+    }
+  | {
+      type: 'PriceDeviationAlert';
+      token: string;
+      oldPrice: string;
+      newPrice: string;
+      // Basis points
+      deviation: string;
+    };
+
+export interface OracleUpdateRecord {
+  action: OracleOperatorAction;
+  // Tokens the transaction targeted, or the updater for authorize/revoke
+  targets: string[];
+  txHash: string;
+  blockNumber: number | null;
+  status: 'confirmed' | 'failed';
+  sender: string;
+  chainId: string;
+  timestamp: number;
+  events: OraclePriceEvent[];
+  // Targeted tokens without a PriceUpdated event; batchUpdatePrices skips failures silently
+  notUpdated: string[];
+}
+
+/**
+ * How `config` lets the price be refreshed
+ */
+export const getUpdateRoute = (config: OracleConfig | null): OracleUpdateRoute => {
+  if (!config?.isActive) return 'none';
+  if (config.chainlinkFeed !== ethers.ZeroAddress) return 'chainlink';
+  if (config.requiresManualUpdate) return 'manual';
+  if (config.backupFeed !== ethers.ZeroAddress) return 'backup';
+  return 'none';
+};
+
+/**
+ * Update status for `tokens`, defaulting to every token the oracle supports
+ */
+export const getUpdateCandidates = async (
+  oracle: RWAOracle,
+  tokens?: string[]
+): Promise<OracleUpdateCandidate[]> => {
+  const oracleAddress = await oracle.getAddress();
+  const targets = tokens ?? [...await oracle.getSupportedTokens()];
+  const iface = CONTRACT_INTERFACES.RWA_ORACLE;
+
+  const requests = targets.map(token => {
+    const config: MulticallRequest<OracleConfig> = {
+      target: oracleAddress,
+      callData: iface.encodeFunctionData('getOracleConfig', [token]),
+      decode: (data) => toOracleConfig(iface.decodeFunctionResult('getOracleConfig', data)[0])
+    };
+    const needsUpdate: MulticallRequest<boolean> = {
+      target: oracleAddress,
+      callData: iface.encodeFunctionData('needsPriceUpdate', [token]),
+      decode: (data) => iface.decodeFunctionResult('needsPriceUpdate', data)[0]
+    };
+    const metadata: MulticallRequest<OraclePriceData> = {
+      target: oracleAddress,
+      callData: iface.encodeFunctionData('getPriceWithMetadata', [token]),
+      decode: (data) => {
+        const [price, timestamp, confidence] = iface.decodeFunctionResult('getPriceWithMetadata', data);
+        return { price, timestamp, confidence };
+      }
+    };
+    return { config, needsUpdate, metadata };
+  });
+
+  const responses = await aggregate3Raw(
+    oracle.runner as ethers.ContractRunner,
+    requests.flatMap(({ config, needsUpdate, metadata }) => [config, needsUpdate, metadata])
+  );
+
+  return targets.map((token, i) => {
+    const [configResponse, needsUpdateResponse, metadataResponse] = responses.slice(i * 3, i * 3 + 3);
+    const config = decodeResult<OracleConfig>(requests[i].config, configResponse).data;
+    return {
+      token,
+      config,
+      needsUpdate: decodeResult<boolean>(requests[i].needsUpdate, needsUpdateResponse).data ?? false,
+      metadata: decodeResult<OraclePriceData>(requests[i].metadata, metadataResponse).data,
+      route: getUpdateRoute(config)
+    };
+  });
+};
+
+/**
+ * Whether `account` may call the onlyAuthorized and onlyOwner oracle functions
+ */
+export const getOperatorRole = async (oracle: RWAOracle, account: string): Promise<OperatorRole> => {
+  const [owner, isUpdater] = await Promise.all([oracle.owner(), oracle.authorizedUpdaters(account)]);
+  const ownerCode = await oracle.runner?.provider?.getCode(owner);
+  return {
+    owner,
+    isOwner: owner.toLowerCase() === account.toLowerCase(),
+    isUpdater,
+    ownerIsContract: !!ownerCode && ownerCode !== '0x'
+  };
+};
+
+/**
+ * Why a manual price would be rejected by updatePriceManually, if it would be
+ */
+export const validateManualPrice = (
+  config: OracleConfig | null,
+  price: bigint,
+  confidence: bigint
+): string | null => {
+  if (!config?.isActive) return 'The oracle does not support this token';
+  if (!config.requiresManualUpdate) return 'This token is not configured for manual updates';
+  if (price <= 0n) return 'Price must be greater than 0';
+  if (confidence < MIN_CONFIDENCE || confidence > 100n) {
+    return `Confidence must be between ${MIN_CONFIDENCE.toString()} and 100`;
+  }
+  return null;
+};
+
+/**
+ * PriceUpdated and PriceDeviationAlert events the oracle emitted in `receipt`
+ */
+export const parseOracleEvents = (receipt: ethers.TransactionReceipt, oracleAddress: string): OraclePriceEvent[] => {
+  const iface = CONTRACT_INTERFACES.RWA_ORACLE;
+  const events: OraclePriceEvent[] = [];
+
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== oracleAddress.toLowerCase()) continue;
+
+    const parsed = iface.parseLog(log);
+    if (parsed?.name === 'PriceUpdated') {
+      const { token, oldPrice, newPrice, confidence, source } = parsed.args;
+      events.push({
+        type: 'PriceUpdated',
+        token,
+        oldPrice: oldPrice.toString(),
+        newPrice: newPrice.toString(),
+        confidence: confidence.toString(),
+        source
+      });
+    } else if (parsed?.name === 'PriceDeviationAlert') {
+      const { token, oldPrice, newPrice, deviation } = parsed.args;
+      events.push({
+        type: 'PriceDeviationAlert',
+        token,
+        oldPrice: oldPrice.toString(),
+        newPrice: newPrice.toString(),
+        deviation: deviation.toString()
+      });
+    }
+  }
+
+  return events;
+};
+
+/**
+ * Wait for an operator transaction and record what it changed
+ */
+const recordUpdate = async (
+  oracle: RWAOracle,
+  action: OracleOperatorAction,
+  targets: string[],
+  tx: ethers.ContractTransactionResponse
+): Promise<OracleUpdateRecord> => {
+  let receipt: ethers.TransactionReceipt | null;
+  try {
+    receipt = await tx.wait();
+  } catch (error) {
+    // wait() throws on a revert or a replacement; log those as failed instead
+    if (ethers.isError(error, 'CALL_EXCEPTION') && error.receipt) {
+      receipt = error.receipt;
+    } else if (ethers.isError(error, 'TRANSACTION_REPLACED')) {
+      // A sped-up transaction settles with the replacement's receipt
+      receipt = error.reason === 'repriced' ? error.receipt : null;
+    } else {
+      throw error;
+    }
+  }
+
+  const events = receipt ? parseOracleEvents(receipt, await oracle.getAddress()) : [];
+  const updated = new Set(
+    events.filter(event => event.type === 'PriceUpdated').map(event => event.token.toLowerCase())
+  );
+  const isPriceUpdate = action !== 'authorize' && action !== 'revoke';
+
+  return {
+    action,
+    targets,
+    txHash: receipt?.hash ?? tx.hash,
+    blockNumber: receipt?.blockNumber ?? null,
+    status: receipt?.status === 1 ? 'confirmed' : 'failed',
+    sender: tx.from,
+    chainId: normalizeChainId(tx.chainId),
+    timestamp: Date.now(),
+    events,
+    notUpdated: isPriceUpdate ? targets.filter(token => !updated.has(token.toLowerCase())) : []
+  };
+};
+
+// The operations below need `oracle` connected to a signer. `onSent` is called once the
+// transaction is broadcast, before it is mined.
+
+type OnSent = (tx: ethers.ContractTransactionResponse) => void | Promise<void>;
+
+const sendAndRecord = async (
+  oracle: RWAOracle,
+  action: OracleOperatorAction,
+  targets: string[],
+  send: () => Promise<ethers.ContractTransactionResponse>,
+  onSent?: OnSent
+): Promise<OracleUpdateRecord> => {
+  const tx = await send();
+  await onSent?.(tx);
+  return recordUpdate(oracle, action, targets, tx);
+};
+
+/**
+ * Refresh Chainlink-fed tokens in one batchUpdatePrices call
+ */
+export const batchUpdatePrices = async (
+  oracle: RWAOracle,
+  tokens: string[],
+  onSent?: OnSent
+): Promise<OracleUpdateRecord> => {
+  if (tokens.length === 0) {
+    throw new Error('No tokens to update');
+  }
+  await oracle.batchUpdatePrices.staticCall(tokens);
+  return sendAndRecord(oracle, 'batch', tokens, () => oracle.batchUpdatePrices(tokens), onSent);
+};
+
+export const updatePriceFromBackup = async (
+  oracle: RWAOracle,
+  token: string,
+  onSent?: OnSent
+): Promise<OracleUpdateRecord> => {
+  await oracle.updatePriceFromBackup.staticCall(token);
+  return sendAndRecord(oracle, 'backup', [token], () => oracle.updatePriceFromBackup(token), onSent);
+};
+
+/**
+ * Submit an appraised price (8 decimals) with a confidence score out of 100
+ */
+export const updatePriceManually = async (
+  oracle: RWAOracle,
+  token: string,
+  price: bigint,
+  confidence: bigint,
+  onSent?: OnSent
+): Promise<OracleUpdateRecord> => {
+  const error = validateManualPrice(toOracleConfig(await oracle.getOracleConfig(token)), price, confidence);
+  if (error) {
+    throw new Error(error);
+  }
+  await oracle.updatePriceManually.staticCall(token, price, confidence);
+  return sendAndRecord(
+    oracle,
+    'manual',
+    [token],
+    () => oracle.updatePriceManually(token, price, confidence),
+    onSent
+  );
+};
+
+export const setAuthorizedUpdater = async (
+  oracle: RWAOracle,
+  updater: string,
+  authorized: boolean,
+  onSent?: OnSent
+): Promise<OracleUpdateRecord> => {
+  await oracle.setAuthorizedUpdater.staticCall(updater, authorized);
+  return sendAndRecord(
+    oracle,
+    authorized ? 'authorize' : 'revoke',
+    [updater],
+    () => oracle.setAuthorizedUpdater(updater, authorized),
+    onSent
+  );
+};
+
+/**
+ * Refresh every candidate that needs an update and can be batched; manual and
+ * backup-only tokens are returned as skipped since they need their own call
+ */
+export const refreshDuePrices = async (
+  oracle: RWAOracle,
+  candidates: OracleUpdateCandidate[],
+  onSent?: OnSent
+): Promise<{ record: OracleUpdateRecord | null; skipped: OracleUpdateCandidate[] }> => {
+  const due = candidates.filter(candidate => candidate.needsUpdate);
+  const batchable = due.filter(candidate => candidate.route === 'chainlink');
+
+  return {
+    record: batchable.length > 0
+      ? await batchUpdatePrices(oracle, batchable.map(candidate => candidate.token), onSent)
+      : null,
+    skipped: due.filter(candidate => candidate.route !== 'chainlink')
+  };
+};
+
+/**
+ * One line per record and event, for logs and the CLI
+ */
+export const formatUpdateRecord = (record: OracleUpdateRecord, symbols: Record<string, string> = {}): string[] => {
+  const name = (address: string) => symbols[address.toLowerCase()] || address;
+  const price = (value: string) => `$${ethers.formatUnits(value, ORACLE_PRICE_DECIMALS)}`;
+
+  const lines = [
+    `${new Date(record.timestamp).toISOString()} ${record.action} ${record.targets.map(name).join(', ')} ` +
+    `${record.status} in ${record.txHash}${record.blockNumber !== null ? ` (block ${record.blockNumber})` : ''}`
+  ];
+
+  for (const event of record.events) {
+    lines.push(event.type === 'PriceUpdated'
+      ? `  PriceUpdated ${name(event.token)}: ${price(event.oldPrice)} -> ${price(event.newPrice)}, confidence ${event.confidence}, source ${event.source}`
+      : `  PriceDeviationAlert ${name(event.token)}: ${price(event.oldPrice)} -> ${price(event.newPrice)}, deviation ${Number(event.deviation) / 100}%`
+    );
+  }
+  if (record.notUpdated.length > 0) {
+    lines.push(`  Not updated: ${record.notUpdated.map(name).join(', ')}`);
+  }
+
+  return lines;
+};
+
+// ============ UPDATE LOG ============
+
+const storageKey = (chainId: string): string => `${STORAGE_PREFIX}:${normalizeChainId(chainId)}`;
+
+/**
+ * Updates sent from this browser on a chain, newest first
+ */
+export const getUpdateLog = (chainId: string): OracleUpdateRecord[] =>
+  chainId ? storage.get(storageKey(chainId)) || [] : [];
+
+export const addUpdateLog = (record: OracleUpdateRecord): void => {
+  storage.set(storageKey(record.chainId), [record, ...getUpdateLog(record.chainId)].slice(0, MAX_LOG_ENTRIES));
+};
+
+export const clearUpdateLog = (chainId: string): void => {
+  storage.remove(storageKey(chainId));
+};
@@ -0,0 +1,126 @@
+// utils/permit.ts
+// EIP-2612 permit signatures for collateral. The hub only pulls collateral through an
+// allowance, so signed permits are used by the Bundler3 route (utils/bundler.ts), where
+// GeneralAdapter1 runs the permit in the same transaction as the supply.
+import { ethers } from 'ethers';
+import { MorphoRWALiquidityHub } from './bindings';
+
+// Signatures stay valid for 30 minutes
+const PERMIT_VALIDITY_SECONDS = 30 * 60;
+
+const ERC2612_ABI = [
+  "function name() view returns (string)",
+  "function version() view returns (string)",
+  "function nonces(address owner) view returns (uint256)",
+  "function DOMAIN_SEPARATOR() view returns (bytes32)",
+  "function eip712Domain() view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)",
+  "function allowance(address owner, address spender) view returns (uint256)"
+];
+
+const ERC2612_TYPES = {
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' }
+  ]
+};
+
+export interface CollateralPermit {
+  type: 'permit';
+  deadline: bigint;
+  v: number;
+  r: string;
+  s: string;
+}
+
+// A supply-and-borrow transaction bound to its arguments: the hub's entry point or a bundle
+export interface SupplyAndBorrowCall {
+  method: string;
+  staticCall: (overrides?: ethers.Overrides) => Promise<unknown>;
+  estimateGas: () => Promise<bigint>;
+  send: (overrides?: ethers.Overrides) => Promise<ethers.ContractTransactionResponse>;
+}
+
+const getDeadline = (): bigint => BigInt(Math.floor(Date.now() / 1000) + PERMIT_VALIDITY_SECONDS);
+
+/**
+ * Read the token's EIP-712 domain and check it against DOMAIN_SEPARATOR;
+ * returns null if the token does not implement EIP-2612
+ */
+export const getPermitDomain = async (
+  tokenAddress: string,
+  runner: ethers.ContractRunner
+): Promise<ethers.TypedDataDomain | null> => {
+  const token = new ethers.Contract(tokenAddress, ERC2612_ABI, runner);
+
+  try {
+    const [name, domainSeparator, { chainId }] = await Promise.all([
+      token.name(),
+      token.DOMAIN_SEPARATOR(),
+      runner.provider!.getNetwork()
+    ]);
+
+    // ERC-5267 first, then version(), then the common default
+    const version: string = await token.eip712Domain()
+      .then((domain: ethers.Result) => domain.version)
+      .catch(() => token.version())
+      .catch(() => '1');
+
+    const domain = { name, version, chainId, verifyingContract: tokenAddress };
+    return ethers.TypedDataEncoder.hashDomain(domain) === domainSeparator ? domain : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Ask the wallet for an EIP-2612 permit letting `spender` pull `value`
+ */
+export const signERC2612Permit = async (
+  signer: ethers.Signer,
+  tokenAddress: string,
+  spender: string,
+  value: bigint
+): Promise<CollateralPermit> => {
+  const domain = await getPermitDomain(tokenAddress, signer);
+  if (!domain) {
+    throw new Error('Token does not support EIP-2612 permit');
+  }
+
+  const owner = await signer.getAddress();
+  const token = new ethers.Contract(tokenAddress, ERC2612_ABI, signer);
+  const nonce: bigint = await token.nonces(owner);
+  const deadline = getDeadline();
+
+  const signature = await signer.signTypedData(domain, ERC2612_TYPES, {
+    owner,
+    spender,
+    value,
+    nonce,
+    deadline
+  });
+  const { v, r, s } = ethers.Signature.from(signature);
+
+  return { type: 'permit', deadline, v, r, s };
+};
+
+/**
+ * Bind the hub's supplyCollateralAndBorrow; the hub pulls collateral through an allowance
+ */
+export const buildSupplyAndBorrowCall = (
+  hub: MorphoRWALiquidityHub,
+  rwaToken: string,
+  collateralAmount: bigint,
+  borrowAmount: bigint
+): SupplyAndBorrowCall => {
+  const method = hub.supplyCollateralAndBorrow;
+  const args = [rwaToken, collateralAmount, borrowAmount] as const;
+  return {
+    method: 'supplyCollateralAndBorrow',
+    staticCall: (overrides = {}) => method.staticCall(...args, overrides),
+    estimateGas: () => method.estimateGas(...args),
+    send: (overrides = {}) => method(...args, overrides)
+  };
+};
@@ -0,0 +1,97 @@
+// utils/portfolio.ts
+// Aggregates per-token positions from a dashboard snapshot and reconciles the sums
+// against the totals the hub keeps in UserPosition.
+import { ethers } from 'ethers';
+import { BASIS_POINTS } from './collateral';
+import { DashboardSnapshot } from './multicall';
+import { DeploymentToken, PositionAnalytics, UserPosition } from '@/types';
+
+// The hub refreshes its totals only when the user transacts, so prices may have moved
+// since; differences within 1% count as reconciled
+const RECONCILIATION_TOLERANCE_BPS = 100n;
+
+export interface PortfolioPosition {
+  token: DeploymentToken;
+  analytics: PositionAnalytics;
+}
+
+export interface PortfolioTotals {
+  collateralValueUSD: bigint;
+  borrowedValueUSD: bigint;
+  // Basis points; health factor is ethers.MaxUint256 without debt
+  ltv: bigint;
+  healthFactor: bigint;
+}
+
+export interface PortfolioReconciliation {
+  // Hub totals minus the per-token sums
+  collateralDiffUSD: bigint;
+  borrowedDiffUSD: bigint;
+  isReconciled: boolean;
+}
+
+export interface Portfolio {
+  positions: PortfolioPosition[];
+  totals: PortfolioTotals;
+  // null when the hub totals could not be read
+  reconciliation: PortfolioReconciliation | null;
+}
+
+const withinTolerance = (diff: bigint, reference: bigint): boolean => {
+  const absolute = diff < 0n ? -diff : diff;
+  return absolute * BASIS_POINTS <= reference * RECONCILIATION_TOLERANCE_BPS;
+};
+
+const reconcile = (totals: PortfolioTotals, userPosition: UserPosition): PortfolioReconciliation => {
+  const collateralDiffUSD = userPosition.totalCollateralUSD - totals.collateralValueUSD;
+  const borrowedDiffUSD = userPosition.totalBorrowedUSD - totals.borrowedValueUSD;
+
+  return {
+    collateralDiffUSD,
+    borrowedDiffUSD,
+    isReconciled: withinTolerance(collateralDiffUSD, totals.collateralValueUSD) &&
+      withinTolerance(borrowedDiffUSD, totals.borrowedValueUSD)
+  };
+};
+
+/**
+ * Collect the user's open positions from a snapshot and total them up
+ */
+export const buildPortfolio = (snapshot: DashboardSnapshot, tokens: DeploymentToken[]): Portfolio => {
+  const positions = tokens
+    .map(token => ({ token, analytics: snapshot.tokens[token.address]?.analytics ?? null }))
+    .filter((position): position is PortfolioPosition =>
+      position.analytics !== null &&
+      (position.analytics.collateralAmount > 0n || position.analytics.borrowedAssets > 0n)
+    );
+
+  const collateralValueUSD = positions.reduce((sum, { analytics }) => sum + analytics.collateralValueUSD, 0n);
+  const borrowedValueUSD = positions.reduce((sum, { analytics }) => sum + analytics.borrowedValueUSD, 0n);
+
+  const totals: PortfolioTotals = {
+    collateralValueUSD,
+    borrowedValueUSD,
+    ltv: collateralValueUSD === 0n ? 0n : (borrowedValueUSD * BASIS_POINTS) / collateralValueUSD,
+    healthFactor: borrowedValueUSD === 0n ? ethers.MaxUint256 : (collateralValueUSD * BASIS_POINTS) / borrowedValueUSD
+  };
+
+  return {
+    positions,
+    totals,
+    reconciliation: snapshot.userPosition ? reconcile(totals, snapshot.userPosition) : null
+  };
+};
+
+/**
+ * Riskiest positions first: lowest health factor, then highest debt
+ */
+export const sortByRisk = (positions: PortfolioPosition[]): PortfolioPosition[] =>
+  [...positions].sort((a, b) => {
+    if (a.analytics.healthFactor !== b.analytics.healthFactor) {
+      return a.analytics.healthFactor < b.analytics.healthFactor ? -1 : 1;
+    }
+    if (a.analytics.borrowedValueUSD !== b.analytics.borrowedValueUSD) {
+      return a.analytics.borrowedValueUSD > b.analytics.borrowedValueUSD ? -1 : 1;
+    }
+    return 0;
+  });
@@ -0,0 +1,136 @@
+// utils/projection.ts
+// Projects a position forward under the market's borrow rate and an assumed collateral
+// price drift, and estimates when it crosses the warning and liquidation health factors.
+import { ethers } from 'ethers';
+import { connectIrm, connectMorpho, MorphoRWALiquidityHub } from './bindings';
+import { BASIS_POINTS, toHealthFactorBps } from './collateral';
+import { wMulDown, wTaylorCompounded } from './morphoMath';
+import { HEALTH_FACTOR_THRESHOLDS, PositionAnalytics } from '@/types';
+
+export const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+
+// USDC has 6 decimals, USD values 18
+const USDC_TO_USD = 10n ** 12n;
+
+// Bisection steps when locating a threshold crossing between two points (~1s over a year)
+const CROSSING_SEARCH_STEPS = 25;
+
+export interface ProjectionAssumptions {
+  // Per-second borrow rate (WAD), as returned by the market IRM's borrowRateView
+  borrowRate: bigint;
+  // Annual collateral price change, e.g. -0.1 for a 10% yearly decline
+  priceDriftPerYear: number;
+  horizonDays?: number;
+  points?: number;
+}
+
+export interface ProjectionPoint {
+  // Unix seconds
+  timestamp: number;
+  debt: bigint;
+  collateralValueUSD: bigint;
+  // LTV and health factor in basis points
+  ltv: bigint;
+  healthFactor: bigint;
+}
+
+export interface PositionProjection {
+  points: ProjectionPoint[];
+  // First time the health factor drops below each threshold; null if not within the horizon
+  warningAt: number | null;
+  liquidationAt: number | null;
+}
+
+/**
+ * Convert an annual rate (e.g. 0.05 for 5%) to Morpho's per-second WAD rate
+ */
+export const toPerSecondRate = (annualRate: number): bigint =>
+  ethers.parseUnits(annualRate.toFixed(18), 18) / BigInt(SECONDS_PER_YEAR);
+
+/**
+ * Annual rate implied by a per-second WAD rate, compounded the way Morpho accrues it
+ */
+export const toAnnualRate = (borrowRate: bigint): number =>
+  Number(ethers.formatUnits(wTaylorCompounded(borrowRate, BigInt(SECONDS_PER_YEAR)), 18));
+
+/**
+ * Current per-second borrow rate of the hub's Morpho market for `rwaToken`
+ */
+export const getBorrowRate = async (hub: MorphoRWALiquidityHub, rwaToken: string): Promise<bigint> => {
+  const [morphoAddress, marketId] = await Promise.all([hub.morpho(), hub.rwaMarketIds(rwaToken)]);
+  const morpho = connectMorpho(morphoAddress, hub.runner!);
+  const [marketParams, market] = await Promise.all([morpho.idToMarketParams(marketId), morpho.market(marketId)]);
+
+  if (marketParams.irm === ethers.ZeroAddress) return 0n;
+  return connectIrm(marketParams.irm, hub.runner!).borrowRateView(marketParams, market);
+};
+
+const projectPoint = (
+  position: PositionAnalytics,
+  { borrowRate, priceDriftPerYear }: ProjectionAssumptions,
+  now: number,
+  elapsed: number
+): ProjectionPoint => {
+  const debt = position.borrowedAssets + wMulDown(position.borrowedAssets, wTaylorCompounded(borrowRate, BigInt(elapsed)));
+
+  const priceFactor = Math.max(0, 1 + priceDriftPerYear) ** (elapsed / SECONDS_PER_YEAR);
+  const collateralValueUSD = wMulDown(position.collateralValueUSD, ethers.parseUnits(priceFactor.toFixed(18), 18));
+
+  const debtUSD = debt * USDC_TO_USD;
+  return {
+    timestamp: now + elapsed,
+    debt,
+    collateralValueUSD,
+    ltv: collateralValueUSD === 0n ? 0n : (debtUSD * BASIS_POINTS) / collateralValueUSD,
+    healthFactor: debtUSD === 0n ? ethers.MaxUint256 : (collateralValueUSD * BASIS_POINTS) / debtUSD
+  };
+};
+
+// Narrow down when the health factor falls below `threshold` between two elapsed times
+const findCrossing = (
+  position: PositionAnalytics,
+  assumptions: ProjectionAssumptions,
+  now: number,
+  threshold: bigint,
+  points: ProjectionPoint[]
+): number | null => {
+  const index = points.findIndex(point => point.healthFactor < threshold);
+  if (index === -1) return null;
+  if (index === 0) return points[0].timestamp;
+
+  let low = points[index - 1].timestamp - now;
+  let high = points[index].timestamp - now;
+  for (let step = 0; step < CROSSING_SEARCH_STEPS && high - low > 1; step++) {
+    const mid = Math.floor((low + high) / 2);
+    if (projectPoint(position, assumptions, now, mid).healthFactor < threshold) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+
+  return now + high;
+};
+
+/**
+ * Project debt, LTV and health factor over time, with interest compounding as Morpho
+ * accrues it and the collateral price drifting at a constant annual rate
+ */
+export const projectPosition = (
+  position: PositionAnalytics,
+  assumptions: ProjectionAssumptions,
+  now: number = Math.floor(Date.now() / 1000)
+): PositionProjection => {
+  const { horizonDays = 365, points: count = 52 } = assumptions;
+  const horizon = horizonDays * 24 * 60 * 60;
+
+  const points = Array.from({ length: count + 1 }, (_, i) =>
+    projectPoint(position, assumptions, now, Math.floor((horizon * i) / count))
+  );
+
+  return {
+    points,
+    warningAt: findCrossing(position, assumptions, now, toHealthFactorBps(HEALTH_FACTOR_THRESHOLDS.WARNING), points),
+    liquidationAt: findCrossing(position, assumptions, now, toHealthFactorBps(HEALTH_FACTOR_THRESHOLDS.LIQUIDATION), points)
+  };
+};
@@ -0,0 +1,148 @@
+// utils/registry.ts
+// Per-chain contract addresses loaded from the deployment manifests in ../deployments.
+// scripts/deploy.js writes one manifest per network; add new ones to DEPLOYMENT_MANIFESTS.
+import { ethers } from 'ethers';
+import sepoliaDeployment from '@/deployments/sepolia.json';
+import {
+  ContractRegistry,
+  DeploymentContract,
+  DeploymentManifest,
+  RequiredDeploymentContract
+} from '@/types';
+
+const DEPLOYMENT_MANIFESTS: DeploymentManifest[] = [
+  sepoliaDeployment
+];
+
+const REQUIRED_CONTRACTS: RequiredDeploymentContract[] = ['hub', 'oracle', 'morpho', 'usdc'];
+const OPTIONAL_CONTRACTS: Exclude<DeploymentContract, RequiredDeploymentContract>[] = [
+  'monitor',
+  'rewards',
+  'allocator',
+  'dataProvider',
+  'bundler',
+  'bundlerAdapter'
+];
+
+/**
+ * Normalize a chain ID from a wallet (hex), the RPC (bigint) or a config file (decimal)
+ * to the lowercase hex form used as the key in SUPPORTED_NETWORKS
+ */
+export const normalizeChainId = (chainId: string | number | bigint): string => {
+  try {
+    return `0x${BigInt(chainId).toString(16)}`;
+  } catch {
+    throw new Error(`Invalid chain ID: ${chainId}`);
+  }
+};
+
+const SEPOLIA_CHAIN_ID = '0xaa36a7';
+
+// Chain used when no wallet is connected; a malformed env value falls back to Sepolia
+export const DEFAULT_CHAIN_ID = (() => {
+  try {
+    return normalizeChainId(process.env.NEXT_PUBLIC_DEFAULT_CHAIN_ID || SEPOLIA_CHAIN_ID);
+  } catch (error) {
+    console.error('Invalid NEXT_PUBLIC_DEFAULT_CHAIN_ID, using Sepolia:', error);
+    return SEPOLIA_CHAIN_ID;
+  }
+})();
+
+// Env overrides for the default chain, kept for existing .env.local setups
+const ENV_OVERRIDES: Partial<Record<DeploymentContract, string | undefined>> = {
+  hub: process.env.NEXT_PUBLIC_MORPHO_RWA_CONTRACT_ADDRESS,
+  oracle: process.env.NEXT_PUBLIC_RWA_ORACLE_ADDRESS,
+};
+
+const toChecksumAddress = (value: string, label: string, network: string): string => {
+  if (!ethers.isAddress(value)) {
+    throw new Error(`Invalid ${label} address in ${network} deployment manifest: ${value}`);
+  }
+  return ethers.getAddress(value);
+};
+
+/**
+ * Validate a manifest and convert it to a registry entry; throws on any
+ * missing or malformed address
+ */
+export const loadDeploymentManifest = (manifest: DeploymentManifest): ContractRegistry => {
+  const chainId = normalizeChainId(manifest.chainId);
+  const overrides = chainId === DEFAULT_CHAIN_ID ? ENV_OVERRIDES : {};
+  const addressOf = (name: DeploymentContract) => overrides[name] || manifest.contracts[name] || null;
+
+  const registry = {
+    chainId,
+    network: manifest.network,
+    deployedBlock: manifest.deployedBlock ?? null,
+    rwaTokens: (manifest.rwaTokens || []).map(token => ({
+      ...token,
+      address: toChecksumAddress(token.address, token.symbol, manifest.network)
+    }))
+  } as ContractRegistry;
+
+  for (const name of REQUIRED_CONTRACTS) {
+    const address = addressOf(name);
+    if (!address) {
+      throw new Error(`Missing ${name} address in ${manifest.network} deployment manifest`);
+    }
+    registry[name] = toChecksumAddress(address, name, manifest.network);
+  }
+
+  for (const name of OPTIONAL_CONTRACTS) {
+    const address = addressOf(name);
+    registry[name] = address ? toChecksumAddress(address, name, manifest.network) : null;
+  }
+
+  return registry;
+};
+
+let registries: Record<string, ContractRegistry> | null = null;
+
+/**
+ * Manifests are validated on first use rather than at import; a bad manifest is logged
+ * and leaves only its own chain without a deployment
+ */
+const loadRegistries = (): Record<string, ContractRegistry> => {
+  if (!registries) {
+    registries = {};
+    for (const manifest of DEPLOYMENT_MANIFESTS) {
+      try {
+        const registry = loadDeploymentManifest(manifest);
+        registries[registry.chainId] = registry;
+      } catch (error) {
+        console.error(`Skipping ${manifest.network} deployment manifest:`, error);
+      }
+    }
+  }
+  return registries;
+};
+
+/**
+ * Get the contract set deployed on a chain, or null if there is none
+ */
+export const getRegistry = (chainId: string | number | bigint): ContractRegistry | null => {
+  return loadRegistries()[normalizeChainId(chainId)] || null;
+};
+
+/**
+ * Get the contract set deployed on a chain; throws if the chain has no deployment
+ */
+export const requireRegistry = (chainId: string | number | bigint): ContractRegistry => {
+  const registry = getRegistry(chainId);
+  if (!registry) {
+    throw new Error(`No contracts deployed on chain ${normalizeChainId(chainId)}`);
+  }
+  return registry;
+};
+
+/**
+ * Chain IDs (hex) that have a deployment manifest
+ */
+export const getDeployedChainIds = (): string[] => Object.keys(loadRegistries());
+
+/**
+ * Check if the contracts are deployed on a chain
+ */
+export const isDeployedChain = (chainId: string | number | bigint): boolean => {
+  return getRegistry(chainId) !== null;
+};
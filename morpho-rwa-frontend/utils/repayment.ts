@@ -0,0 +1,104 @@
+// utils/repayment.ts
+// Debt and withdrawal limits for the repay/withdraw panel. A full repayment burns every
+// borrow share directly on Morpho Blue, which pulls what the shares are worth once interest
+// is accrued in that block; the hub's own full-repayment paths only pull a fixed buffer.
+import { ethers } from 'ethers';
+import { connectIrm, connectMorpho, MorphoRWALiquidityHub } from './bindings';
+import { accrueInterest, toAssetsUp } from './morphoMath';
+import { toMarket, toMarketParams } from './contracts';
+import { MarketParams } from '@/types';
+
+// Interest keeps accruing until the repayment is mined; the allowance covers this long
+export const REPAY_ACCRUAL_MARGIN_SECONDS = 10n * 60n;
+
+// Binary search steps for the largest withdrawable amount (precision collateral / 2^20)
+const WITHDRAW_SEARCH_STEPS = 20;
+
+export interface RepaymentQuote {
+  // Debt in USDC with interest accrued up to the latest block
+  debt: bigint;
+  // Borrow shares a full repayment burns
+  borrowShares: bigint;
+  // USDC allowance for Morpho that covers repaying every borrow share up to
+  // REPAY_ACCRUAL_MARGIN_SECONDS after the latest block
+  fullRepaymentAllowance: bigint;
+  // Collateral the hub holds for the user
+  collateral: bigint;
+  morpho: string;
+  marketParams: MarketParams;
+}
+
+/**
+ * Get a user's debt and the USDC allowance a full repayment needs, projecting the
+ * market's interest with the IRM's current borrow rate
+ */
+export const getRepaymentQuote = async (
+  hub: MorphoRWALiquidityHub,
+  user: string,
+  rwaToken: string
+): Promise<RepaymentQuote> => {
+  const provider = hub.runner!.provider!;
+  const [morphoAddress, marketId, collateral, block] = await Promise.all([
+    hub.morpho(),
+    hub.rwaMarketIds(rwaToken),
+    hub.userCollateralAmounts(user, rwaToken),
+    provider.getBlock('latest')
+  ]);
+  if (!block) {
+    throw new Error('Could not read the latest block');
+  }
+
+  const morpho = connectMorpho(morphoAddress, hub.runner!);
+  const [rawParams, rawMarket, position] = await Promise.all([
+    morpho.idToMarketParams(marketId),
+    morpho.market(marketId),
+    morpho.position(marketId, user)
+  ]);
+
+  const marketParams = toMarketParams(rawParams);
+  const market = toMarket(rawMarket);
+  const borrowRate = marketParams.irm === ethers.ZeroAddress
+    ? 0n
+    : await connectIrm(marketParams.irm, hub.runner!).borrowRateView(marketParams, rawMarket);
+
+  const now = BigInt(block.timestamp);
+  const current = accrueInterest(market, borrowRate, now);
+  const projected = accrueInterest(market, borrowRate, now + REPAY_ACCRUAL_MARGIN_SECONDS);
+  const { borrowShares } = position;
+
+  return {
+    debt: toAssetsUp(borrowShares, current.totalBorrowAssets, current.totalBorrowShares),
+    borrowShares,
+    fullRepaymentAllowance: toAssetsUp(borrowShares, projected.totalBorrowAssets, projected.totalBorrowShares),
+    collateral,
+    morpho: morphoAddress,
+    marketParams
+  };
+};
+
+/**
+ * Largest collateral amount the hub lets the user withdraw, per checkCanWithdrawCollateral
+ */
+export const getMaxWithdrawable = async (
+  hub: MorphoRWALiquidityHub,
+  user: string,
+  rwaToken: string,
+  collateral: bigint
+): Promise<bigint> => {
+  if (collateral === 0n) return 0n;
+  if (await hub.checkCanWithdrawCollateral(user, rwaToken, collateral)) return collateral;
+
+  let low = 0n;
+  let high = collateral;
+
+  for (let step = 0; step < WITHDRAW_SEARCH_STEPS && high - low > 1n; step++) {
+    const mid = (low + high) / 2n;
+    if (await hub.checkCanWithdrawCollateral(user, rwaToken, mid)) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  return low;
+};
@@ -0,0 +1,608 @@
+// utils/safe.ts
+// Safe Transaction Builder batches for admin calls, for owners that are multisigs and
+// cannot sign from the browser wallet. Admin actions are queued per chain and per Safe
+// (the owner of the contract each call targets), exported as
+// the Transaction Builder's JSON batch format with a readable summary of each call, and
+// batches can be imported back and decoded against the deployment's contract ABIs.
+import { ethers } from 'ethers';
+import { connectHub, connectOracle, connectRewardsManager, CONTRACT_INTERFACES } from './bindings';
+import { toOracleConfig, toRWAConfig } from './contracts';
+import { describeAdminAction, getAdminCall, HubAdminAction } from './admin';
+import { formatBigInt, formatDuration, storage, truncateAddress } from './index';
+import { ORACLE_PRICE_DECIMALS } from './oracle';
+import { normalizeChainId } from './registry';
+import { ERC20_ABI } from './web3';
+import { ContractRegistry, DECIMAL_PRECISION, DeploymentContract, OracleConfig } from '@/types';
+
+const STORAGE_PREFIX = 'morpho-rwa:safe-batch';
+
+// Transaction Builder release whose file format this follows
+export const SAFE_TX_BUILDER_VERSION = '1.16.5';
+
+export interface SafeContractMethod {
+  inputs: Array<{ internalType?: string; name: string; type: string; components?: ethers.JsonFragmentType[] }>;
+  name: string;
+  payable: boolean;
+}
+
+export interface SafeTransaction {
+  to: string;
+  value: string;
+  // Raw calldata; batches built in the Transaction Builder UI leave this null and
+  // describe the call with contractMethod and contractInputsValues instead
+  data: string | null;
+  contractMethod: SafeContractMethod | null;
+  contractInputsValues: Record<string, string> | null;
+}
+
+export interface SafeBatchFile {
+  version: string;
+  chainId: string;
+  createdAt: number;
+  meta: {
+    name: string;
+    description?: string;
+    txBuilderVersion?: string;
+    createdFromSafeAddress?: string;
+    createdFromOwnerAddress?: string;
+    checksum?: string;
+  };
+  transactions: SafeTransaction[];
+}
+
+export interface SafeBatchEntry {
+  transaction: SafeTransaction;
+  summary: string;
+}
+
+// Owner calls outside the hub; hub calls are HubAdminActions
+export type ContractAdminAction =
+  | { type: 'setOracleUpdater'; updater: string; authorized: boolean }
+  | { type: 'configureOracle'; token: string; config: OracleConfig }
+  | { type: 'setOraclePause'; paused: boolean }
+  | { type: 'createRewardProgram'; rewardToken: string; totalRewards: bigint; duration: bigint; programType: string };
+
+// Ownable deployment contracts that admin batches call
+export type OwnedContract = 'hub' | 'oracle' | 'rewards';
+
+export interface ContractOwner {
+  address: string;
+  // A contract owner (a Safe) cannot sign from the browser; its calls go into its batch
+  isContract: boolean;
+}
+
+export type ContractOwners = Partial<Record<OwnedContract, ContractOwner>>;
+
+export interface SafeOwner {
+  safeAddress: string;
+  contracts: OwnedContract[];
+}
+
+export interface DecodedArgument {
+  name: string;
+  type: string;
+  value: string;
+}
+
+export interface DecodedSafeTransaction {
+  transaction: SafeTransaction;
+  // Deployment contract the call targets, or null for an unknown address
+  contract: string | null;
+  method: string | null;
+  args: DecodedArgument[];
+  summary: string;
+  // Why the call could not be decoded
+  error: string | null;
+  // Set when the call sends ETH, which none of the admin calls expect
+  valueWarning: string | null;
+}
+
+export interface ImportedSafeBatch {
+  batch: SafeBatchFile;
+  // false when the file has no checksum or was edited after export
+  checksumValid: boolean;
+  chainMatches: boolean;
+  transactions: DecodedSafeTransaction[];
+}
+
+// Deployment contracts whose calls can be decoded, with their ABI
+const DECODABLE_CONTRACTS: Array<{ key: DeploymentContract; label: string; iface: ethers.Interface }> = [
+  { key: 'hub', label: 'MorphoRWALiquidityHub', iface: CONTRACT_INTERFACES.RWA_HUB },
+  { key: 'oracle', label: 'RWAOracle', iface: CONTRACT_INTERFACES.RWA_ORACLE },
+  { key: 'monitor', label: 'PositionMonitor', iface: CONTRACT_INTERFACES.POSITION_MONITOR },
+  { key: 'rewards', label: 'RewardsManager', iface: CONTRACT_INTERFACES.REWARDS_MANAGER },
+  { key: 'allocator', label: 'PublicAllocatorIntegration', iface: CONTRACT_INTERFACES.PUBLIC_ALLOCATOR },
+  { key: 'dataProvider', label: 'MarketDataProvider', iface: CONTRACT_INTERFACES.MARKET_DATA_PROVIDER },
+  { key: 'morpho', label: 'Morpho', iface: CONTRACT_INTERFACES.MORPHO_BLUE }
+];
+
+const erc20Interface = new ethers.Interface(ERC20_ABI);
+
+// ============ OWNERS ============
+
+/**
+ * Owners of the hub, oracle and rewards manager; rewards is left out when the
+ * deployment has none
+ */
+export const getContractOwners = async (
+  registry: ContractRegistry,
+  provider: ethers.Provider
+): Promise<ContractOwners> => {
+  const contracts: Array<[OwnedContract, Promise<string>]> = [
+    ['hub', connectHub(registry.hub, provider).owner()],
+    ['oracle', connectOracle(registry.oracle, provider).owner()]
+  ];
+  if (registry.rewards) {
+    contracts.push(['rewards', connectRewardsManager(registry.rewards, provider).owner()]);
+  }
+
+  const owners = await Promise.all(contracts.map(async ([key, owner]): Promise<[OwnedContract, ContractOwner]> => {
+    const address = await owner;
+    const code = await provider.getCode(address);
+    return [key, { address, isContract: code !== '0x' }];
+  }));
+
+  return Object.fromEntries(owners);
+};
+
+/**
+ * The Safes among `owners`, each with the contracts it owns; every Safe has its own batch
+ */
+export const getSafeOwners = (owners: ContractOwners): SafeOwner[] => {
+  const safes = new Map<string, SafeOwner>();
+
+  for (const [key, owner] of Object.entries(owners) as Array<[OwnedContract, ContractOwner]>) {
+    if (!owner.isContract) continue;
+    const safe = safes.get(owner.address.toLowerCase()) ?? { safeAddress: owner.address, contracts: [] };
+    safe.contracts.push(key);
+    safes.set(owner.address.toLowerCase(), safe);
+  }
+
+  return [...safes.values()];
+};
+
+/**
+ * The contract an owner call targets, whose owner's batch it is queued in
+ */
+export const getActionTarget = (action: ContractAdminAction): OwnedContract =>
+  action.type === 'createRewardProgram' ? 'rewards' : 'oracle';
+
+// ============ CHECKSUM ============
+
+// Same serialization as the Transaction Builder: keys sorted, undefined as null
+const serializeJSON = (json: unknown): string => {
+  const replacer = (_: string, value: unknown) => (value === undefined ? null : value);
+
+  if (Array.isArray(json)) {
+    return `[${json.map(serializeJSON).join(',')}]`;
+  }
+  if (typeof json === 'object' && json !== null) {
+    const keys = Object.keys(json).sort();
+    return `{${JSON.stringify(keys, replacer)}${keys.map(key => `${serializeJSON((json as Record<string, unknown>)[key])},`).join('')}}`;
+  }
+  return JSON.stringify(json, replacer);
+};
+
+const checksumOf = (batch: Record<string, unknown>, meta: Record<string, unknown>): string => {
+  const { checksum: _checksum, ...rest } = meta;
+  return ethers.id(serializeJSON({ ...batch, meta: { ...rest, name: null } }));
+};
+
+/**
+ * Transaction Builder checksum: keccak256 of the batch serialized without meta.name and meta.checksum
+ */
+export const calculateChecksum = (batch: SafeBatchFile): string => checksumOf({ ...batch }, { ...batch.meta });
+
+// ============ EXPORT ============
+
+const encodeSafeTransaction = (
+  to: string,
+  iface: ethers.Interface,
+  method: string,
+  args: readonly unknown[]
+): SafeTransaction => ({
+  to: ethers.getAddress(to),
+  value: '0',
+  data: iface.encodeFunctionData(method, args),
+  contractMethod: null,
+  contractInputsValues: null
+});
+
+export const toSafeHubTransaction = (hubAddress: string, action: HubAdminAction): SafeBatchEntry => {
+  const { method, args } = getAdminCall(action);
+  return {
+    transaction: encodeSafeTransaction(hubAddress, CONTRACT_INTERFACES.RWA_HUB, method, args),
+    summary: describeAdminAction(action)
+  };
+};
+
+/**
+ * Safe transactions for an owner call on the oracle or rewards manager. Reward programs
+ * pull their rewards from the owner, so the program is preceded by the token approval.
+ */
+export const toSafeContractTransactions = (
+  registry: ContractRegistry,
+  action: ContractAdminAction
+): SafeBatchEntry[] => {
+  const oracle = (method: string, args: unknown[]) =>
+    [encodeSafeTransaction(registry.oracle, CONTRACT_INTERFACES.RWA_ORACLE, method, args)];
+
+  const transactions = (() => {
+    switch (action.type) {
+      case 'setOracleUpdater':
+        return oracle('setAuthorizedUpdater', [action.updater, action.authorized]);
+      case 'configureOracle':
+        return oracle('configureOracle', [action.token, action.config]);
+      case 'setOraclePause':
+        return oracle('setEmergencyPause', [action.paused]);
+      case 'createRewardProgram': {
+        if (!registry.rewards) {
+          throw new Error(`No RewardsManager deployed on ${registry.network}`);
+        }
+        return [
+          encodeSafeTransaction(action.rewardToken, erc20Interface, 'approve', [registry.rewards, action.totalRewards]),
+          encodeSafeTransaction(registry.rewards, CONTRACT_INTERFACES.REWARDS_MANAGER, 'createRewardProgram', [
+            action.rewardToken,
+            action.totalRewards,
+            action.duration,
+            action.programType
+          ])
+        ];
+      }
+    }
+  })();
+
+  return transactions.map(transaction => ({
+    transaction,
+    summary: decodeSafeTransaction(transaction, registry).summary
+  }));
+};
+
+/**
+ * Transaction Builder JSON for `entries`, with the summaries as the batch description
+ */
+export const buildSafeBatch = (
+  chainId: string,
+  entries: SafeBatchEntry[],
+  { name = 'Morpho RWA admin batch', safeAddress = '' }: { name?: string; safeAddress?: string } = {}
+): SafeBatchFile => {
+  const batch: SafeBatchFile = {
+    version: '1.0',
+    chainId: BigInt(chainId).toString(),
+    createdAt: Date.now(),
+    meta: {
+      name,
+      description: entries.map((entry, i) => `${i + 1}. ${entry.summary}`).join('\n'),
+      txBuilderVersion: SAFE_TX_BUILDER_VERSION,
+      createdFromSafeAddress: safeAddress,
+      createdFromOwnerAddress: ''
+    },
+    transactions: entries.map(entry => entry.transaction)
+  };
+
+  return { ...batch, meta: { ...batch.meta, checksum: calculateChecksum(batch) } };
+};
+
+// ============ IMPORT ============
+
+// Transaction Builder input values are strings; arrays and tuples are JSON
+const parseInputValue = (value: string, type: string): unknown => {
+  if (type.endsWith(']') || type.startsWith('tuple')) return JSON.parse(value);
+  if (type === 'bool') return value === 'true';
+  return value;
+};
+
+/**
+ * Calldata of `transaction`, encoding contractMethod and contractInputsValues when data is null
+ */
+export const getSafeTransactionData = (transaction: SafeTransaction): string => {
+  if (transaction.data && transaction.data !== '0x') return transaction.data;
+  if (!transaction.contractMethod) return '0x';
+
+  const { name, inputs, payable } = transaction.contractMethod;
+  const fragment = ethers.FunctionFragment.from({
+    type: 'function',
+    name,
+    inputs,
+    stateMutability: payable ? 'payable' : 'nonpayable'
+  });
+  const values = transaction.contractInputsValues ?? {};
+
+  return new ethers.Interface([fragment]).encodeFunctionData(
+    fragment,
+    inputs.map(input => parseInputValue(values[input.name] ?? '', input.type))
+  );
+};
+
+const formatArgument = (value: unknown, param: ethers.ParamType): string => {
+  if (param.isTuple()) {
+    const fields = param.components.map((component, i) =>
+      `${component.name || i}: ${formatArgument((value as ethers.Result)[i], component)}`
+    );
+    return `{ ${fields.join(', ')} }`;
+  }
+  if (param.isArray()) {
+    return `[${[...(value as ethers.Result)].map(item => formatArgument(item, param.arrayChildren)).join(', ')}]`;
+  }
+  return String(value);
+};
+
+// Label for an address in the deployment: a contract name, token symbol or the short address
+const labelAddress = (address: string, registry: ContractRegistry): string => {
+  const contract = DECODABLE_CONTRACTS.find(({ key }) => registry[key]?.toLowerCase() === address.toLowerCase());
+  if (contract) return contract.label;
+  if (registry.usdc.toLowerCase() === address.toLowerCase()) return 'USDC';
+  return registry.rwaTokens.find(token => token.address.toLowerCase() === address.toLowerCase())?.symbol
+    ?? truncateAddress(address);
+};
+
+// Token amount in units of a known token, raw base units otherwise
+const formatTokenAmount = (amount: bigint, token: string, registry: ContractRegistry): string => {
+  const decimals = registry.usdc.toLowerCase() === token.toLowerCase()
+    ? DECIMAL_PRECISION.USDC
+    : registry.rwaTokens.find(entry => entry.address.toLowerCase() === token.toLowerCase())?.decimals;
+  return decimals === undefined
+    ? `${amount} base units of ${truncateAddress(token)}`
+    : `${formatBigInt(amount, decimals, 4)} ${labelAddress(token, registry)}`;
+};
+
+// Readable summaries for admin calls; anything else falls back to the raw call
+const describeCall = (
+  contract: string | null,
+  to: string,
+  parsed: ethers.TransactionDescription,
+  registry: ContractRegistry
+): string | null => {
+  const args = parsed.args;
+
+  if (contract === 'MorphoRWALiquidityHub') {
+    switch (parsed.name) {
+      case 'createRWAMarket':
+        return describeAdminAction({ type: 'createMarket', token: args[0], config: toRWAConfig(args[1]) });
+      case 'updateRWAConfig':
+        return describeAdminAction({ type: 'updateConfig', token: args[0], config: toRWAConfig(args[1]) });
+      case 'setEmergencyPause':
+        return describeAdminAction({ type: 'setPause', paused: args[0] });
+      case 'setFeeRecipient':
+        return describeAdminAction({ type: 'setFeeRecipient', recipient: args[0] });
+      case 'setKYCRequirement':
+        return describeAdminAction({ type: 'setKYCRequirement', required: args[0] });
+    }
+  }
+
+  if (contract === 'RWAOracle') {
+    switch (parsed.name) {
+      case 'setAuthorizedUpdater':
+        return `${args[1] ? 'Authorize' : 'Revoke'} oracle updater ${truncateAddress(args[0])}`;
+      case 'configureOracle': {
+        const config = toOracleConfig(args[1]);
+        const feed = config.chainlinkFeed === ethers.ZeroAddress
+          ? 'no Chainlink feed'
+          : `Chainlink ${truncateAddress(config.chainlinkFeed)}`;
+        return `Configure ${labelAddress(args[0], registry)} oracle: ${feed}, ` +
+          `max age ${formatDuration(Number(config.maxPriceAge))}` +
+          `${config.requiresManualUpdate ? ', manual updates' : ''}${config.isActive ? '' : ', inactive'}`;
+      }
+      case 'setEmergencyPause':
+        return args[0] ? 'Pause the oracle' : 'Unpause the oracle';
+      case 'setGlobalPriceUpdateInterval':
+        return `Set oracle update interval to ${formatDuration(Number(args[0]))}`;
+      case 'updatePriceManually':
+        return `Set ${labelAddress(args[0], registry)} price to $${formatBigInt(args[1], ORACLE_PRICE_DECIMALS, 2)} ` +
+          `at confidence ${args[2]}`;
+    }
+  }
+
+  if (contract === 'RewardsManager') {
+    switch (parsed.name) {
+      case 'createRewardProgram':
+        return `Create ${args[3]} reward program: ${formatTokenAmount(args[1], args[0], registry)} ` +
+          `over ${formatDuration(Number(args[2]))}`;
+      case 'deactivateRewardProgram':
+        return `Deactivate reward program #${args[0]}`;
+      case 'setEmergencyPause':
+        return args[0] ? 'Pause rewards' : 'Unpause rewards';
+    }
+  }
+
+  if (contract === null && parsed.name === 'approve') {
+    return `Approve ${labelAddress(args[0], registry)} to spend ${formatTokenAmount(args[1], to, registry)}`;
+  }
+
+  return null;
+};
+
+// Admin calls send no ETH; a non-zero value is either a mistake or an edited file
+const getValueWarning = (value: string, fragment: ethers.FunctionFragment | null): string | null => {
+  const wei = BigInt(value);
+  if (wei === 0n) return null;
+
+  const sends = `Sends ${ethers.formatEther(wei)} ETH with the call`;
+  return fragment && !fragment.payable ? `${sends}; ${fragment.name} is not payable, so it will revert` : sends;
+};
+
+/**
+ * Decode `transaction` against the deployment contract at its target address; calls to
+ * any other address are decoded as ERC20 approvals. Calls that send ETH are flagged.
+ */
+export const decodeSafeTransaction = (
+  transaction: SafeTransaction,
+  registry: ContractRegistry
+): DecodedSafeTransaction => {
+  const target = DECODABLE_CONTRACTS.find(({ key }) => registry[key]?.toLowerCase() === transaction.to.toLowerCase());
+  const contract = target?.label ?? null;
+  const base = { transaction, contract, method: null, args: [], valueWarning: getValueWarning(transaction.value, null) };
+
+  try {
+    const parsed = (target?.iface ?? erc20Interface).parseTransaction({
+      data: getSafeTransactionData(transaction),
+      value: transaction.value
+    });
+    if (!parsed) {
+      return target
+        ? { ...base, summary: `Unknown ${target.label} call`, error: 'Calldata does not match the contract ABI' }
+        : { ...base, summary: `Call to ${labelAddress(transaction.to, registry)}`, error: 'Not a deployment contract' };
+    }
+
+    const args = parsed.fragment.inputs.map((input, i) => ({
+      name: input.name,
+      type: input.type,
+      value: formatArgument(parsed.args[i], input)
+    }));
+
+    return {
+      ...base,
+      method: parsed.name,
+      args,
+      valueWarning: getValueWarning(transaction.value, parsed.fragment),
+      summary: describeCall(contract, transaction.to, parsed, registry) ??
+        `${contract ?? labelAddress(transaction.to, registry)}.${parsed.name}(${args.map(arg => arg.value).join(', ')})`,
+      error: null
+    };
+  } catch (error: any) {
+    return {
+      ...base,
+      summary: `Undecodable call to ${labelAddress(transaction.to, registry)}`,
+      error: error.shortMessage || error.message
+    };
+  }
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalString = (value: unknown): string | undefined => (typeof value === 'string' ? value : undefined);
+
+const isContractMethod = (value: unknown): value is SafeContractMethod =>
+  isRecord(value) &&
+  typeof value.name === 'string' &&
+  typeof value.payable === 'boolean' &&
+  Array.isArray(value.inputs) &&
+  value.inputs.every((input: unknown) => isRecord(input) && typeof input.name === 'string' && typeof input.type === 'string');
+
+const isInputValues = (value: unknown): value is Record<string, string> =>
+  isRecord(value) && Object.values(value).every(input => typeof input === 'string');
+
+// Wei as a decimal string, from a Transaction Builder value (a string, or a number in hand-written files)
+const parseWei = (value: unknown): string | null => {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  try {
+    const wei = BigInt(value);
+    return wei < 0n ? null : wei.toString();
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * A transaction from an imported file, or null if it is malformed
+ */
+const toSafeTransaction = (value: unknown): SafeTransaction | null => {
+  if (!isRecord(value) || typeof value.to !== 'string' || !ethers.isAddress(value.to)) return null;
+
+  const wei = parseWei(value.value ?? '0');
+  const data = value.data ?? null;
+  const contractMethod = value.contractMethod ?? null;
+  const contractInputsValues = value.contractInputsValues ?? null;
+
+  if (wei === null) return null;
+  if (data !== null && (typeof data !== 'string' || !ethers.isHexString(data))) return null;
+  if (contractMethod !== null && !isContractMethod(contractMethod)) return null;
+  if (contractInputsValues !== null && !isInputValues(contractInputsValues)) return null;
+  if (data === null && contractMethod === null) return null;
+
+  return { to: value.to, value: wei, data, contractMethod, contractInputsValues };
+};
+
+/**
+ * Parse and decode a Transaction Builder JSON file for review
+ */
+export const importSafeBatch = (json: string, registry: ContractRegistry): ImportedSafeBatch => {
+  let file: unknown;
+  try {
+    file = JSON.parse(json);
+  } catch {
+    throw new Error('Not a JSON file');
+  }
+
+  if (!isRecord(file) || !Array.isArray(file.transactions) || !isRecord(file.meta)) {
+    throw new Error('Not a Safe Transaction Builder batch');
+  }
+  const { meta } = file;
+
+  const parsed = file.transactions.map((tx: unknown) => toSafeTransaction(tx));
+  const invalid = parsed.findIndex(tx => tx === null);
+  if (invalid !== -1) {
+    throw new Error(`Transaction ${invalid + 1} is malformed`);
+  }
+  const transactions = parsed.filter((tx): tx is SafeTransaction => tx !== null);
+
+  const batch: SafeBatchFile = {
+    version: String(file.version ?? ''),
+    chainId: String(file.chainId ?? ''),
+    createdAt: Number(file.createdAt ?? 0),
+    meta: {
+      name: optionalString(meta.name) ?? '',
+      description: optionalString(meta.description),
+      txBuilderVersion: optionalString(meta.txBuilderVersion),
+      createdFromSafeAddress: optionalString(meta.createdFromSafeAddress),
+      createdFromOwnerAddress: optionalString(meta.createdFromOwnerAddress),
+      checksum: optionalString(meta.checksum)
+    },
+    transactions
+  };
+
+  return {
+    batch,
+    // Over the file as written, so any edit to it shows
+    checksumValid: !!batch.meta.checksum && batch.meta.checksum === checksumOf(file, meta),
+    chainMatches: (() => {
+      try {
+        return normalizeChainId(batch.chainId) === normalizeChainId(registry.chainId);
+      } catch {
+        return false;
+      }
+    })(),
+    transactions: transactions.map(tx => decodeSafeTransaction(tx, registry))
+  };
+};
+
+// ============ QUEUED BATCH ============
+
+const listeners = new Set<() => void>();
+
+const storageKey = (chainId: string, safeAddress: string): string =>
+  `${STORAGE_PREFIX}:${normalizeChainId(chainId)}:${safeAddress.toLowerCase()}`;
+
+const saveBatch = (chainId: string, safeAddress: string, entries: SafeBatchEntry[]): void => {
+  storage.set(storageKey(chainId, safeAddress), entries);
+  listeners.forEach(listener => listener());
+};
+
+/**
+ * Admin calls queued for the next batch of a Safe on a chain, in execution order
+ */
+export const getQueuedBatch = (chainId: string, safeAddress: string): SafeBatchEntry[] =>
+  chainId && safeAddress ? storage.get(storageKey(chainId, safeAddress)) || [] : [];
+
+export const queueSafeTransaction = (chainId: string, safeAddress: string, entry: SafeBatchEntry): void => {
+  saveBatch(chainId, safeAddress, [...getQueuedBatch(chainId, safeAddress), entry]);
+};
+
+export const removeQueuedTransaction = (chainId: string, safeAddress: string, index: number): void => {
+  saveBatch(chainId, safeAddress, getQueuedBatch(chainId, safeAddress).filter((_, i) => i !== index));
+};
+
+export const clearQueuedBatch = (chainId: string, safeAddress: string): void => {
+  saveBatch(chainId, safeAddress, []);
+};
+
+/**
+ * Get notified whenever this tab changes a queued batch
+ */
+export const subscribeQueuedBatch = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,250 @@
+// utils/simulation.ts
+// Pre-flight eth_call simulation of hub writes, so a reverting transaction never reaches the wallet
+import { ethers } from 'ethers';
+import { connectMorpho, MorphoRWALiquidityHub } from './bindings';
+import { getMorphoPosition } from './bundler';
+import { BASIS_POINTS, getCollateralValueUSD } from './collateral';
+import { decodeContractError, isAllowanceError } from './errors';
+import type { LiquidationQuote } from './liquidation';
+import { buildSupplyAndBorrowCall, SupplyAndBorrowCall } from './permit';
+import type { RepaymentQuote } from './repayment';
+import { ContractError } from '@/types';
+
+export interface TransactionPreview {
+  collateralBefore: bigint;
+  collateralAfter: bigint;
+  collateralDelta: bigint;
+  debtBefore: bigint;
+  debtAfter: bigint;
+  healthFactorBefore: bigint;
+  healthFactorAfter: bigint;
+  // Result of hub.checkHealthAfterBorrow; null when the action does not borrow
+  isHealthyAfterBorrow: boolean | null;
+}
+
+export interface SimulationResult {
+  success: boolean;
+  // False when the call only reverted on the allowance an approval is still pending for
+  simulated: boolean;
+  error: ContractError | null;
+  preview: TransactionPreview | null;
+}
+
+export interface SimulationOptions {
+  // An approval the call depends on is not mined yet; an allowance revert is then expected
+  // and every other revert still fails the simulation
+  pendingApproval?: boolean;
+}
+
+const projectHealthFactor = (collateralValueUSD: bigint, debtUSDC: bigint): bigint => {
+  if (debtUSDC === 0n) return ethers.MaxUint256;
+  return (collateralValueUSD * BASIS_POINTS) / (debtUSDC * 10n ** 12n);
+};
+
+const buildPreview = async (
+  hub: MorphoRWALiquidityHub,
+  user: string,
+  rwaToken: string,
+  collateralDelta: bigint,
+  debtDelta: bigint,
+  clearDebt: boolean
+): Promise<TransactionPreview> => {
+  const analytics = await hub.getPositionAnalytics(user, rwaToken);
+
+  const collateralAfter = analytics.collateralAmount + collateralDelta;
+  const debtAfter = clearDebt || analytics.borrowedAssets + debtDelta < 0n
+    ? 0n
+    : analytics.borrowedAssets + debtDelta;
+
+  const [collateralValueAfter, isHealthyAfterBorrow] = await Promise.all([
+    getCollateralValueUSD(hub, rwaToken, collateralAfter),
+    debtDelta > 0n ? hub.checkHealthAfterBorrow(user, rwaToken, debtDelta) : Promise.resolve(null)
+  ]);
+
+  return {
+    collateralBefore: analytics.collateralAmount,
+    collateralAfter,
+    collateralDelta,
+    debtBefore: analytics.borrowedAssets,
+    debtAfter,
+    healthFactorBefore: analytics.healthFactor,
+    healthFactorAfter: projectHealthFactor(collateralValueAfter, debtAfter),
+    isHealthyAfterBorrow
+  };
+};
+
+// Same as buildPreview, for a position held directly on Morpho Blue rather than through the hub
+const buildMorphoPreview = async (
+  hub: MorphoRWALiquidityHub,
+  user: string,
+  rwaToken: string,
+  collateralDelta: bigint,
+  debtDelta: bigint
+): Promise<TransactionPreview> => {
+  const { collateral, borrowAssets } = await getMorphoPosition(hub, user, rwaToken);
+  const collateralAfter = collateral + collateralDelta;
+  const debtAfter = borrowAssets + debtDelta;
+
+  const [collateralValueBefore, collateralValueAfter] = await Promise.all([
+    getCollateralValueUSD(hub, rwaToken, collateral),
+    getCollateralValueUSD(hub, rwaToken, collateralAfter)
+  ]);
+
+  return {
+    collateralBefore: collateral,
+    collateralAfter,
+    collateralDelta,
+    debtBefore: borrowAssets,
+    debtAfter,
+    healthFactorBefore: projectHealthFactor(collateralValueBefore, borrowAssets),
+    healthFactorAfter: projectHealthFactor(collateralValueAfter, debtAfter),
+    // The hub's check only covers collateral it custodies
+    isHealthyAfterBorrow: null
+  };
+};
+
+const runSimulation = async (
+  method: string,
+  call: () => Promise<unknown>,
+  preview: () => Promise<TransactionPreview>,
+  { pendingApproval = false }: SimulationOptions
+): Promise<SimulationResult> => {
+  let simulated = true;
+  try {
+    await call();
+  } catch (error) {
+    const decoded = decodeContractError(error, method);
+    if (!pendingApproval || !isAllowanceError(decoded)) {
+      return { success: false, simulated: true, error: decoded, preview: null };
+    }
+    // Every check before the token transfer passed; the rest is simulated again after the approval
+    simulated = false;
+  }
+
+  try {
+    return { success: true, simulated, error: null, preview: await preview() };
+  } catch (error) {
+    // The call itself would succeed; only the preview reads failed
+    console.error('Error building transaction preview:', error);
+    return { success: true, simulated, error: null, preview: null };
+  }
+};
+
+/**
+ * Simulate supplyCollateralAndBorrow from `user` and preview the resulting position
+ */
+export const simulateSupplyAndBorrow = (
+  hub: MorphoRWALiquidityHub,
+  user: string,
+  rwaToken: string,
+  collateralAmount: bigint,
+  borrowAmount: bigint,
+  options: SimulationOptions = {}
+): Promise<SimulationResult> => {
+  const call = buildSupplyAndBorrowCall(hub, rwaToken, collateralAmount, borrowAmount);
+
+  return runSimulation(
+    call.method,
+    () => call.staticCall({ from: user }),
+    () => buildPreview(hub, user, rwaToken, collateralAmount, borrowAmount, false),
+    options
+  );
+};
+
+/**
+ * Simulate repayAndWithdraw from `user` and preview the resulting position
+ */
+export const simulateRepayAndWithdraw = (
+  hub: MorphoRWALiquidityHub,
+  user: string,
+  rwaToken: string,
+  repayAmount: bigint,
+  withdrawAmount: bigint,
+  options: SimulationOptions = {}
+): Promise<SimulationResult> => runSimulation(
+  'repayAndWithdraw',
+  () => hub.repayAndWithdraw.staticCall(rwaToken, repayAmount, withdrawAmount, false, { from: user }),
+  () => buildPreview(hub, user, rwaToken, -withdrawAmount, -repayAmount, false),
+  options
+);
+
+/**
+ * Simulate repaying every borrow share in `quote` on Morpho Blue from `user`. The preview
+ * includes `withdrawAmount`, which is withdrawn through the hub once the repayment is mined
+ */
+export const simulateFullRepayment = (
+  hub: MorphoRWALiquidityHub,
+  user: string,
+  rwaToken: string,
+  quote: RepaymentQuote,
+  withdrawAmount: bigint,
+  options: SimulationOptions = {}
+): Promise<SimulationResult> => runSimulation(
+  'repay',
+  () => connectMorpho(quote.morpho, hub.runner!).repay.staticCall(
+    quote.marketParams,
+    0n,
+    quote.borrowShares,
+    user,
+    '0x',
+    { from: user }
+  ),
+  () => buildPreview(hub, user, rwaToken, -withdrawAmount, 0n, true),
+  options
+);
+
+/**
+ * Simulate a bundled supply and borrow on Morpho Blue from `user` and preview the resulting position
+ */
+export const simulateBundledSupplyAndBorrow = (
+  hub: MorphoRWALiquidityHub,
+  user: string,
+  rwaToken: string,
+  collateralAmount: bigint,
+  borrowAmount: bigint,
+  bundle: SupplyAndBorrowCall,
+  options: SimulationOptions = {}
+): Promise<SimulationResult> => runSimulation(
+  bundle.method,
+  () => bundle.staticCall({ from: user }),
+  () => buildMorphoPreview(hub, user, rwaToken, collateralAmount, borrowAmount),
+  options
+);
+
+/**
+ * Simulate addCollateral from `user` and preview the resulting position
+ */
+export const simulateAddCollateral = (
+  hub: MorphoRWALiquidityHub,
+  user: string,
+  rwaToken: string,
+  amount: bigint,
+  options: SimulationOptions = {}
+): Promise<SimulationResult> => runSimulation(
+  'addCollateral',
+  () => hub.addCollateral.staticCall(rwaToken, amount, { from: user }),
+  () => buildPreview(hub, user, rwaToken, amount, 0n, false),
+  options
+);
+
+/**
+ * Simulate a liquidation on Morpho Blue from `liquidator` and preview the borrower's position afterwards
+ */
+export const simulateLiquidation = (
+  hub: MorphoRWALiquidityHub,
+  liquidator: string,
+  quote: LiquidationQuote,
+  options: SimulationOptions = {}
+): Promise<SimulationResult> => runSimulation(
+  'liquidate',
+  () => connectMorpho(quote.morpho, hub.runner!).liquidate.staticCall(
+    quote.marketParams,
+    quote.params.borrower,
+    quote.params.seizedAssets,
+    quote.params.repaidShares,
+    '0x',
+    { from: liquidator }
+  ),
+  () => buildPreview(hub, quote.params.borrower, quote.params.rwaToken, -quote.seizedAssets, -quote.repaidAssets, false),
+  options
+);
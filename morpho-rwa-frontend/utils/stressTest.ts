@@ -0,0 +1,125 @@
+// utils/stressTest.ts
+// Price-shock stress tests computed the same way as PositionMonitor.stressTest, plus the
+// collateral top-up that keeps the position clear of liquidation after the shock.
+import { ethers } from 'ethers';
+import { PositionMonitor, RWAOracle } from './bindings';
+import { BASIS_POINTS, toHealthFactorBps } from './collateral';
+import { HEALTH_FACTOR_THRESHOLDS, PositionAnalytics } from '@/types';
+
+// PositionMonitor reports health factors with 18 decimals
+const MONITOR_PRECISION = 10n ** 18n;
+const MONITOR_TO_BPS = MONITOR_PRECISION / BASIS_POINTS;
+const MONITOR_MAX_HEALTH_FACTOR = 10n ** 36n;
+
+// Used when the oracle config cannot be read
+const DEFAULT_PRICE_DEVIATION_BPS = 1000n; // 10%
+
+export interface StressScenario {
+  id: 'real-estate' | 'credit-default' | 'oracle-deviation';
+  label: string;
+  description: string;
+  // Price drop in basis points, as stressTest takes it
+  priceDropBps: bigint;
+}
+
+export interface StressResult {
+  priceDropBps: bigint;
+  // Health factor after the shock, in basis points
+  healthFactor: bigint;
+  wouldBeLiquidated: boolean;
+  // Collateral to add, at the shocked price, to get back to the target health factor
+  topUpAmount: bigint;
+}
+
+/**
+ * Preset shocks; the oracle scenario uses the token's PriceDeviationAlert threshold
+ */
+export const getStressScenarios = (priceDeviationBps: bigint): StressScenario[] => [
+  {
+    id: 'real-estate',
+    label: 'Real estate drawdown',
+    description: 'Commercial property values fall 35%, as in 2008-2009',
+    priceDropBps: 3500n
+  },
+  {
+    id: 'credit-default',
+    label: 'Credit default',
+    description: 'The underlying borrower defaults and recovers 40 cents on the dollar',
+    priceDropBps: 6000n
+  },
+  {
+    id: 'oracle-deviation',
+    label: 'Oracle deviation',
+    description: `Price moves ${Number(priceDeviationBps) / 100}%, the oracle's deviation alert threshold`,
+    priceDropBps: priceDeviationBps
+  }
+];
+
+/**
+ * Apply a price drop to the position the way PositionMonitor.stressTest does, and work out
+ * the top-up needed to reach `targetHealthFactor` (basis points) at the shocked price
+ */
+export const runStressTest = (
+  position: PositionAnalytics,
+  priceDropBps: bigint,
+  targetHealthFactor: bigint = toHealthFactorBps(HEALTH_FACTOR_THRESHOLDS.LIQUIDATION)
+): StressResult => {
+  if (priceDropBps < 0n || priceDropBps > BASIS_POINTS) {
+    throw new Error('Invalid price drop');
+  }
+
+  const stressedValueUSD = (position.collateralValueUSD * (BASIS_POINTS - priceDropBps)) / BASIS_POINTS;
+  const debtUSD = position.borrowedValueUSD;
+
+  if (debtUSD === 0n) {
+    return { priceDropBps, healthFactor: ethers.MaxUint256, wouldBeLiquidated: false, topUpAmount: 0n };
+  }
+
+  const healthFactor = (stressedValueUSD * BASIS_POINTS) / debtUSD;
+
+  // Value the top-up at the shocked per-token price, rounding up
+  let topUpAmount = 0n;
+  const shortfallUSD = (targetHealthFactor * debtUSD + BASIS_POINTS - 1n) / BASIS_POINTS - stressedValueUSD;
+  if (shortfallUSD > 0n) {
+    topUpAmount = stressedValueUSD === 0n
+      ? ethers.MaxUint256
+      : (shortfallUSD * position.collateralAmount + stressedValueUSD - 1n) / stressedValueUSD;
+  }
+
+  return {
+    priceDropBps,
+    healthFactor,
+    wouldBeLiquidated: healthFactor < toHealthFactorBps(HEALTH_FACTOR_THRESHOLDS.LIQUIDATION),
+    topUpAmount
+  };
+};
+
+/**
+ * Deviation (basis points) above which the oracle emits PriceDeviationAlert for `token`
+ */
+export const getPriceDeviationThreshold = async (oracle: RWAOracle, token: string): Promise<bigint> => {
+  try {
+    const { priceDeviation } = await oracle.getOracleConfig(token);
+    return priceDeviation > 0n ? priceDeviation : DEFAULT_PRICE_DEVIATION_BPS;
+  } catch {
+    return DEFAULT_PRICE_DEVIATION_BPS;
+  }
+};
+
+/**
+ * Run PositionMonitor.stressTest on-chain, with the health factor converted to basis points
+ */
+export const getOnChainStressTest = async (
+  monitor: PositionMonitor,
+  user: string,
+  token: string,
+  priceDropBps: bigint
+): Promise<Pick<StressResult, 'healthFactor' | 'wouldBeLiquidated'>> => {
+  const { healthFactorAfterStress, wouldBeLiquidated } = await monitor.stressTest(user, token, priceDropBps);
+  return {
+    healthFactor: healthFactorAfterStress >= MONITOR_MAX_HEALTH_FACTOR
+      ? ethers.MaxUint256
+      : healthFactorAfterStress / MONITOR_TO_BPS,
+    wouldBeLiquidated
+  };
+};
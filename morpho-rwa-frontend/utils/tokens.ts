@@ -0,0 +1,125 @@
+// utils/tokens.ts
+// Builds the RWA token list from the hub: getSupportedRWATokens, then rwaConfigs and ERC20
+// metadata for each token in one multicall. Tokens listed in the deployment manifest but
+// no longer supported by the hub are kept so they can be labelled rather than vanish.
+import { ethers } from 'ethers';
+import { CONTRACT_INTERFACES, ContractOutput, MorphoRWALiquidityHub } from './bindings';
+import { toRWAConfig } from './contracts';
+import { aggregate3Raw, decodeResult, MulticallRequest } from './multicall';
+import { ERC20_ABI } from './web3';
+import { normalizeChainId, requireRegistry } from './registry';
+import { RWAConfig, RWAToken } from '@/types';
+
+const erc20Interface = new ethers.Interface(ERC20_ABI);
+
+export type RWATokenStatus = 'active' | 'inactive' | 'unsupported';
+
+export const TOKEN_STATUS_LABELS: Record<RWATokenStatus, string> = {
+  active: 'Active',
+  inactive: 'Inactive',
+  unsupported: 'Not supported'
+};
+
+/**
+ * Whether the hub accepts new positions in `token`; tokens whose config could not
+ * be read count as unsupported
+ */
+export const getTokenStatus = (token: RWAToken): RWATokenStatus => {
+  if (!token.config?.isSupported) return 'unsupported';
+  return token.config.isActive ? 'active' : 'inactive';
+};
+
+interface TokenRequests {
+  config: MulticallRequest<RWAConfig>;
+  name: MulticallRequest<string>;
+  symbol: MulticallRequest<string>;
+  decimals: MulticallRequest<bigint>;
+}
+
+const buildRequests = (hub: string, token: string): TokenRequests => {
+  const hubInterface = CONTRACT_INTERFACES.RWA_HUB;
+  const erc20Call = <T>(method: 'name' | 'symbol' | 'decimals'): MulticallRequest<T> => ({
+    target: token,
+    callData: erc20Interface.encodeFunctionData(method),
+    decode: (data): T => erc20Interface.decodeFunctionResult(method, data)[0]
+  });
+
+  return {
+    config: {
+      target: hub,
+      callData: hubInterface.encodeFunctionData('rwaConfigs', [token]),
+      decode: (data): RWAConfig => toRWAConfig(
+        hubInterface.decodeFunctionResult('rwaConfigs', data) as ContractOutput<MorphoRWALiquidityHub['rwaConfigs']>
+      )
+    },
+    name: erc20Call<string>('name'),
+    symbol: erc20Call<string>('symbol'),
+    decimals: erc20Call<bigint>('decimals')
+  };
+};
+
+const readRWATokens = async (provider: ethers.Provider, chainId: string): Promise<RWAToken[]> => {
+  const registry = requireRegistry(chainId);
+  const hub = CONTRACT_INTERFACES.RWA_HUB;
+
+  const supported: string[] = [
+    ...hub.decodeFunctionResult(
+      'getSupportedRWATokens',
+      await provider.call({ to: registry.hub, data: hub.encodeFunctionData('getSupportedRWATokens') })
+    )[0]
+  ].map((address: string) => ethers.getAddress(address));
+
+  // Manifest tokens fill in metadata the token contract does not return
+  const known = new Map(registry.rwaTokens.map(token => [ethers.getAddress(token.address), token]));
+  const addresses = [...new Set([...supported, ...known.keys()])];
+
+  const requests = addresses.map(address => buildRequests(registry.hub, address));
+  const responses = await aggregate3Raw(
+    provider,
+    requests.flatMap(({ config, name, symbol, decimals }) => [config, name, symbol, decimals])
+  );
+
+  return addresses.map((address, i): RWAToken => {
+    const [configResponse, nameResponse, symbolResponse, decimalsResponse] = responses.slice(i * 4, i * 4 + 4);
+    const rwaConfig = decodeResult<RWAConfig>(requests[i].config, configResponse).data;
+    const name = decodeResult<string>(requests[i].name, nameResponse).data;
+    const symbol = decodeResult<string>(requests[i].symbol, symbolResponse).data;
+    const decimals = decodeResult<bigint>(requests[i].decimals, decimalsResponse).data;
+    const manifest = known.get(address);
+
+    return {
+      address,
+      name: rwaConfig?.name || name || manifest?.name || address,
+      symbol: symbol || manifest?.symbol || '???',
+      type: rwaConfig?.assetType || manifest?.type || 'Unknown',
+      decimals: decimals !== null ? Number(decimals) : rwaConfig?.decimals || manifest?.decimals || 18,
+      isActive: !!rwaConfig?.isSupported && rwaConfig.isActive,
+      config: rwaConfig ?? undefined
+    };
+  });
+};
+
+// One in-flight or settled token list per chain; configs change only through admin calls
+const tokenCache = new Map<string, Promise<RWAToken[]>>();
+
+/**
+ * Every RWA token the hub supports or the deployment manifest lists, with its
+ * RWAConfig. Results are cached per chain; pass `refresh` to re-read them
+ */
+export const fetchRWATokens = async (
+  provider: ethers.Provider,
+  chainId: string,
+  refresh: boolean = false
+): Promise<RWAToken[]> => {
+  const key = normalizeChainId(chainId);
+  const cached = tokenCache.get(key);
+  if (cached && !refresh) {
+    return cached;
+  }
+
+  const tokens = readRWATokens(provider, key);
+  tokenCache.set(key, tokens);
+  tokens.catch(() => tokenCache.delete(key));
+
+  return tokens;
+};
@@ -0,0 +1,212 @@
+// utils/transactionStore.ts
+// Transactions sent from the app, persisted per account and chain so they can be
+// watched again after a reload (handleChainChanged reloads the page).
+import { ethers } from 'ethers';
+import { storage } from './index';
+import { normalizeChainId } from './registry';
+import { PendingTransaction, TransactionState, TransactionType } from '@/types';
+
+const STORAGE_PREFIX = 'morpho-rwa:transactions';
+
+// Oldest entries are dropped past this many
+const MAX_HISTORY = 50;
+
+// A transaction no node knows about is given this long to propagate before it counts as dropped
+const DROPPED_AFTER_MS = 10 * 60 * 1000;
+
+type TransactionUpdate = Pick<PendingTransaction, 'status' | 'replacedBy' | 'settledAt'>;
+
+const listeners = new Set<() => void>();
+
+const storageKey = (account: string, chainId: string): string =>
+  `${STORAGE_PREFIX}:${normalizeChainId(chainId)}:${account.toLowerCase()}`;
+
+const saveTransactions = (account: string, chainId: string, transactions: PendingTransaction[]): void => {
+  storage.set(storageKey(account, chainId), transactions.slice(0, MAX_HISTORY));
+  listeners.forEach(listener => listener());
+};
+
+/**
+ * Get the stored transactions for an account on a chain, newest first
+ */
+export const getTransactions = (account: string, chainId: string): PendingTransaction[] => {
+  if (!account || !chainId) return [];
+  return storage.get(storageKey(account, chainId)) || [];
+};
+
+/**
+ * Store a transaction; replaces an existing entry with the same hash
+ */
+export const addTransaction = (transaction: PendingTransaction): void => {
+  const { account, chainId, hash } = transaction;
+  const others = getTransactions(account, chainId).filter(tx => tx.hash !== hash);
+  saveTransactions(account, chainId, [transaction, ...others]);
+};
+
+export const updateTransaction = (
+  account: string,
+  chainId: string,
+  hash: string,
+  changes: Partial<PendingTransaction>
+): void => {
+  const transactions = getTransactions(account, chainId);
+  if (!transactions.some(tx => tx.hash === hash)) return;
+
+  saveTransactions(
+    account,
+    chainId,
+    transactions.map(tx => (tx.hash === hash ? { ...tx, ...changes } : tx))
+  );
+};
+
+/**
+ * Remove settled transactions; pending ones are kept so they are still watched
+ */
+export const clearSettledTransactions = (account: string, chainId: string): void => {
+  saveTransactions(
+    account,
+    chainId,
+    getTransactions(account, chainId).filter(tx => tx.status === 'pending')
+  );
+};
+
+/**
+ * Get notified whenever this tab changes the store
+ */
+export const subscribeTransactions = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Record a transaction the wallet just sent
+ */
+export const trackTransaction = async (
+  tx: ethers.TransactionResponse,
+  type: TransactionType,
+  description: string,
+  provider: ethers.Provider
+): Promise<PendingTransaction> => {
+  const transaction: PendingTransaction = {
+    hash: tx.hash,
+    type,
+    description,
+    timestamp: Date.now(),
+    account: ethers.getAddress(tx.from),
+    chainId: normalizeChainId(tx.chainId),
+    nonce: tx.nonce,
+    to: tx.to,
+    dataHash: ethers.keccak256(tx.data),
+    submittedBlock: await provider.getBlockNumber(),
+    status: 'pending',
+    replacedBy: null,
+    settledAt: null
+  };
+
+  addTransaction(transaction);
+  return transaction;
+};
+
+/**
+ * Mark a tracked transaction as settled from its receipt, which belongs to the
+ * replacement when the transaction was sped up
+ */
+export const settleTransaction = (
+  tx: Pick<PendingTransaction, 'account' | 'chainId' | 'hash'>,
+  receipt: ethers.TransactionReceipt | null
+): void => {
+  if (!receipt) return;
+  updateTransaction(tx.account, tx.chainId, tx.hash, {
+    status: receipt.status === 1 ? 'confirmed' : 'failed',
+    replacedBy: receipt.hash === tx.hash ? null : receipt.hash,
+    settledAt: Date.now()
+  });
+};
+
+const settled = (status: TransactionState, replacedBy: string | null = null): TransactionUpdate => ({
+  status,
+  replacedBy,
+  settledAt: Date.now()
+});
+
+// Find the transaction that used `tx.nonce`, by binary searching for the block where the
+// account's nonce moved past it. Needs historical state, so it gives up on pruned nodes.
+const findNonceConsumer = async (
+  provider: ethers.Provider,
+  tx: PendingTransaction
+): Promise<ethers.TransactionResponse | null> => {
+  try {
+    let low = Math.max(tx.submittedBlock - 1, 0);
+    let high = await provider.getBlockNumber();
+
+    while (high - low > 1) {
+      const mid = Math.floor((low + high) / 2);
+      const count = await provider.getTransactionCount(tx.account, mid);
+      if (count > tx.nonce) {
+        high = mid;
+      } else {
+        low = mid;
+      }
+    }
+
+    const block = await provider.getBlock(high, true);
+    const account = tx.account.toLowerCase();
+    return block?.prefetchedTransactions.find(
+      candidate => candidate.from.toLowerCase() === account && candidate.nonce === tx.nonce
+    ) || null;
+  } catch (error) {
+    console.error('Error searching for replacement transaction:', error);
+    return null;
+  }
+};
+
+/**
+ * Work out where a pending transaction stands: mined, still pending, dropped from the
+ * mempool, or replaced by another transaction with the same nonce. Returns null while pending.
+ */
+export const resolveTransaction = async (
+  provider: ethers.Provider,
+  tx: PendingTransaction
+): Promise<TransactionUpdate | null> => {
+  const receipt = await provider.getTransactionReceipt(tx.hash);
+  if (receipt) {
+    return settled(receipt.status === 1 ? 'confirmed' : 'failed');
+  }
+
+  const nonce = await provider.getTransactionCount(tx.account, 'latest');
+  if (nonce <= tx.nonce) {
+    if (await provider.getTransaction(tx.hash)) return null;
+    return Date.now() - tx.timestamp > DROPPED_AFTER_MS ? settled('dropped') : null;
+  }
+
+  // Something used the nonce
+  const replacement = await findNonceConsumer(provider, tx);
+  if (!replacement) {
+    return settled('replaced');
+  }
+
+  // Mined between the receipt and nonce checks
+  if (replacement.hash === tx.hash) {
+    const minedReceipt = await provider.getTransactionReceipt(tx.hash);
+    return settled(minedReceipt?.status === 1 ? 'confirmed' : 'failed');
+  }
+
+  const isCancel = replacement.to?.toLowerCase() === tx.account.toLowerCase()
+    && replacement.value === 0n
+    && replacement.data === '0x';
+  if (isCancel) {
+    return settled('cancelled', replacement.hash);
+  }
+
+  // Sped up: same call at a higher gas price, so it settles with the replacement's outcome
+  const isSpeedUp = replacement.to?.toLowerCase() === tx.to?.toLowerCase()
+    && ethers.keccak256(replacement.data) === tx.dataHash;
+  if (isSpeedUp) {
+    const replacementReceipt = await provider.getTransactionReceipt(replacement.hash);
+    return settled(replacementReceipt?.status === 1 ? 'confirmed' : 'failed', replacement.hash);
+  }
+
+  return settled('replaced', replacement.hash);
+};
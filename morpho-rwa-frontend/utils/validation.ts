@@ -0,0 +1,193 @@
+// utils/validation.ts
+// Form validation driven by ValidationRule/FormField. Rules for the supply and borrow form
+// are built from the hub's RWAConfig limits, the wallet balance, KYC status and pause state,
+// so the form catches what the hub would revert on before anything is submitted.
+import { ethers } from 'ethers';
+import { MorphoRWALiquidityHub } from './bindings';
+import { getMorphoPosition } from './bundler';
+import { CollateralPrice, getCollateralPrice, toCollateralValueUSD } from './collateral';
+import { toRWAConfig } from './contracts';
+import { getKYCStatus, KYCStatus } from './kyc';
+import { formatBigInt, isValidNumber, toBigInt, validateBorrowAmount, validateCollateralAmount } from './index';
+import { ERC20_ABI } from './web3';
+import { FormField, RWAConfig, ValidationRule } from '@/types';
+
+// Borrow no closer than this to the market's LLTV (basis points, i.e. 5 percentage points)
+export const LTV_SAFETY_BUFFER_BPS = 500n;
+
+const AMOUNT_PATTERN = /^\d*\.?\d*$/;
+
+// How the form opens the position: through the hub, or straight on Morpho Blue via Bundler3
+export type SupplyRoute = 'hub' | 'bundler';
+
+export interface SupplyBorrowContext {
+  config: RWAConfig | null;
+  // Wallet balance of the collateral token
+  balance: bigint | null;
+  collateralPrice: CollateralPrice | null;
+  // Collateral already supplied, which counts towards maxSinglePosition
+  existingCollateral: bigint;
+  // Collateral in the user's Morpho Blue position, including any supplied outside the hub
+  morphoCollateral: bigint | null;
+  isPaused: boolean | null;
+  // null when the requirement or the verification could not be read, which blocks the form
+  kyc: KYCStatus | null;
+}
+
+/**
+ * First error `value` breaks, checking `rules` in order; empty optional values pass
+ */
+export const validateValue = (value: string, rules: ValidationRule[]): string | null => {
+  const isEmpty = value.trim() === '';
+
+  for (const rule of rules) {
+    if (rule.required && isEmpty) return 'This field is required';
+    if (isEmpty) continue;
+    if (rule.pattern && !rule.pattern.test(value)) return 'Invalid format';
+    if (rule.min !== undefined && Number(value) < rule.min) return `Must be at least ${rule.min}`;
+    if (rule.max !== undefined && Number(value) > rule.max) return `Must be at most ${rule.max}`;
+
+    const error = rule.custom?.(value);
+    if (error) return error;
+  }
+
+  return null;
+};
+
+/**
+ * Run every field's rules and record the first error on the field
+ */
+export const validateFields = (fields: FormField[]): FormField[] =>
+  fields.map(field => ({ ...field, error: validateValue(field.value, field.rules) ?? undefined }));
+
+/**
+ * Errors keyed by field name, for the fields that have one
+ */
+export const getFieldErrors = (fields: FormField[]): Record<string, string> =>
+  Object.fromEntries(
+    validateFields(fields)
+      .filter(field => field.error)
+      .map(field => [field.name, field.error as string])
+  );
+
+const positiveAmount: ValidationRule = {
+  custom: (value) => (isValidNumber(value) && Number(value) > 0 ? null : 'Amount must be greater than 0')
+};
+
+/**
+ * Fields of the supply and borrow form with rules for the current market and wallet
+ */
+export const getSupplyBorrowFields = (
+  collateralAmount: string,
+  borrowAmount: string,
+  context: SupplyBorrowContext
+): FormField[] => {
+  const { config, balance, collateralPrice, existingCollateral } = context;
+  const decimals = config?.decimals ?? 18;
+
+  const collateralRules: ValidationRule[] = [{ required: true, pattern: AMOUNT_PATTERN }, positiveAmount];
+  if (balance !== null) {
+    collateralRules.push({
+      custom: (value) => toBigInt(value, decimals) > balance
+        ? `Insufficient balance: you have ${formatBigInt(balance, decimals, 4)}`
+        : null
+    });
+  }
+  if (config?.isSupported) {
+    collateralRules.push({
+      custom: (value) => {
+        const { minCollateral, maxSinglePosition } = config;
+        if (maxSinglePosition > 0n && existingCollateral >= maxSinglePosition) {
+          return 'This position is already at the maximum size';
+        }
+        const remaining = maxSinglePosition > 0n ? maxSinglePosition - existingCollateral : 0n;
+        return validateCollateralAmount(value, minCollateral, remaining, decimals);
+      }
+    });
+  }
+
+  const borrowRules: ValidationRule[] = [{ required: true, pattern: AMOUNT_PATTERN }, positiveAmount];
+  if (config?.isSupported && collateralPrice) {
+    // The hub checks the borrow against the collateral supplied in the same call
+    const maxLTV = config.lltv > LTV_SAFETY_BUFFER_BPS ? config.lltv - LTV_SAFETY_BUFFER_BPS : 0n;
+    borrowRules.push({
+      custom: (value) => isValidNumber(collateralAmount)
+        ? validateBorrowAmount(value, toCollateralValueUSD(collateralPrice, toBigInt(collateralAmount, decimals)), maxLTV)
+        : null
+    });
+  }
+
+  return [
+    { name: 'collateralAmount', value: collateralAmount, rules: collateralRules },
+    { name: 'borrowAmount', value: borrowAmount, rules: borrowRules }
+  ];
+};
+
+/**
+ * Reasons the hub would reject the form whatever the amounts: pause, token state and KYC.
+ * Hub and bundled positions in one market share the user's Morpho position, but the hub
+ * only tracks its own collateral (userCollateralAmounts), and liquidatePosition underflows
+ * when it seizes more than that; the form keeps each market on the route it was opened with
+ */
+export const getSupplyBorrowBlockers = (
+  { config, isPaused, kyc, existingCollateral, morphoCollateral }: SupplyBorrowContext,
+  route: SupplyRoute = 'hub'
+): string[] => {
+  const blockers: string[] = [];
+
+  if (route === 'bundler' && existingCollateral > 0n) {
+    blockers.push('You have a hub position in this market; add to it through the hub, which does not track bundled collateral');
+  } else if (route === 'hub' && morphoCollateral !== null && morphoCollateral > existingCollateral) {
+    blockers.push('Your position in this market was opened directly on Morpho Blue; add to it through the bundler route');
+  }
+
+  if (isPaused) {
+    blockers.push('The hub is paused; new positions are disabled until it resumes');
+  }
+  if (config && !config.isSupported) {
+    blockers.push('This token is not supported by the hub');
+  } else if (config && !config.isActive) {
+    blockers.push('This market is inactive; new supply and borrow are disabled');
+  }
+  if (!kyc) {
+    blockers.push('Could not check whether the hub requires KYC verification; try again shortly');
+  } else if (kyc.required && !kyc.verified) {
+    blockers.push('KYC verification is required to borrow from the hub');
+  }
+
+  return blockers;
+};
+
+/**
+ * Read everything the supply and borrow rules depend on; reads that fail are left
+ * null so the matching rules are skipped rather than blocking the form, except KYC,
+ * which getSupplyBorrowBlockers treats as a blocker when it could not be read
+ */
+export const getSupplyBorrowContext = async (
+  hub: MorphoRWALiquidityHub,
+  user: string,
+  rwaToken: string
+): Promise<SupplyBorrowContext> => {
+  const token = new ethers.Contract(rwaToken, ERC20_ABI, hub.runner);
+  const orNull = <T>(promise: Promise<T>): Promise<T | null> => promise.catch(() => null);
+
+  const [config, balance, collateralPrice, existingCollateral, morphoPosition, isPaused, kyc] = await Promise.all([
+    orNull(hub.rwaConfigs(rwaToken).then(toRWAConfig)),
+    orNull(token.balanceOf(user).then((value: bigint) => BigInt(value))),
+    orNull(getCollateralPrice(hub, rwaToken)),
+    orNull(hub.getUserCollateral(user, rwaToken)),
+    orNull(getMorphoPosition(hub, user, rwaToken)),
+    orNull(hub.paused()),
+    orNull(getKYCStatus(hub, user))
+  ]);
+
+  return {
+    config,
+    balance,
+    collateralPrice,
+    existingCollateral: existingCollateral ?? 0n,
+    morphoCollateral: morphoPosition?.collateral ?? null,
+    isPaused,
+    kyc
+  };
+};
@@ -1,6 +1,9 @@
 // utils/web3.ts
 import { ethers } from 'ethers';
-import { CONTRACT_ADDRESSES } from './index';
+import { ContractRegistry, SUPPORTED_NETWORKS } from '@/types';
+import { connectHub, MorphoRWALiquidityHub } from './bindings';
+import { decodeContractError, formatContractError } from './errors';
+import { DEFAULT_CHAIN_ID, isDeployedChain, normalizeChainId, requireRegistry } from './registry';
 
 // ERC20 ABI for token approvals
 export const ERC20_ABI = [
@@ -12,71 +15,27 @@ export const ERC20_ABI = [
   "function name() external view returns (string)"
 ];
 
-// Morpho RWA Contract ABI (expanded)
-export const MORPHO_RWA_ABI = [
-  {
-    "inputs": [
-      {"name": "rwaToken", "type": "address"},
-      {"name": "collateralAmount", "type": "uint256"},
-      {"name": "borrowAmount", "type": "uint256"}
-    ],
-    "name": "supplyCollateralAndBorrow",
-    "outputs": [],
-    "stateMutability": "nonpayable",
-    "type": "function"
-  },
-  {
-    "inputs": [
-      {"name": "rwaToken", "type": "address"},
-      {"name": "repayAmount", "type": "uint256"},
-      {"name": "withdrawAmount", "type": "uint256"},
-      {"name": "fullRepayment", "type": "bool"}
-    ],
-    "name": "repayAndWithdraw",
-    "outputs": [],
-    "stateMutability": "nonpayable",
-    "type": "function"
-  },
-  {
-    "inputs": [{"name": "user", "type": "address"}, {"name": "rwaToken", "type": "address"}],
-    "name": "getPositionAnalytics",
-    "outputs": [
-      {"name": "collateralAmount", "type": "uint256"},
-      {"name": "collateralValueUSD", "type": "uint256"},
-      {"name": "borrowedAssets", "type": "uint256"},
-      {"name": "borrowedValueUSD", "type": "uint256"},
-      {"name": "healthFactor", "type": "uint256"},
-      {"name": "currentLTV", "type": "uint256"},
-      {"name": "liquidationPrice", "type": "uint256"},
-      {"name": "availableToBorrow", "type": "uint256"},
-      {"name": "availableToWithdraw", "type": "uint256"}
-    ],
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "inputs": [],
-    "name": "getSupportedRWATokens",
-    "outputs": [{"name": "", "type": "address[]"}],
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "inputs": [{"name": "user", "type": "address"}],
-    "name": "getUserPositionInfo",
-    "outputs": [
-      {"name": "totalCollateralUSD", "type": "uint256"},
-      {"name": "totalBorrowedUSD", "type": "uint256"},
-      {"name": "healthFactor", "type": "uint256"},
-      {"name": "lastUpdate", "type": "uint256"},
-      {"name": "isActive", "type": "bool"}
-    ],
-    "stateMutability": "view",
-    "type": "function"
+const readProviders = new Map<string, ethers.JsonRpcProvider>();
+
+// Get Read-only Provider (view calls only, no wallet required)
+export const getReadProvider = (chainId: string = DEFAULT_CHAIN_ID): ethers.JsonRpcProvider => {
+  const network = SUPPORTED_NETWORKS[normalizeChainId(chainId)];
+  if (!network) {
+    throw new Error(`Unsupported network: ${chainId}`);
   }
-];
 
-// Get Web3 Provider
+  let provider = readProviders.get(network.chainId);
+  if (!provider) {
+    provider = new ethers.JsonRpcProvider(network.rpcUrl, Number(network.chainId), {
+      staticNetwork: true
+    });
+    readProviders.set(network.chainId, provider);
+  }
+
+  return provider;
+};
+
+// Get Web3 Provider (injected wallet, used for signing)
 export const getProvider = (): ethers.BrowserProvider | null => {
   if (typeof window !== 'undefined' && window.ethereum) {
     return new ethers.BrowserProvider(window.ethereum);
@@ -97,16 +56,36 @@ export const getSigner = async (): Promise<ethers.JsonRpcSigner | null> => {
   }
 };
 
+// Get Active Chain (the wallet's chain if it has a deployment, otherwise the default)
+export const getActiveChainId = async (): Promise<string> => {
+  if (typeof window !== 'undefined' && window.ethereum) {
+    try {
+      const chainId = await window.ethereum.request({ method: 'eth_chainId' });
+      if (isDeployedChain(chainId)) return normalizeChainId(chainId);
+    } catch (error) {
+      console.error('Error getting wallet chain:', error);
+    }
+  }
+  return DEFAULT_CHAIN_ID;
+};
+
+// Get Contract Addresses for the active chain
+export const getActiveRegistry = async (): Promise<ContractRegistry> => {
+  return requireRegistry(await getActiveChainId());
+};
+
 // Get Contract Instance
-export const getMorphoContract = async (): Promise<ethers.Contract | null> => {
+export const getMorphoContract = async (): Promise<MorphoRWALiquidityHub | null> => {
   const signer = await getSigner();
   if (!signer) return null;
   
-  return new ethers.Contract(
-    CONTRACT_ADDRESSES.RWA_HUB,
-    MORPHO_RWA_ABI,
-    signer
-  );
+  const { chainId } = await signer.provider.getNetwork();
+  return connectHub(requireRegistry(chainId).hub, signer);
+};
+
+// Get Read-only Contract Instance
+export const getMorphoReadContract = (chainId: string = DEFAULT_CHAIN_ID): MorphoRWALiquidityHub => {
+  return connectHub(requireRegistry(chainId).hub, getReadProvider(chainId));
 };
 
 // Get ERC20 Token Contract
@@ -121,12 +100,11 @@ export const getTokenContract = async (tokenAddress: string): Promise<ethers.Con
 export const checkTokenAllowance = async (
   tokenAddress: string,
   ownerAddress: string,
-  spenderAddress: string
+  spenderAddress: string,
+  chainId?: string
 ): Promise<bigint> => {
   try {
-    const tokenContract = await getTokenContract(tokenAddress);
-    if (!tokenContract) return 0n;
-    
+    const tokenContract = new ethers.Contract(tokenAddress, ERC20_ABI, getReadProvider(chainId));
     const allowance = await tokenContract.allowance(ownerAddress, spenderAddress);
     return BigInt(allowance.toString());
   } catch (error) {
@@ -156,13 +134,11 @@ export const approveToken = async (
 // Get Token Balance
 export const getTokenBalance = async (
   tokenAddress: string,
-  userAddress: string
+  userAddress: string,
+  chainId?: string
 ): Promise<bigint> => {
   try {
-    const provider = getProvider();
-    if (!provider) return 0n;
-    
-    const tokenContract = new ethers.Contract(tokenAddress, ERC20_ABI, provider);
+    const tokenContract = new ethers.Contract(tokenAddress, ERC20_ABI, getReadProvider(chainId));
     const balance = await tokenContract.balanceOf(userAddress);
     return BigInt(balance.toString());
   } catch (error) {
@@ -172,16 +148,13 @@ export const getTokenBalance = async (
 };
 
 // Get Token Info
-export const getTokenInfo = async (tokenAddress: string): Promise<{
+export const getTokenInfo = async (tokenAddress: string, chainId?: string): Promise<{
   name: string;
   symbol: string;
   decimals: number;
 } | null> => {
   try {
-    const provider = getProvider();
-    if (!provider) return null;
-    
-    const tokenContract = new ethers.Contract(tokenAddress, ERC20_ABI, provider);
+    const tokenContract = new ethers.Contract(tokenAddress, ERC20_ABI, getReadProvider(chainId));
     
     const [name, symbol, decimals] = await Promise.all([
       tokenContract.name(),
@@ -202,60 +175,45 @@ export const getTokenInfo = async (tokenAddress: string): Promise<{
 
 // Format Transaction Error
 export const formatTransactionError = (error: any): string => {
-  if (error.code === 'ACTION_REJECTED') {
-    return 'Transaction was rejected by user';
-  }
-  
-  if (error.code === 'INSUFFICIENT_FUNDS') {
-    return 'Insufficient funds for transaction';
-  }
-  
-  if (error.message?.includes('execution reverted')) {
-    // Extract revert reason if available
-    const match = error.message.match(/execution reverted: (.+)/);
-    if (match) {
-      return `Transaction failed: ${match[1]}`;
-    }
-    return 'Transaction failed: Contract execution reverted';
-  }
-  
-  if (error.message?.includes('user rejected')) {
-    return 'Transaction was rejected by user';
-  }
-  
-  // Generic fallback
-  return error.message || 'Transaction failed';
+  return formatContractError(decodeContractError(error));
 };
 
 // Estimate Gas for Transaction
-export const estimateGas = async (
-  contract: ethers.Contract,
-  method: string,
-  params: any[]
+// Only call once the transaction has been simulated; the fallback covers RPC
+// estimation failures, not calls that would revert
+export const estimateGas = async <A extends any[]>(
+  method: { estimateGas: (...args: A) => Promise<bigint> },
+  params: A,
+  fallbackGasLimit: bigint
 ): Promise<bigint> => {
   try {
-    const gasEstimate = await contract[method].estimateGas(...params);
+    const gasEstimate = await method.estimateGas(...params);
     // Add 20% buffer
     return (BigInt(gasEstimate.toString()) * 120n) / 100n;
   } catch (error) {
     console.error('Error estimating gas:', error);
-    // Return a reasonable default
-    return 500000n;
+    return fallbackGasLimit;
   }
 };
 
 // Wait for Transaction Confirmation
+// Follows the transaction's nonce, so a speed-up resolves with the replacement's receipt
+// and a cancellation or other replacement with null. A reverted transaction resolves
+// with its receipt (status 0) rather than throwing.
 export const waitForTransaction = async (
-  txHash: string,
+  tx: ethers.TransactionResponse,
   confirmations: number = 1
 ): Promise<ethers.TransactionReceipt | null> => {
   try {
-    const provider = getProvider();
-    if (!provider) return null;
-    
-    const receipt = await provider.waitForTransaction(txHash, confirmations);
-    return receipt;
-  } catch (error) {
+    return await tx.wait(confirmations);
+  } catch (error: any) {
+    if (ethers.isError(error, 'CALL_EXCEPTION') && error.receipt) {
+      return error.receipt;
+    }
+    if (ethers.isError(error, 'TRANSACTION_REPLACED')) {
+      console.warn(`Transaction ${tx.hash} was ${error.reason} by ${error.hash}`);
+      return error.reason === 'repriced' ? error.receipt : null;
+    }
     console.error('Error waiting for transaction:', error);
     return null;
   }
@@ -0,0 +1,73 @@
+// scripts/deploy-mock-kyc.js
+// Install MockKYCProvider as the hub's KYC provider on a local node, so the frontend's
+// verification flow can be tested without Coinbase Verifications. The hub checks the
+// coinbaseVerifications address it was deployed with and cannot be pointed elsewhere,
+// so the mock's code is placed at that address with hardhat_setCode.
+const fs = require("fs");
+const path = require("path");
+const { ethers, network } = require("hardhat");
+
+const MANIFEST = path.join(__dirname, "..", "morpho-rwa-frontend", "deployments", `${network.name}.json`);
+const LOCAL_NETWORKS = ["hardhat", "localhost"];
+
+// MockKYCProvider storage: Ownable's owner, then the verified mapping, then allowSelfVerification
+const OWNER_SLOT = "0x0";
+const SELF_VERIFICATION_SLOT = "0x2";
+
+async function main() {
+  console.log(`🚀 Installing MockKYCProvider on ${network.name}...\n`);
+
+  if (!LOCAL_NETWORKS.includes(network.name)) {
+    throw new Error(
+      `The hub's KYC provider is fixed at deployment; MockKYCProvider can only be installed on ${LOCAL_NETWORKS.join(" or ")}`
+    );
+  }
+  if (!fs.existsSync(MANIFEST)) {
+    throw new Error(`No deployment manifest at ${MANIFEST}; run scripts/deploy.js first`);
+  }
+  const manifest = JSON.parse(fs.readFileSync(MANIFEST, "utf8"));
+
+  const [deployer] = await ethers.getSigners();
+  console.log("Installing with account:", deployer.address);
+
+  const hub = await ethers.getContractAt("MorphoRWALiquidityHub", manifest.contracts.hub);
+  const providerAddress = await hub.coinbaseVerifications();
+
+  // Self-verification lets any wallet verify itself from the frontend; pass
+  // ALLOW_SELF_VERIFICATION=false to require the owner to verify addresses instead
+  const allowSelfVerification = process.env.ALLOW_SELF_VERIFICATION !== "false";
+
+  const MockKYCProvider = await ethers.getContractFactory("MockKYCProvider");
+  const deployment = await MockKYCProvider.deploy(deployer.address, allowSelfVerification);
+  await deployment.waitForDeployment();
+
+  // setCode copies the runtime code only, so the constructor's storage is written by hand
+  await network.provider.send("hardhat_setCode", [
+    providerAddress,
+    await ethers.provider.getCode(await deployment.getAddress())
+  ]);
+  await network.provider.send("hardhat_setStorageAt", [
+    providerAddress,
+    OWNER_SLOT,
+    ethers.zeroPadValue(deployer.address, 32)
+  ]);
+  await network.provider.send("hardhat_setStorageAt", [
+    providerAddress,
+    SELF_VERIFICATION_SLOT,
+    ethers.zeroPadValue(allowSelfVerification ? "0x01" : "0x00", 32)
+  ]);
+  console.log("✅ MockKYCProvider installed at the hub's provider address:", providerAddress);
+  console.log("   Self-verification:", allowSelfVerification ? "enabled" : "disabled");
+
+  // Verify the deployer so the owner wallet can borrow straight away
+  const provider = await ethers.getContractAt("MockKYCProvider", providerAddress);
+  await (await provider.setVerified(deployer.address, true)).wait();
+  console.log("✅ Verified deployer:", deployer.address);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Installation failed:", error);
+    process.exit(1);
+  });
@@ -1,4 +1,26 @@
-const { ethers } = require("hardhat");
+const fs = require("fs");
+const path = require("path");
+const { ethers, network } = require("hardhat");
+
+const DEPLOYMENTS_DIR = path.join(__dirname, "..", "morpho-rwa-frontend", "deployments");
+
+// Write the frontend deployment manifest, keeping RWA tokens and optional
+// contracts from a previous manifest for the same network
+function writeDeploymentManifest(manifest) {
+  const file = path.join(DEPLOYMENTS_DIR, `${manifest.network}.json`);
+  const previous = fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, "utf8")) : {};
+
+  const merged = {
+    ...previous,
+    ...manifest,
+    contracts: { ...(previous.contracts || {}), ...manifest.contracts },
+    rwaTokens: manifest.rwaTokens || previous.rwaTokens || []
+  };
+
+  fs.mkdirSync(DEPLOYMENTS_DIR, { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(merged, null, 2) + "\n");
+  return file;
+}
 
 async function main() {
   console.log("🚀 Starting deployment to Sepolia...");
@@ -46,9 +68,22 @@ async function main() {
   console.log("Deployer:", deployer.address);
   console.log("Network: Sepolia Testnet");
   
-  console.log("\n📝 UPDATE YOUR FRONTEND:");
-  console.log(`NEXT_PUBLIC_RWA_ORACLE_ADDRESS=${await rwaOracle.getAddress()}`);
-  console.log(`NEXT_PUBLIC_MORPHO_RWA_CONTRACT_ADDRESS=${await morphoRWAHub.getAddress()}`);
+  const { chainId } = await ethers.provider.getNetwork();
+  const manifestFile = writeDeploymentManifest({
+    network: network.name,
+    chainId: Number(chainId),
+    deployer: deployer.address,
+    deployedBlock: await ethers.provider.getBlockNumber(),
+    contracts: {
+      hub: await morphoRWAHub.getAddress(),
+      oracle: await rwaOracle.getAddress(),
+      morpho: await morphoRWAHub.morpho(),
+      usdc: await morphoRWAHub.usdc()
+    }
+  });
+
+  console.log("\n📝 FRONTEND DEPLOYMENT MANIFEST:");
+  console.log(manifestFile);
 }
 
 main()
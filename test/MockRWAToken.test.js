@@ -0,0 +1,80 @@
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+const { time } = require("@nomicfoundation/hardhat-network-helpers");
+
+const PERMIT_TYPES = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" }
+  ]
+};
+
+describe("MockRWAToken permit", function () {
+  async function deployToken() {
+    const [owner, spender] = await ethers.getSigners();
+    const MockRWAToken = await ethers.getContractFactory("MockRWAToken");
+    const token = await MockRWAToken.deploy("Mock Treasury Bill", "mTBILL", 18, "Treasury", owner.address);
+
+    // The domain utils/permit.ts signs with when version() is missing
+    const { chainId } = await ethers.provider.getNetwork();
+    const domain = {
+      name: "Mock Treasury Bill",
+      version: "1",
+      chainId,
+      verifyingContract: await token.getAddress()
+    };
+
+    return { token, owner, spender, domain };
+  }
+
+  async function signPermit(owner, domain, spender, value, nonce, deadline) {
+    const signature = await owner.signTypedData(domain, PERMIT_TYPES, {
+      owner: owner.address,
+      spender,
+      value,
+      nonce,
+      deadline
+    });
+    return ethers.Signature.from(signature);
+  }
+
+  it("uses the token name and version 1 as its EIP-712 domain", async function () {
+    const { token, domain } = await deployToken();
+
+    expect(await token.DOMAIN_SEPARATOR()).to.equal(ethers.TypedDataEncoder.hashDomain(domain));
+  });
+
+  it("sets the allowance from a signed permit and bumps the nonce", async function () {
+    const { token, owner, spender, domain } = await deployToken();
+    const value = ethers.parseEther("250");
+    const deadline = BigInt(await time.latest()) + 1800n;
+
+    const { v, r, s } = await signPermit(owner, domain, spender.address, value, 0n, deadline);
+    await token.connect(spender).permit(owner.address, spender.address, value, deadline, v, r, s);
+
+    expect(await token.allowance(owner.address, spender.address)).to.equal(value);
+    expect(await token.nonces(owner.address)).to.equal(1n);
+
+    await token.connect(spender).transferFrom(owner.address, spender.address, value);
+    expect(await token.balanceOf(spender.address)).to.equal(value);
+  });
+
+  it("rejects a replayed or expired permit", async function () {
+    const { token, owner, spender, domain } = await deployToken();
+    const value = ethers.parseEther("1");
+    const deadline = BigInt(await time.latest()) + 60n;
+
+    const { v, r, s } = await signPermit(owner, domain, spender.address, value, 0n, deadline);
+    await token.permit(owner.address, spender.address, value, deadline, v, r, s);
+    await expect(token.permit(owner.address, spender.address, value, deadline, v, r, s))
+      .to.be.revertedWith("ERC20Permit: invalid signature");
+
+    await time.increase(120);
+    const expired = await signPermit(owner, domain, spender.address, value, 1n, deadline);
+    await expect(token.permit(owner.address, spender.address, value, deadline, expired.v, expired.r, expired.s))
+      .to.be.revertedWith("ERC20Permit: expired deadline");
+  });
+});
@@ -0,0 +1,296 @@
+const { expect } = require("chai");
+const { ethers, network } = require("hardhat");
+const { loadFixture, time } = require("@nomicfoundation/hardhat-network-helpers");
+
+// Any chain id other than 1 makes the hub use the Morpho Blue and USDC addresses it hardcodes for Base
+const CHAIN_ID = 8453;
+
+const WAD = 10n ** 18n;
+const ORACLE_PRICE_SCALE = 10n ** 36n;
+const BASIS_POINTS = 10_000n;
+const LLTV = 8000n;
+
+// Interest the app's USDC allowances cover beyond the latest block (utils/repayment.ts, utils/liquidation.ts)
+const ACCRUAL_MARGIN_SECONDS = 10n * 60n;
+
+const COLLATERAL = ethers.parseEther("100");
+const BORROW = 5_000n * 10n ** 6n;
+const LIQUIDITY = 1_000_000n * 10n ** 6n;
+
+// $100 per mTBILL: 8 decimals for the hub's Chainlink read, and Morpho's 1e36 scale between
+// 18-decimal collateral and 6-decimal USDC. The hub passes its LLTV to Morpho in basis points,
+// which Morpho reads as a WAD fraction, so Morpho's price is scaled up by the same factor for
+// its health check to match the hub's
+const FEED_ANSWER = 100n * 10n ** 8n;
+const MORPHO_PRICE = (100n * ORACLE_PRICE_SCALE * 10n ** 6n / WAD) * (WAD / BASIS_POINTS);
+
+// Morpho Blue's interest accrual and share math, as utils/morphoMath.ts implements them
+const wTaylorCompounded = (rate, elapsed) => {
+  const firstTerm = rate * elapsed;
+  const secondTerm = (firstTerm * firstTerm) / (2n * WAD);
+  const thirdTerm = (secondTerm * firstTerm) / (3n * WAD);
+  return firstTerm + secondTerm + thirdTerm;
+};
+
+const toAssetsUp = (shares, totalAssets, totalShares) =>
+  (shares * (totalAssets + 1n) + (totalShares + 10n ** 6n) - 1n) / (totalShares + 10n ** 6n);
+
+// USDC that repaying `shares` costs ACCRUAL_MARGIN_SECONDS from now, with interest at the IRM's current rate
+const quoteRepayment = async ({ morpho, irm, marketId, marketParams }, shares) => {
+  const market = (await morpho.market(marketId)).toObject();
+  const borrowRate = await irm.borrowRateView(marketParams, market);
+  const elapsed = BigInt(await time.latest()) + ACCRUAL_MARGIN_SECONDS - market.lastUpdate;
+  const interest = market.totalBorrowAssets * wTaylorCompounded(borrowRate, elapsed) / WAD;
+  return toAssetsUp(shares, market.totalBorrowAssets + interest, market.totalBorrowShares);
+};
+
+const copyCode = async (from, to) => {
+  await network.provider.send("hardhat_setCode", [to, await ethers.provider.getCode(from)]);
+};
+
+describe("MorphoRWALiquidityHub", function () {
+  async function deployHub() {
+    const [owner, lender, borrower, liquidator] = await ethers.getSigners();
+
+    const Hub = await ethers.getContractFactory("MorphoRWALiquidityHub");
+    const hub = await Hub.deploy(owner.address, owner.address, CHAIN_ID);
+
+    // Put Morpho Blue (behind MorphoMarketIdShim) and a mock USDC where the hub expects them.
+    // Morpho's owner is its first storage slot, which the copied code does not carry over
+    const morphoImplementation = await (await ethers.getContractFactory("Morpho")).deploy(owner.address);
+    const shim = await (await ethers.getContractFactory("MorphoMarketIdShim"))
+      .deploy(await morphoImplementation.getAddress());
+    await copyCode(await shim.getAddress(), await hub.morpho());
+    await network.provider.send("hardhat_setStorageAt", [
+      await hub.morpho(),
+      "0x0",
+      ethers.zeroPadValue(owner.address, 32)
+    ]);
+    const morpho = await ethers.getContractAt("Morpho", await hub.morpho());
+
+    const usdcDeployment = await (await ethers.getContractFactory("ERC20Mock")).deploy();
+    await copyCode(await usdcDeployment.getAddress(), await hub.usdc());
+    const usdc = await ethers.getContractAt("ERC20Mock", await hub.usdc());
+
+    const irm = await (await ethers.getContractFactory("IrmMock")).deploy();
+    await morpho.enableIrm(await irm.getAddress());
+    await morpho.enableLltv(LLTV);
+
+    const feed = await (await ethers.getContractFactory("MockPriceFeed")).deploy(8, FEED_ANSWER, MORPHO_PRICE);
+    const token = await (await ethers.getContractFactory("MockRWAToken"))
+      .deploy("Mock Treasury Bill", "mTBILL", 18, "Treasury", owner.address);
+    const tokenAddress = await token.getAddress();
+
+    await hub.setKYCRequirement(false);
+    await hub.createRWAMarket(tokenAddress, {
+      isSupported: true,
+      name: "Mock Treasury Bill",
+      assetType: "Treasury",
+      oracle: await feed.getAddress(),
+      irm: await irm.getAddress(),
+      lltv: LLTV,
+      minCollateral: ethers.parseEther("1"),
+      maxSinglePosition: ethers.parseEther("1000000"),
+      decimals: 18,
+      requiresKYC: false,
+      isActive: true
+    });
+    const marketId = await hub.rwaMarketIds(tokenAddress);
+    const marketParams = (await morpho.idToMarketParams(marketId)).toObject();
+
+    await usdc.setBalance(lender.address, LIQUIDITY);
+    await usdc.connect(lender).approve(await morpho.getAddress(), LIQUIDITY);
+    await morpho.connect(lender).supply(marketParams, LIQUIDITY, 0, lender.address, "0x");
+
+    // The hub borrows and withdraws on the borrower's behalf, and takes its fee from the loan
+    await token.mint(borrower.address, COLLATERAL);
+    await token.connect(borrower).approve(await hub.getAddress(), COLLATERAL);
+    await usdc.connect(borrower).approve(await hub.getAddress(), ethers.MaxUint256);
+    await morpho.connect(borrower).setAuthorization(await hub.getAddress(), true);
+    await hub.connect(borrower).supplyCollateralAndBorrow(tokenAddress, COLLATERAL, BORROW);
+
+    return { hub, morpho, usdc, irm, feed, token, tokenAddress, marketId, marketParams, owner, lender, borrower, liquidator };
+  }
+
+  // Let interest accrue, keeping the hub's Chainlink read within its timeout
+  async function accrue({ feed }, seconds) {
+    await time.increase(seconds);
+    await feed.setAnswer(FEED_ANSWER);
+  }
+
+  describe("KYC", function () {
+    // A second borrower with collateral and the approvals supplyCollateralAndBorrow needs
+    async function newBorrower({ hub, morpho, usdc, token }) {
+      const [, , , , account] = await ethers.getSigners();
+      await token.mint(account.address, COLLATERAL);
+      await token.connect(account).approve(await hub.getAddress(), COLLATERAL);
+      await usdc.connect(account).approve(await hub.getAddress(), ethers.MaxUint256);
+      await morpho.connect(account).setAuthorization(await hub.getAddress(), true);
+      return account;
+    }
+
+    // Put MockKYCProvider at the hub's fixed coinbaseVerifications address, owned by `owner`
+    async function installProvider({ hub, owner }) {
+      const deployment = await (await ethers.getContractFactory("MockKYCProvider")).deploy(owner.address, false);
+      const address = await hub.coinbaseVerifications();
+      await copyCode(await deployment.getAddress(), address);
+      await network.provider.send("hardhat_setStorageAt", [address, "0x0", ethers.zeroPadValue(owner.address, 32)]);
+      return ethers.getContractAt("MockKYCProvider", address);
+    }
+
+    it("requires KYC by default and only checks the fixed coinbaseVerifications contract", async function () {
+      const Hub = await ethers.getContractFactory("MorphoRWALiquidityHub");
+      const [owner] = await ethers.getSigners();
+      const hub = await Hub.deploy(owner.address, owner.address, CHAIN_ID);
+
+      expect(await hub.requireKYCDefault()).to.equal(true);
+      expect(await hub.coinbaseVerifications()).to.equal(await hub.COINBASE_VERIFICATIONS());
+    });
+
+    it("blocks unverified users while requireKYCDefault is on", async function () {
+      const fixture = await loadFixture(deployHub);
+      const { hub, tokenAddress } = fixture;
+      const account = await newBorrower(fixture);
+      await hub.setKYCRequirement(true);
+
+      // COINBASE_VERIFICATIONS is a placeholder with no code, so the check reverts outright
+      await expect(hub.connect(account).supplyCollateralAndBorrow(tokenAddress, COLLATERAL, BORROW)).to.be.reverted;
+
+      await installProvider(fixture);
+      await expect(hub.connect(account).supplyCollateralAndBorrow(tokenAddress, COLLATERAL, BORROW))
+        .to.be.revertedWith("KYC verification required");
+    });
+
+    it("lets verified users borrow while requireKYCDefault is on", async function () {
+      const fixture = await loadFixture(deployHub);
+      const { hub, usdc, tokenAddress } = fixture;
+      const account = await newBorrower(fixture);
+      await hub.setKYCRequirement(true);
+
+      const provider = await installProvider(fixture);
+      await provider.setVerified(account.address, true);
+      await hub.connect(account).supplyCollateralAndBorrow(tokenAddress, COLLATERAL, BORROW);
+
+      expect(await hub.userCollateralAmounts(account.address, tokenAddress)).to.equal(COLLATERAL);
+      expect(await usdc.balanceOf(account.address)).to.be.greaterThan(0n);
+    });
+
+    it("ignores a token's requiresKYC once requireKYCDefault is off", async function () {
+      const fixture = await loadFixture(deployHub);
+      const { hub, tokenAddress } = fixture;
+      const account = await newBorrower(fixture);
+
+      const config = (await hub.rwaConfigs(tokenAddress)).toObject();
+      await hub.updateRWAConfig(tokenAddress, { ...config, requiresKYC: true });
+      await hub.connect(account).supplyCollateralAndBorrow(tokenAddress, COLLATERAL, BORROW);
+
+      expect(await hub.userCollateralAmounts(account.address, tokenAddress)).to.equal(COLLATERAL);
+    });
+  });
+
+  describe("repayment", function () {
+    it("repays every borrow share on Morpho within the quoted allowance, then withdraws through the hub", async function () {
+      const fixture = await loadFixture(deployHub);
+      const { hub, morpho, usdc, token, tokenAddress, marketId, marketParams, borrower } = fixture;
+      await accrue(fixture, 30 * 24 * 60 * 60);
+
+      const { borrowShares } = await morpho.position(marketId, borrower.address);
+      const allowance = await quoteRepayment(fixture, borrowShares);
+
+      await usdc.setBalance(borrower.address, allowance);
+      await usdc.connect(borrower).approve(await morpho.getAddress(), allowance);
+      await morpho.connect(borrower).repay(marketParams, 0, borrowShares, borrower.address, "0x");
+
+      expect((await morpho.position(marketId, borrower.address)).borrowShares).to.equal(0n);
+      const repaid = allowance - await usdc.balanceOf(borrower.address);
+      expect(repaid).to.be.greaterThan(BORROW);
+
+      await hub.connect(borrower).repayAndWithdraw(tokenAddress, 0, COLLATERAL, false);
+      expect(await token.balanceOf(borrower.address)).to.equal(COLLATERAL);
+      expect(await hub.userCollateralAmounts(borrower.address, tokenAddress)).to.equal(0n);
+    });
+
+    it("repays part of the debt through the hub", async function () {
+      const { hub, morpho, usdc, tokenAddress, marketId, borrower } = await loadFixture(deployHub);
+      const repayAmount = 1_000n * 10n ** 6n;
+      const before = await morpho.position(marketId, borrower.address);
+      const balance = await usdc.balanceOf(borrower.address);
+
+      await hub.connect(borrower).repayAndWithdraw(tokenAddress, repayAmount, 0, false);
+
+      const after = await morpho.position(marketId, borrower.address);
+      expect(after.borrowShares).to.be.lessThan(before.borrowShares);
+      expect(after.borrowShares).to.be.greaterThan(0n);
+      expect(await usdc.balanceOf(borrower.address)).to.equal(balance - repayAmount);
+    });
+
+    it("cannot repay in full through the hub, which only pulls a fixed buffer", async function () {
+      const fixture = await loadFixture(deployHub);
+      const { hub, tokenAddress, borrower } = fixture;
+      await accrue(fixture, 24 * 60 * 60);
+
+      await expect(hub.connect(borrower).repayAndWithdraw(tokenAddress, 0, 0, true))
+        .to.be.revertedWith("transferFrom reverted");
+      await expect(hub.connect(borrower).repayAllAndWithdraw(tokenAddress, 0))
+        .to.be.revertedWith("transferFrom reverted");
+    });
+  });
+
+  describe("liquidation", function () {
+    // Morpho's incentive for an LLTV this close to zero is its 1.15 cap
+    const LIQUIDATION_INCENTIVE_FACTOR = 1150000000000000000n;
+
+    // Drop mTBILL to $60 for Morpho, which puts the position under its LLTV
+    async function dropPrice({ feed }) {
+      await feed.setPrice(MORPHO_PRICE * 60n / 100n);
+      await feed.setAnswer(FEED_ANSWER * 60n / 100n);
+    }
+
+    it("liquidates an unhealthy position directly on Morpho, paying the liquidator the seized collateral", async function () {
+      const fixture = await loadFixture(deployHub);
+      const { hub, morpho, usdc, token, tokenAddress, marketId, marketParams, borrower, liquidator } = fixture;
+      await dropPrice(fixture);
+
+      const { borrowShares } = await morpho.position(marketId, borrower.address);
+      const allowance = await quoteRepayment(fixture, borrowShares);
+
+      await usdc.setBalance(liquidator.address, allowance);
+      await usdc.connect(liquidator).approve(await morpho.getAddress(), allowance);
+      await morpho.connect(liquidator).liquidate(marketParams, borrower.address, 0, borrowShares, "0x");
+
+      const position = await morpho.position(marketId, borrower.address);
+      const seized = COLLATERAL - position.collateral;
+      const repaid = allowance - await usdc.balanceOf(liquidator.address);
+      expect(position.borrowShares).to.equal(0n);
+      expect(await token.balanceOf(liquidator.address)).to.equal(seized);
+      expect(repaid).to.be.greaterThan(BORROW);
+
+      // Debt times the incentive, in collateral at the oracle price
+      const expected = (BORROW * LIQUIDATION_INCENTIVE_FACTOR / WAD) * ORACLE_PRICE_SCALE / (MORPHO_PRICE * 60n / 100n);
+      expect(seized).to.be.closeTo(expected, expected / 1000n);
+
+      // The hub does not see the liquidation and still counts the seized collateral
+      expect(await hub.userCollateralAmounts(borrower.address, tokenAddress)).to.equal(COLLATERAL);
+    });
+
+    it("reverts on Morpho while the position is healthy there", async function () {
+      const { morpho, usdc, marketId, marketParams, borrower, liquidator } = await loadFixture(deployHub);
+      const { borrowShares } = await morpho.position(marketId, borrower.address);
+
+      await usdc.setBalance(liquidator.address, BORROW * 2n);
+      await usdc.connect(liquidator).approve(await morpho.getAddress(), BORROW * 2n);
+      await expect(morpho.connect(liquidator).liquidate(marketParams, borrower.address, 0, borrowShares, "0x"))
+        .to.be.revertedWith("position is healthy");
+    });
+
+    it("disagrees with Morpho: the hub's health factor does not make the position liquidatable", async function () {
+      const fixture = await loadFixture(deployHub);
+      const { hub, morpho, tokenAddress, marketId, borrower, liquidator } = fixture;
+      await dropPrice(fixture);
+      const { borrowShares } = await morpho.position(marketId, borrower.address);
+
+      await expect(hub.connect(liquidator).liquidatePosition(borrower.address, tokenAddress, 0, borrowShares))
+        .to.be.revertedWith("Position not liquidatable");
+    });
+  });
+});